@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { DatabaseModule } from './database/database.module';
 import { ProductsModule } from './modules/products/products.module';
 import { AttachmentsModule } from './modules/attachments/attachments.module';
+import { HashmapModule } from './modules/hashmap/hashmap.module';
 
 @Module({
-  imports: [DatabaseModule, ProductsModule, AttachmentsModule],
+  imports: [DatabaseModule, HashmapModule.forRoot(), ProductsModule, AttachmentsModule],
   controllers: [],
   providers: [],
 })
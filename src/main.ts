@@ -26,6 +26,9 @@ async function bootstrap() {
   // Enable CORS
   app.enableCors();
 
+  // Run shutdown hooks so the hashmap snapshot is written on SIGTERM/SIGINT
+  app.enableShutdownHooks();
+
   // Setup Swagger documentation
   const config = new DocumentBuilder()
     .setTitle('Product API with Custom Hashmap')
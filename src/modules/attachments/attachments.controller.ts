@@ -1,6 +1,26 @@
-import { Controller, Post, UseInterceptors, UploadedFiles, Body, Get } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  UseInterceptors,
+  UploadedFiles,
+  Body,
+  Get,
+  Query,
+  Delete,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
 import { FilesInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiResponse, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
 import { diskStorage } from 'multer';
 import { extname } from 'path';
 import { AttachmentsService } from './attachments.service';
@@ -133,21 +153,13 @@ export class AttachmentsController {
     @Body() body: BulkUploadAttachmentsDto,
   ): Promise<AttachmentResponseDto[]> {
     const { folderPaths = [], productId } = body;
-    const results: AttachmentResponseDto[] = [];
-    
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const folderPath = folderPaths[i] || null;
-      
-      const result = await this.attachmentsService.registerFileToFolder(
-        file,
-        productId ?? null,
-        folderPath
-      );
-      results.push(result);
-    }
-    
-    return results;
+
+    // All files are saved in one transaction; the cache only sees them if it commits
+    return this.attachmentsService.registerFilesToFolders(
+      files,
+      productId ?? null,
+      files.map((_, i) => folderPaths[i] || null),
+    );
   }
 
   @Get('tree')
@@ -171,7 +183,64 @@ export class AttachmentsController {
       },
     },
   })
-  async tree() {
+  @ApiQuery({
+    name: 'source',
+    required: false,
+    enum: ['disk', 'cache'],
+    description:
+      'Walk the uploads directory (default) or build the tree from the registered attachments',
+  })
+  async tree(@Query('source') source?: string) {
+    if (source === 'cache') {
+      return this.attachmentsService.buildCachedDirectoryTree();
+    }
     return this.attachmentsService.buildDirectoryTree();
   }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export attachments',
+    description:
+      'Return every active attachment from one consistent snapshot of the cache, or from the database while the cache is incomplete',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully exported attachments',
+    type: [AttachmentResponseDto],
+  })
+  export(): Promise<AttachmentResponseDto[]> {
+    return this.attachmentsService.exportAttachments();
+  }
+
+  @Get('folder')
+  @ApiOperation({
+    summary: 'List folder contents',
+    description:
+      'List the files and subfolders directly inside a folder from the registered attachment paths',
+  })
+  @ApiQuery({
+    name: 'path',
+    required: false,
+    description: 'Folder path relative to the uploads directory (e.g., "documents/contracts")',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved folder contents',
+  })
+  folder(@Query('path') folderPath?: string) {
+    return this.attachmentsService.listFolderContents(folderPath);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete attachment',
+    description: 'Soft-delete an attachment and drop it from the cache of every process',
+  })
+  @ApiParam({ name: 'id', description: 'Attachment ID (UUID)' })
+  @ApiResponse({ status: 204, description: 'Attachment successfully deleted' })
+  @ApiResponse({ status: 404, description: 'Attachment not found' })
+  async remove(@Param('id') id: string): Promise<void> {
+    await this.attachmentsService.deleteAttachment(id);
+  }
 }
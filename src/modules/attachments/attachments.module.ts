@@ -4,10 +4,9 @@ import { AttachmentsController } from './attachments.controller';
 import { AttachmentsService } from './attachments.service';
 import { AttachmentsRepository } from './attachments.repository';
 import { Attachment } from '../../database/entities/attachment.entity';
-import { HashmapModule } from '../hashmap/hashmap.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Attachment]), HashmapModule],
+  imports: [TypeOrmModule.forFeature([Attachment])],
   controllers: [AttachmentsController],
   providers: [AttachmentsService, AttachmentsRepository],
   exports: [AttachmentsService],
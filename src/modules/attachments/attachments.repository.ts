@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Like, Repository } from 'typeorm';
 import { Attachment } from '../../database/entities/attachment.entity';
 
 @Injectable()
@@ -10,13 +10,20 @@ export class AttachmentsRepository {
     private readonly repo: Repository<Attachment>,
   ) {}
 
+  // Runs work against a repository bound to a single database transaction
+  async transaction<T>(work: (repository: AttachmentsRepository) => Promise<T>): Promise<T> {
+    return this.repo.manager.transaction(manager =>
+      work(new AttachmentsRepository(manager.getRepository(Attachment))),
+    );
+  }
+
   async create(data: Partial<Attachment>): Promise<Attachment> {
     const ent = this.repo.create(data);
     return this.repo.save(ent);
   }
 
   async findByPath(path: string): Promise<Attachment | null> {
-    const ent = await this.repo.findOne({ where: { path } });
+    const ent = await this.repo.findOne({ where: { path, isDeleted: false } });
     return ent ?? null;
   }
 
@@ -33,6 +40,20 @@ export class AttachmentsRepository {
     return this.repo.find({ where: { isDeleted: false } });
   }
 
+  // Active attachments whose path starts with prefix, in path order. Sorted
+  // here by UTF-16 code unit, like the cache's sorted index, rather than by
+  // the database collation.
+  async findByPathPrefix(prefix: string): Promise<Attachment[]> {
+    const pattern = prefix.replace(/[\\%_]/g, '\\$&') + '%';
+    const recs = await this.repo.find({ where: { path: Like(pattern), isDeleted: false } });
+    return recs.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+
+  async findAllActivePaths(): Promise<string[]> {
+    const recs = await this.repo.find({ select: { path: true }, where: { isDeleted: false } });
+    return recs.map(r => r.path);
+  }
+
   async softDelete(id: string): Promise<boolean> {
     const res = await this.repo.update(id, { isDeleted: true } as any);
     return (res.affected ?? 0) > 0;
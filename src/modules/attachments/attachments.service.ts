@@ -1,7 +1,19 @@
-import { Inject, Injectable, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, OnModuleInit, Optional } from '@nestjs/common';
 import { AttachmentsRepository } from './attachments.repository';
 import { Attachment } from '../../database/entities/attachment.entity';
-import { CustomHashmap } from '../hashmap/custom-hashmap';
+import { BloomFilterOptions, Hashmap, HashmapEvent, InvalidationBus } from '../hashmap/types';
+import {
+  InjectBloomFilterOptions,
+  InjectHashmap,
+  InjectInvalidationBus,
+} from '../hashmap/hashmap.decorators';
+import { LoadingHashmap } from '../hashmap/loading-hashmap';
+import { IndexedHashmap } from '../hashmap/indexed-hashmap';
+import { SortedKeyIndex } from '../hashmap/sorted-key-index';
+import { ScalableBloomFilter } from '../hashmap/bloom-filter';
+import { PersistentMirror } from '../hashmap/persistent-mirror';
+import { CacheInvalidator } from '../hashmap/cache-invalidator';
+import { HashmapSnapshotService } from '../hashmap/hashmap-snapshot.service';
 import { IAttachment } from './interfaces/attachment.interface';
 import { AttachmentResponseDto } from './dto/attachment-response.dto';
 import * as fs from 'fs';
@@ -16,17 +28,71 @@ export type Node = {
   children?: Node[];
 };
 
+const logger = new Logger('AttachmentsService');
+
+// Invalidation keys naming a product or folder listing rather than a path
+const PRODUCT_KEY_PREFIX = 'product:';
+const FOLDER_KEY_PREFIX = 'folder:';
+
+const compareNodes = (a: Node, b: Node): number =>
+  a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1;
+
 @Injectable()
 export class AttachmentsService implements OnModuleInit {
   private uploadsRoot = path.resolve(process.cwd(), 'uploads');
+  // All cache writes go through here so a newly registered path clears a cached miss
+  private readonly attachmentCache: LoadingHashmap<string, AttachmentHashValue>;
+  private readonly attachmentIndex: IndexedHashmap<
+    string,
+    AttachmentHashValue,
+    'productId' | 'folder'
+  >;
+  private readonly attachmentPaths: SortedKeyIndex<AttachmentHashValue>;
+  // Immutable copy of the cache for reads that must not see uploads in progress
+  private readonly attachmentVersions: PersistentMirror<string, AttachmentHashValue>;
+  // Every registered path; only consulted once it has been filled from the
+  // database. Local registrations are added as they happen, and those of
+  // other processes arrive over the bus when there is one.
+  private readonly knownPaths: ScalableBloomFilter;
+  private knownPathsReady = false;
+  // Products whose attachments were all loaded from the database and have not
+  // lost an entry since, so the productId index alone can answer for them
+  private readonly completeProducts = new Set<string>();
+  // Set by a full bootstrap and cleared as soon as an entry is dropped or a
+  // peer may have registered a path, so folder listings can trust the cache
+  private cacheComplete = false;
+  // Tells other processes which paths changed here; null without a bus
+  private readonly invalidator: CacheInvalidator<string, AttachmentHashValue> | null;
 
   constructor(
     private readonly attachmentsRepository: AttachmentsRepository,
-    @Inject('CUSTOM_HASHMAP') private readonly hashmap: CustomHashmap<string, AttachmentHashValue>,
-  ) {}
+    @InjectHashmap() private readonly hashmap: Hashmap<string, AttachmentHashValue>,
+    private readonly hashmapSnapshots: HashmapSnapshotService,
+    @Optional() @InjectInvalidationBus() invalidationBus?: InvalidationBus | null,
+    @Optional() @InjectBloomFilterOptions() bloomFilterOptions?: BloomFilterOptions,
+  ) {
+    this.knownPaths = new ScalableBloomFilter(bloomFilterOptions);
+    this.attachmentCache = new LoadingHashmap(hashmap);
+    this.attachmentIndex = new IndexedHashmap(hashmap, {
+      productId: a => a.productId,
+      folder: a => this.folderOf(a.path),
+    });
+    this.attachmentPaths = new SortedKeyIndex(hashmap);
+    this.attachmentVersions = new PersistentMirror(hashmap);
+    hashmap.subscribe(event => this.trackCompleteness(event));
+    this.invalidator = invalidationBus
+      ? new CacheInvalidator(hashmap, invalidationBus, { channel: 'attachments' })
+      : null;
+    this.invalidator?.onInvalidate(key => this.applyPeerInvalidation(key));
+  }
 
   async onModuleInit() {
-    await this.bootstrapHashmap();
+    // Only hit the database when no usable snapshot was restored at startup
+    if (!this.hashmapSnapshots.restored) {
+      await this.bootstrapHashmap();
+    } else {
+      await this.rebuildKnownPaths();
+    }
     // ensure uploads dir exists
     try {
       await fs.promises.mkdir(this.uploadsRoot, { recursive: true });
@@ -69,10 +135,24 @@ export class AttachmentsService implements OnModuleInit {
 
   async bootstrapHashmap(): Promise<void> {
     const recs = await this.attachmentsRepository.findAllActive();
+    this.cacheComplete = true;
     recs.forEach(r => {
       const d = this.entityToDomain(r);
-      this.hashmap.set(d.path, this.domainToResponse(d));
+      this.cacheAttachment(this.domainToResponse(d));
     });
+    this.knownPathsReady = true;
+  }
+
+  // Refills the path filter from the database, e.g. after a snapshot restore
+  // or once deleted paths have piled up. Cached keys are added back in case
+  // a registration landed while the query was running.
+  async rebuildKnownPaths(): Promise<void> {
+    const paths = await this.attachmentsRepository.findAllActivePaths();
+    this.knownPaths.rebuild(paths);
+    for (const key of this.attachmentPaths.keys()) {
+      this.knownPaths.add(key);
+    }
+    this.knownPathsReady = true;
   }
 
   async registerFile(files: any, productId?: string | null, folderPath?: string | null): Promise<AttachmentResponseDto> {
@@ -87,31 +167,135 @@ export class AttachmentsService implements OnModuleInit {
     } as Partial<Attachment>);
     const d = this.entityToDomain(saved);
     const resp = this.domainToResponse(d);
-    this.hashmap.set(resp.path, resp);
+    this.cacheAttachment(resp);
+    this.announce([resp]);
     return resp;
   }
 
   async getByPath(pathKey: string): Promise<AttachmentResponseDto> {
-    const fromCache = this.hashmap.get(pathKey);
-    if (fromCache) return fromCache;
-    const ent = await this.attachmentsRepository.findByPath(pathKey);
-    if (!ent) throw new NotFoundException('Attachment not found');
-    const d = this.entityToDomain(ent);
-    const resp = this.domainToResponse(d);
-    this.hashmap.set(pathKey, resp);
+    // Concurrent misses for one path share a single query
+    const resp = await this.attachmentCache.getOrLoad(pathKey, async key => {
+      // Paths the filter has never seen cannot be in the database
+      if (this.knownPathsReady && !this.knownPaths.mightContain(key)) {
+        return undefined;
+      }
+      // Soft-deleted rows must not be cached again after deleteAttachment
+      const ent = await this.attachmentsRepository.findByPath(key);
+      return ent && !ent.isDeleted ? this.domainToResponse(this.entityToDomain(ent)) : undefined;
+    });
+    if (!resp) throw new NotFoundException('Attachment not found');
     return resp;
   }
 
   async listByProduct(productId: string): Promise<AttachmentResponseDto[]> {
+    // The index may hold only some of a product's attachments, e.g. ones
+    // fetched by path or left over after others expired. Reading the index
+    // drops expired entries without a word, so they are purged first.
+    this.hashmap.purgeExpired();
+    if (this.completeProducts.has(productId)) {
+      return this.attachmentIndex.find('productId', productId);
+    }
     const recs = await this.attachmentsRepository.findByProductId(productId);
+    // Marked before caching, so an entry evicted to make room for a later one
+    // clears the mark again
+    this.completeProducts.add(productId);
     return recs.map(r => {
       const d = this.entityToDomain(r);
       const resp = this.domainToResponse(d);
-      this.hashmap.set(resp.path, resp);
+      this.cacheAttachment(resp);
       return resp;
     });
   }
 
+  // Soft-deletes the attachment; the file itself stays on disk
+  async deleteAttachment(id: string): Promise<void> {
+    const ent = await this.attachmentsRepository.findById(id);
+    if (!ent || ent.isDeleted || !(await this.attachmentsRepository.softDelete(id))) {
+      throw new NotFoundException('Attachment not found');
+    }
+    const resp = this.domainToResponse(this.entityToDomain(ent));
+    this.attachmentCache.invalidate(resp.path);
+    this.announce([resp]);
+  }
+
+  // Attachments stored directly in the folder, or anywhere below it when
+  // recursive, in path order
+  async listByFolder(folderPath: string, recursive = false): Promise<AttachmentResponseDto[]> {
+    const folder = this.sanitizeFolderPath(folderPath);
+    if (!recursive && this.holdsEverything()) {
+      return this.attachmentIndex.find('folder', folder);
+    }
+    const prefix = this.folderPrefix(folder);
+    const below = await this.listBelow(prefix);
+    return recursive ? below : below.filter(r => !r.path.slice(prefix.length).includes(path.sep));
+  }
+
+  // Direct children of a folder built from registered paths instead of the
+  // filesystem; subfolders only show up once they hold a registered file
+  async listFolderContents(folderPath?: string | null): Promise<Node[]> {
+    const folder = this.sanitizeFolderPath(folderPath);
+    const folderDir = path.join(this.uploadsRoot, folder);
+    const prefix = this.folderPrefix(folder);
+    const subfolders = new Set<string>();
+    const nodes: Node[] = [];
+
+    for (const { path: key } of await this.listBelow(prefix)) {
+      const [name, ...rest] = key.slice(prefix.length).split(path.sep);
+      if (rest.length > 0) {
+        if (!subfolders.has(name)) {
+          subfolders.add(name);
+          nodes.push({ name, path: path.join(folderDir, name), type: 'folder' });
+        }
+      } else {
+        nodes.push({ name, path: path.join(folderDir, name), type: 'file' });
+      }
+    }
+
+    return nodes.sort(compareNodes);
+  }
+
+  // Every active attachment as of the call, in path order
+  async exportAttachments(): Promise<AttachmentResponseDto[]> {
+    return (await this.allAttachments()).sort((a, b) =>
+      a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+    );
+  }
+
+  // Same shape as buildDirectoryTree, built from one point-in-time view of
+  // the registered paths; folders without registered files are not listed
+  async buildCachedDirectoryTree(): Promise<Node> {
+    const root: Node = {
+      name: path.basename(this.uploadsRoot),
+      path: this.uploadsRoot,
+      type: 'folder',
+      children: [],
+    };
+    const folders = new Map<string, Node>([[this.uploadsRoot, root]]);
+
+    const folderNode = (dirPath: string): Node => {
+      let folder = folders.get(dirPath);
+      if (!folder) {
+        folder = { name: path.basename(dirPath), path: dirPath, type: 'folder', children: [] };
+        folders.set(dirPath, folder);
+        folderNode(path.dirname(dirPath)).children.push(folder);
+      }
+      return folder;
+    };
+
+    for (const { path: key } of await this.allAttachments()) {
+      const full = path.resolve(process.cwd(), key);
+      if (!full.startsWith(this.uploadsRoot + path.sep)) continue;
+      folderNode(path.dirname(full)).children.push({
+        name: path.basename(full),
+        path: full,
+        type: 'file',
+      });
+    }
+
+    folders.forEach(folder => folder.children.sort(compareNodes));
+    return root;
+  }
+
   async buildDirectoryTree(): Promise<Node> {
     const root: Node = {
       name: path.basename(this.uploadsRoot),
@@ -133,24 +317,189 @@ export class AttachmentsService implements OnModuleInit {
           nodes.push({ name: e.name, path: full, type: 'file' });
         }
       }
-      return nodes.sort((a, b) =>
-        a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1,
-      );
+      return nodes.sort(compareNodes);
     };
 
     root.children = await walk(this.uploadsRoot);
     return root;
   }
 
+  // A snapshot of the cache while it holds every attachment, otherwise one
+  // query, so either way the result is a single consistent view
+  private async allAttachments(): Promise<AttachmentResponseDto[]> {
+    if (this.holdsEverything()) {
+      return [...this.attachmentVersions.snapshot().values()];
+    }
+    const recs = await this.attachmentsRepository.findAllActive();
+    return recs.map(r => this.domainToResponse(this.entityToDomain(r)));
+  }
+
+  // Everything under prefix from the sorted index while the cache holds every
+  // attachment, otherwise from the database
+  private async listBelow(prefix: string): Promise<AttachmentResponseDto[]> {
+    if (this.holdsEverything()) {
+      return [...this.attachmentPaths.entriesWithPrefix(prefix)].map(([, resp]) => resp);
+    }
+    const recs = await this.attachmentsRepository.findByPathPrefix(prefix);
+    return recs.map(r => {
+      const resp = this.domainToResponse(this.entityToDomain(r));
+      this.cacheAttachment(resp);
+      return resp;
+    });
+  }
+
+  // Expired entries stay in the map until touched, and reads drop them
+  // without clearing cacheComplete; purging them first clears it if there
+  // were any, and keeps them out of whatever is read next
+  private holdsEverything(): boolean {
+    this.hashmap.purgeExpired();
+    return this.cacheComplete;
+  }
+
+  private sanitizeFolderPath(folderPath?: string | null): string {
+    return folderPath
+      ? folderPath
+          .replace(/[^a-zA-Z0-9\-_\/]/g, '')
+          .replace(/\/+/g, '/')
+          .replace(/^\/|\/$/g, '')
+      : '';
+  }
+
+  private cacheAttachment(resp: AttachmentResponseDto): void {
+    this.knownPaths.add(resp.path);
+    this.attachmentCache.set(resp.path, resp);
+  }
+
+  // Peers are told the changed paths along with the product and folder
+  // listings they belong to, after the local cache is up to date. A failed
+  // broadcast only leaves peers stale until their entries expire, so it is
+  // logged rather than failing a write that already committed.
+  private announce(attachments: AttachmentResponseDto[]): void {
+    if (!this.invalidator) return;
+    const keys = new Set<string>();
+    for (const attachment of attachments) {
+      keys.add(attachment.path);
+      keys.add(FOLDER_KEY_PREFIX + this.folderOf(attachment.path));
+      if (attachment.productId) keys.add(PRODUCT_KEY_PREFIX + attachment.productId);
+    }
+    for (const key of keys) {
+      this.invalidator.publish(key).catch(error => {
+        logger.warn(`Failed to broadcast invalidation of ${key}: ${String(error)}`);
+      });
+    }
+  }
+
+  // The peer's map entry is already gone; a cached miss must go too, and the
+  // path has to pass the filter in case it was registered over there.
+  // Cached misses survive a peer clear until their negative TTL runs out.
+  // Folder listings are only answered from the cache while it is complete,
+  // which no change made elsewhere leaves it.
+  private applyPeerInvalidation(key: string | undefined): void {
+    this.cacheComplete = false;
+    if (key === undefined || key.startsWith(FOLDER_KEY_PREFIX)) return;
+    if (key.startsWith(PRODUCT_KEY_PREFIX)) {
+      this.completeProducts.delete(key.slice(PRODUCT_KEY_PREFIX.length));
+      return;
+    }
+    this.attachmentCache.invalidate(key);
+    this.knownPaths.add(key);
+  }
+
+  private trackCompleteness(event: HashmapEvent<string, AttachmentHashValue>): void {
+    if (event.type === 'clear') {
+      this.completeProducts.clear();
+      this.cacheComplete = false;
+    } else if (event.type === 'delete' || event.type === 'evict' || event.type === 'expire') {
+      this.cacheComplete = false;
+      const productId = event.oldValue?.productId;
+      if (productId) this.completeProducts.delete(productId);
+    }
+  }
+
+  // Cache keys are relative to the working directory, like registered paths
+  private folderPrefix(folder: string): string {
+    return path.relative(process.cwd(), path.join(this.uploadsRoot, folder)) + path.sep;
+  }
+
+  // Folder relative to the uploads root, '' for files stored directly in it
+  private folderOf(filePath: string): string {
+    return path.relative(this.uploadsRoot, path.dirname(path.resolve(process.cwd(), filePath)));
+  }
+
   async registerFileToFolder(file: any, productId?: string | null, folderPath?: string | null): Promise<AttachmentResponseDto> {
+    const resp = await this.saveToFolder(this.attachmentsRepository, file, productId, folderPath);
+    this.cacheAttachment(resp);
+    this.announce([resp]);
+    return resp;
+  }
+
+  // Saves every file in one database transaction. Cache entries are staged and
+  // only written once the transaction commits, so a failed upload leaves no
+  // entries behind for rows that were rolled back. Files already moved into
+  // the uploads folder are deleted again in that case.
+  async registerFilesToFolders(
+    files: any[],
+    productId?: string | null,
+    folderPaths: (string | null)[] = [],
+  ): Promise<AttachmentResponseDto[]> {
+    const batch = this.attachmentCache.batch();
+    const movedFiles: string[] = [];
+    try {
+      const results = await this.attachmentsRepository.transaction(async repository => {
+        const saved: AttachmentResponseDto[] = [];
+        for (let i = 0; i < files.length; i++) {
+          const resp = await this.saveToFolder(
+            repository,
+            files[i],
+            productId,
+            folderPaths[i] ?? null,
+            movedFiles,
+          );
+          // Known before the commit so a lookup racing it is not turned away;
+          // paths of rolled back rows only cost a database query later
+          this.knownPaths.add(resp.path);
+          batch.set(resp.path, resp);
+          saved.push(resp);
+        }
+        return saved;
+      });
+      batch.commit();
+      this.announce(results);
+      return results;
+    } catch (error) {
+      if (batch.state === 'pending') {
+        batch.rollback();
+        await this.removeFiles(movedFiles);
+      }
+      throw error;
+    }
+  }
+
+  // Best effort: a file that cannot be removed is logged and left behind
+  private async removeFiles(filePaths: string[]): Promise<void> {
+    await Promise.all(
+      filePaths.map(filePath =>
+        fs.promises.unlink(filePath).catch(error => {
+          logger.warn(`Failed to remove ${filePath}: ${String(error)}`);
+        }),
+      ),
+    );
+  }
+
+  private async saveToFolder(
+    repository: AttachmentsRepository,
+    file: any,
+    productId?: string | null,
+    folderPath?: string | null,
+    movedFiles?: string[],
+  ): Promise<AttachmentResponseDto> {
     // Sanitize folder path
-    const sanitizedFolderPath = folderPath ? 
-      folderPath.replace(/[^a-zA-Z0-9\-_\/]/g, '').replace(/\/+/g, '/').replace(/^\/|\/$/g, '') : '';
-    
+    const sanitizedFolderPath = this.sanitizeFolderPath(folderPath);
+
     // Create target directory path
-    const targetDir = sanitizedFolderPath ? 
-      path.join(this.uploadsRoot, sanitizedFolderPath) : 
-      this.uploadsRoot;
+    const targetDir = sanitizedFolderPath
+      ? path.join(this.uploadsRoot, sanitizedFolderPath)
+      : this.uploadsRoot;
 
     // Ensure target directory exists
     try {
@@ -164,10 +513,10 @@ export class AttachmentsService implements OnModuleInit {
     const unique = Date.now() + '-' + Math.round(Math.random() * 1e9);
     const ext = path.extname(file.originalname);
     const newFileName = `${unique}${ext}`;
-    
+
     // Create new file path
     const newFilePath = path.join(targetDir, newFileName);
-    
+
     // Move file to target directory
     try {
       await fs.promises.rename(file.path, newFilePath);
@@ -181,12 +530,13 @@ export class AttachmentsService implements OnModuleInit {
         throw new Error('Failed to move file to target directory');
       }
     }
+    movedFiles?.push(newFilePath);
 
     // Create relative path for database
     const relPath = path.relative(process.cwd(), newFilePath);
-    
+
     // Save to database
-    const saved = await this.attachmentsRepository.create({
+    const saved = await repository.create({
       productId: productId ?? null,
       filename: newFileName,
       originalName: file.originalname,
@@ -194,10 +544,8 @@ export class AttachmentsService implements OnModuleInit {
       size: file.size,
       path: relPath,
     } as Partial<Attachment>);
-    
+
     const d = this.entityToDomain(saved);
-    const resp = this.domainToResponse(d);
-    this.hashmap.set(resp.path, resp);
-    return resp;
+    return this.domainToResponse(d);
   }
 }
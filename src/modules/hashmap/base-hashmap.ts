@@ -0,0 +1,712 @@
+import {
+  Hashmap,
+  HashmapOptions,
+  HashmapStats,
+  HashmapNode,
+  HashFunction,
+  HashAlgorithm,
+  EqualsFunction,
+  SetOptions,
+  EvictionPolicy,
+  EvictionListener,
+  HashmapEvent,
+  HashmapEventType,
+  HashmapListener,
+  SizeEstimator,
+  SnapshotEntry,
+  SnapshotOptions,
+  HASHMAP_CONSTANTS,
+} from './types';
+import { HashUtils } from './hash-utils';
+import { ExpiryQueue } from './expiry-queue';
+import { createEvictionPolicy } from './eviction-policies';
+import { ConcurrentModificationError } from './errors';
+import { HashmapBatch } from './hashmap-batch';
+import { defaultSizeEstimator } from './size-estimator';
+import {
+  parseSnapshot,
+  readSnapshotFile,
+  serializeSnapshot,
+  writeSnapshotFile,
+} from './hashmap-snapshot';
+
+// Everything that does not depend on how nodes are laid out in the table:
+// insertion order, expiry, eviction, byte accounting and snapshots. Subclasses
+// only decide where a node with a given hash lives.
+export abstract class BaseHashmap<K, V> implements Hashmap<K, V> {
+  protected _size = 0;
+  private head: HashmapNode<K, V> | null = null;
+  private tail: HashmapNode<K, V> | null = null;
+  private modCount = 0;
+  // Removals of expired entries, which are counted in modCount as well but
+  // leave open iterators valid
+  private expiredCount = 0;
+  protected readonly initialCapacity: number;
+  protected readonly loadFactor: number;
+  private readonly minLoadFactor: number;
+  private readonly hashFunction?: HashFunction<K>;
+  private readonly hashAlgorithm: HashAlgorithm;
+  protected readonly equalsFunction: EqualsFunction<K>;
+  private readonly defaultTtl?: number;
+  private readonly expiryQueue = new ExpiryQueue<K, V>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private readonly maxEntries?: number;
+  private readonly maxBytes?: number;
+  private readonly sizeEstimator: SizeEstimator<K, V>;
+  private readonly evictionPolicy: EvictionPolicy<K, V> | null = null;
+  private readonly onEvict?: EvictionListener<K, V>;
+  private _totalBytes = 0;
+  private resizeCount = 0;
+  private hits = 0;
+  private misses = 0;
+  private listeners: Array<HashmapListener<K, V>> = [];
+
+  constructor(options?: HashmapOptions<K, V>) {
+    this.initialCapacity = Math.max(
+      HASHMAP_CONSTANTS.MIN_CAPACITY,
+      options?.initialCapacity ?? HASHMAP_CONSTANTS.DEFAULT_CAPACITY,
+    );
+    this.loadFactor = options?.loadFactor ?? HASHMAP_CONSTANTS.DEFAULT_LOAD_FACTOR;
+    this.minLoadFactor =
+      options?.minLoadFactor ??
+      Math.min(HASHMAP_CONSTANTS.DEFAULT_MIN_LOAD_FACTOR, this.loadFactor / 4);
+
+    if (
+      this.minLoadFactor < 0 ||
+      this.minLoadFactor >= this.loadFactor / HASHMAP_CONSTANTS.RESIZE_MULTIPLIER
+    ) {
+      throw new Error('minLoadFactor must be non-negative and below half of loadFactor');
+    }
+    this.hashAlgorithm = options?.hashAlgorithm ?? 'siphash';
+    if (options?.keyEquality === 'structural') {
+      this.hashFunction =
+        options.hashFunction ?? (key => HashUtils.structuralHash(key, this.hashAlgorithm));
+      this.equalsFunction = options.equalsFunction ?? ((a, b) => HashUtils.deepEquals(a, b));
+    } else {
+      this.hashFunction = options?.hashFunction;
+      this.equalsFunction = options?.equalsFunction ?? ((a, b) => HashUtils.sameValueZero(a, b));
+    }
+
+    if (options?.defaultTtl !== undefined) {
+      this.validateTtl(options.defaultTtl);
+      this.defaultTtl = options.defaultTtl;
+    }
+
+    if (options?.maxEntries !== undefined) {
+      if (!Number.isInteger(options.maxEntries) || options.maxEntries <= 0) {
+        throw new Error('maxEntries must be a positive integer');
+      }
+      this.maxEntries = options.maxEntries;
+    }
+
+    if (options?.maxBytes !== undefined) {
+      if (Number.isNaN(options.maxBytes) || options.maxBytes <= 0) {
+        throw new Error('maxBytes must be a positive number');
+      }
+      this.maxBytes = options.maxBytes;
+    }
+
+    this.sizeEstimator = options?.sizeEstimator ?? defaultSizeEstimator;
+    this.onEvict = options?.onEvict;
+
+    if (this.maxEntries !== undefined || this.maxBytes !== undefined) {
+      this.evictionPolicy = createEvictionPolicy(options?.evictionPolicy);
+    }
+
+    if (options?.sweepInterval) {
+      this.startSweeper(options.sweepInterval);
+    }
+  }
+
+  abstract get capacity(): number;
+
+  protected abstract lookupNode(hash: number, key: K): HashmapNode<K, V> | null;
+
+  // Called once the node is counted and linked into insertion order
+  protected abstract insertNode(node: HashmapNode<K, V>): void;
+
+  protected abstract removeNode(hash: number, key: K): HashmapNode<K, V> | null;
+
+  protected abstract resizeTable(newCapacity: number): void;
+
+  // Yields the number of entries in each bucket, including empty ones
+  protected abstract bucketLengths(): Iterable<number>;
+
+  protected abstract resetTable(): void;
+
+  // Hook for bounded table maintenance that runs before every keyed operation
+  protected beforeOperation(): void {
+    return;
+  }
+
+  get size(): number {
+    this.purgeExpired();
+    return this._size;
+  }
+
+  get totalBytes(): number {
+    this.purgeExpired();
+    return this._totalBytes;
+  }
+
+  set(key: K, value: V, options?: SetOptions): void {
+    this.validateKey(key);
+    const expiresAt = this.computeExpiresAt(options?.ttl);
+    this.beforeOperation();
+
+    const hash = this.hashOf(key);
+    this.store(hash, key, this.lookupNode(hash, key), value, expiresAt);
+  }
+
+  get(key: K): V | undefined {
+    return this.readNode(key)?.value;
+  }
+
+  getOrDefault(key: K, defaultValue: V): V {
+    const node = this.readNode(key);
+    return node ? node.value : defaultValue;
+  }
+
+  has(key: K): boolean {
+    return this.findNode(key) !== null;
+  }
+
+  delete(key: K): boolean {
+    return this.removeKey(key, 'delete') !== null;
+  }
+
+  // The compute family looks the key up once and reuses the node for the write;
+  // only removals search the bucket again.
+  putIfAbsent(key: K, value: V): V | undefined {
+    const hash = this.hashForWrite(key);
+    const node = this.findNode(key, hash);
+
+    if (node && node.value !== undefined) {
+      this.evictionPolicy?.recordAccess(node);
+      return node.value;
+    }
+
+    this.store(hash, key, node, value, this.computeExpiresAt());
+    return undefined;
+  }
+
+  replace(key: K, expected: V, next: V): boolean {
+    const hash = this.hashForWrite(key);
+    const node = this.findNode(key, hash);
+
+    if (!node || !HashUtils.sameValueZero(node.value, expected)) {
+      return false;
+    }
+
+    this.store(hash, key, node, next, this.computeExpiresAt());
+    return true;
+  }
+
+  compute(key: K, remapping: (key: K, value: V | undefined) => V | undefined): V | undefined {
+    const hash = this.hashForWrite(key);
+    const node = this.findNode(key, hash);
+    const value = this.callRemapping(() => remapping(key, node?.value));
+
+    return this.storeRemapped(hash, key, node, value);
+  }
+
+  computeIfAbsent(key: K, mapping: (key: K) => V | undefined): V | undefined {
+    const hash = this.hashForWrite(key);
+    const node = this.findNode(key, hash);
+
+    if (node && node.value !== undefined) {
+      this.evictionPolicy?.recordAccess(node);
+      return node.value;
+    }
+
+    // An undefined result records nothing, not even removing a key mapped to undefined
+    const value = this.callRemapping(() => mapping(key));
+    if (value !== undefined) {
+      this.store(hash, key, node, value, this.computeExpiresAt());
+    }
+    return value;
+  }
+
+  computeIfPresent(key: K, remapping: (key: K, value: V) => V | undefined): V | undefined {
+    const hash = this.hashForWrite(key);
+    const node = this.findNode(key, hash);
+
+    if (!node || node.value === undefined) {
+      return undefined;
+    }
+
+    const value = this.callRemapping(() => remapping(key, node.value));
+    return this.storeRemapped(hash, key, node, value);
+  }
+
+  merge(key: K, value: V, remapping: (oldValue: V, value: V) => V | undefined): V | undefined {
+    if (value === undefined) {
+      throw new Error('Merge value cannot be undefined');
+    }
+    const hash = this.hashForWrite(key);
+    const node = this.findNode(key, hash);
+
+    const merged =
+      node && node.value !== undefined
+        ? this.callRemapping(() => remapping(node.value, value))
+        : value;
+    return this.storeRemapped(hash, key, node, merged);
+  }
+
+  // Stages sets and deletes that are applied together on commit() or dropped on rollback()
+  batch(): HashmapBatch<K, V> {
+    return new HashmapBatch(this);
+  }
+
+  clear(): void {
+    this.resetTable();
+    this.expiryQueue.clear();
+    this.evictionPolicy?.clear();
+    this.head = null;
+    this.tail = null;
+    this._size = 0;
+    this._totalBytes = 0;
+    this.modCount++;
+    this.emit({ type: 'clear' });
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  keys(): IterableIterator<K> {
+    return this.iterateNodes(node => node.key);
+  }
+
+  values(): IterableIterator<V> {
+    return this.iterateNodes(node => node.value);
+  }
+
+  entries(): IterableIterator<[K, V]> {
+    return this.iterateNodes<[K, V]>(node => [node.key, node.value]);
+  }
+
+  forEach(callback: (value: V, key: K) => void): void {
+    for (const [key, value] of this.entries()) {
+      callback(value, key);
+    }
+  }
+
+  getRemainingTtl(key: K): number | undefined {
+    const node = this.findNode(key);
+    if (!node) {
+      return undefined;
+    }
+
+    return node.expiresAt === undefined ? Infinity : node.expiresAt - Date.now();
+  }
+
+  purgeExpired(): number {
+    const now = Date.now();
+    let purged = 0;
+
+    for (let node = this.expiryQueue.peek(); node; node = this.expiryQueue.peek()) {
+      if (node.expiresAt > now) {
+        break;
+      }
+      this.removeKey(node.key, 'expire');
+      purged++;
+    }
+
+    return purged;
+  }
+
+  startSweeper(interval: number): void {
+    if (!Number.isFinite(interval) || interval <= 0) {
+      throw new Error('Sweep interval must be a positive number');
+    }
+
+    this.stopSweeper();
+    this.sweepTimer = setInterval(() => this.purgeExpired(), interval);
+    this.sweepTimer.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  async saveSnapshot(filePath: string, options?: SnapshotOptions<K, V>): Promise<void> {
+    const content = serializeSnapshot(
+      this.iterateNodes<SnapshotEntry<K, V>>(node => ({
+        key: node.key,
+        value: node.value,
+        expiresAt: node.expiresAt,
+      })),
+      options?.keyCodec,
+      options?.valueCodec,
+    );
+
+    await writeSnapshotFile(filePath, content);
+  }
+
+  async loadSnapshot(filePath: string, options?: SnapshotOptions<K, V>): Promise<number> {
+    const entries = parseSnapshot(
+      await readSnapshotFile(filePath),
+      options?.keyCodec,
+      options?.valueCodec,
+    );
+
+    this.clear();
+    const now = Date.now();
+
+    for (const entry of entries) {
+      if (entry.expiresAt === undefined) {
+        this.set(entry.key, entry.value, { ttl: Infinity });
+      } else if (entry.expiresAt > now) {
+        this.set(entry.key, entry.value, { ttl: entry.expiresAt - now });
+      }
+    }
+
+    return this._size;
+  }
+
+  trimToSize(): void {
+    const requiredCapacity = Math.ceil(this._size / this.loadFactor);
+    const targetCapacity = Math.max(HASHMAP_CONSTANTS.MIN_CAPACITY, requiredCapacity);
+
+    if (targetCapacity !== this.capacity) {
+      this.resize(targetCapacity);
+    }
+  }
+
+  compact(): void {
+    this.purgeExpired();
+    this.trimToSize();
+  }
+
+  subscribe(listener: HashmapListener<K, V>): () => void {
+    this.listeners = [...this.listeners, listener];
+    return () => {
+      this.listeners = this.listeners.filter(current => current !== listener);
+    };
+  }
+
+  // Walks every bucket, so this is meant for diagnostics rather than hot paths.
+  // Hits and misses count get() and getOrDefault() calls only.
+  stats(): HashmapStats {
+    this.purgeExpired();
+    const bucketOccupancy: Record<number, number> = {};
+    let longestChain = 0;
+
+    for (const length of this.bucketLengths()) {
+      bucketOccupancy[length] = (bucketOccupancy[length] ?? 0) + 1;
+      longestChain = Math.max(longestChain, length);
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      size: this._size,
+      capacity: this.capacity,
+      loadFactor: this._size / this.capacity,
+      maxLoadFactor: this.loadFactor,
+      bucketOccupancy,
+      longestChain,
+      resizeCount: this.resizeCount,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      bytes: this._totalBytes,
+      maxBytes: this.maxBytes ?? null,
+    };
+  }
+
+  protected resize(newCapacity: number): void {
+    this.resizeCount++;
+    this.resizeTable(newCapacity);
+  }
+
+  protected resizeIfNeeded(): void {
+    if (this._size / this.capacity > this.loadFactor) {
+      this.resize(this.capacity * HASHMAP_CONSTANTS.RESIZE_MULTIPLIER);
+    }
+  }
+
+  protected shrinkIfNeeded(): void {
+    if (
+      this.minLoadFactor > 0 &&
+      this.capacity > this.initialCapacity &&
+      this._size / this.capacity < this.minLoadFactor
+    ) {
+      this.resize(
+        Math.max(this.initialCapacity, this.capacity / HASHMAP_CONSTANTS.RESIZE_MULTIPLIER),
+      );
+    }
+  }
+
+  private validateKey(key: K): void {
+    if (key === undefined) {
+      throw new Error('Key cannot be undefined');
+    }
+  }
+
+  private validateTtl(ttl: number): void {
+    if (typeof ttl !== 'number' || Number.isNaN(ttl) || ttl <= 0) {
+      throw new Error('TTL must be a positive number');
+    }
+  }
+
+  private computeExpiresAt(ttl?: number): number | undefined {
+    if (ttl !== undefined) {
+      this.validateTtl(ttl);
+    }
+
+    const effectiveTtl = ttl ?? this.defaultTtl;
+    if (effectiveTtl === undefined || effectiveTtl === Infinity) {
+      return undefined;
+    }
+
+    return Date.now() + effectiveTtl;
+  }
+
+  private scheduleExpiry(node: HashmapNode<K, V>, expiresAt: number | undefined): void {
+    node.expiresAt = expiresAt;
+
+    if (expiresAt === undefined) {
+      this.expiryQueue.remove(node);
+    } else {
+      this.expiryQueue.update(node);
+    }
+  }
+
+  private setWeight(node: HashmapNode<K, V>, weight: number): void {
+    this._totalBytes += weight - (node.weight ?? 0);
+    node.weight = weight;
+  }
+
+  private isOverLimit(): boolean {
+    return (
+      (this.maxEntries !== undefined && this._size > this.maxEntries) ||
+      (this.maxBytes !== undefined && this._totalBytes > this.maxBytes)
+    );
+  }
+
+  private enforceLimits(protectedNode: HashmapNode<K, V>): void {
+    if (!this.evictionPolicy || !this.isOverLimit()) {
+      return;
+    }
+
+    this.purgeExpired();
+
+    while (this.isOverLimit()) {
+      const victim = this.evictionPolicy.selectVictim(protectedNode);
+      if (!victim) {
+        return;
+      }
+      this.evictNode(victim);
+    }
+  }
+
+  private evictNode(node: HashmapNode<K, V>): void {
+    this.removeKey(node.key, 'evict');
+    this.onEvict?.(node.key, node.value);
+  }
+
+  private isExpired(node: HashmapNode<K, V>): boolean {
+    return node.expiresAt !== undefined && node.expiresAt <= Date.now();
+  }
+
+  private hashOf(key: K): number {
+    return HashUtils.hash(key, this.hashFunction, this.hashAlgorithm);
+  }
+
+  private findNode(key: K, hash = this.hashOf(key)): HashmapNode<K, V> | null {
+    this.beforeOperation();
+    const node = this.lookupNode(hash, key);
+
+    if (node && this.isExpired(node)) {
+      this.removeKey(key, 'expire');
+      return null;
+    }
+
+    return node;
+  }
+
+  // Lookup that counts towards the hit rate and the eviction policy
+  private readNode(key: K): HashmapNode<K, V> | null {
+    const node = this.findNode(key);
+    if (node) {
+      this.hits++;
+      this.evictionPolicy?.recordAccess(node);
+    } else {
+      this.misses++;
+    }
+    return node;
+  }
+
+  private hashForWrite(key: K): number {
+    this.validateKey(key);
+    return this.hashOf(key);
+  }
+
+  // Writes value given the outcome of a lookup already done by the caller:
+  // updates node in place, or appends a new node when it is null.
+  private store(
+    hash: number,
+    key: K,
+    node: HashmapNode<K, V> | null,
+    value: V,
+    expiresAt: number | undefined,
+  ): void {
+    const weight = this.sizeEstimator(key, value);
+
+    // A value that can never fit is reported as evicted and replaces nothing
+    if (this.maxBytes !== undefined && weight > this.maxBytes) {
+      if (node) {
+        this.removeKey(key, null);
+      }
+      this.emit({ type: 'evict', key, oldValue: value });
+      this.onEvict?.(key, value);
+      return;
+    }
+
+    if (node) {
+      const oldValue = node.value;
+      node.value = value;
+      this.setWeight(node, weight);
+      this.scheduleExpiry(node, expiresAt);
+      this.evictionPolicy?.recordAccess(node);
+      this.emit({ type: 'update', key, oldValue, newValue: value });
+      this.enforceLimits(node);
+      return;
+    }
+
+    const newNode = this.appendNode(hash, key, value);
+    this.setWeight(newNode, weight);
+    this.scheduleExpiry(newNode, expiresAt);
+    this.evictionPolicy?.recordInsert(newNode);
+    this.emit({ type: 'set', key, newValue: value });
+    this.enforceLimits(newNode);
+    this.resizeIfNeeded();
+  }
+
+  private storeRemapped(
+    hash: number,
+    key: K,
+    node: HashmapNode<K, V> | null,
+    value: V | undefined,
+  ): V | undefined {
+    if (value === undefined) {
+      if (node) {
+        this.removeKey(key, 'delete');
+      }
+      return undefined;
+    }
+
+    this.store(hash, key, node, value, this.computeExpiresAt());
+    return value;
+  }
+
+  // The node looked up before calling a remapping function is only valid if the
+  // function left the map structurally unchanged, as in Java's HashMap.
+  private callRemapping<T>(remapping: () => T): T {
+    const expectedModCount = this.modCount;
+    const result = remapping();
+
+    if (this.modCount !== expectedModCount) {
+      throw new ConcurrentModificationError('Hashmap was modified by a remapping function');
+    }
+    return result;
+  }
+
+  // Listeners are notified after the map is consistent again. Subscribing or
+  // unsubscribing replaces the array, so a listener may do either while notified.
+  private emit(event: HashmapEvent<K, V>): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private removeKey(
+    key: K,
+    eventType: Exclude<HashmapEventType, 'set' | 'update' | 'clear'> | null,
+  ): HashmapNode<K, V> | null {
+    this.beforeOperation();
+    const removedNode = this.removeNode(this.hashOf(key), key);
+
+    if (!removedNode) {
+      return null;
+    }
+    this.detachNode(removedNode);
+    this._size--;
+    this.modCount++;
+    if (eventType === 'expire') {
+      this.expiredCount++;
+    }
+    this.shrinkIfNeeded();
+
+    if (eventType) {
+      this.emit({ type: eventType, key, oldValue: removedNode.value });
+    }
+    return removedNode;
+  }
+
+  private appendNode(hash: number, key: K, value: V): HashmapNode<K, V> {
+    const newNode: HashmapNode<K, V> = {
+      key,
+      value,
+      hash,
+      next: null,
+      before: this.tail,
+      after: null,
+    };
+
+    if (this.tail) {
+      this.tail.after = newNode;
+    } else {
+      this.head = newNode;
+    }
+    this.tail = newNode;
+
+    this._size++;
+    this.modCount++;
+    this.insertNode(newNode);
+
+    return newNode;
+  }
+
+  private detachNode(node: HashmapNode<K, V>): void {
+    if (node.before) {
+      node.before.after = node.after;
+    } else {
+      this.head = node.after;
+    }
+    if (node.after) {
+      node.after.before = node.before;
+    } else {
+      this.tail = node.before;
+    }
+
+    this.expiryQueue.remove(node);
+    this.evictionPolicy?.recordRemoval(node);
+    this._totalBytes -= node.weight ?? 0;
+  }
+
+  // Iteration follows insertion order and fails fast if the map is structurally
+  // modified (insert, delete, clear) between steps. Expired entries are skipped
+  // rather than removed. Reads between steps may still remove expired entries;
+  // those removals don't count, since a removed node keeps its link to the next
+  // one and every node it can lead to is either live or expired and skipped.
+  private *iterateNodes<T>(project: (node: HashmapNode<K, V>) => T): IterableIterator<T> {
+    const expectedModCount = this.modCount - this.expiredCount;
+
+    for (let node = this.head; node; node = node.after) {
+      if (this.isExpired(node)) {
+        continue;
+      }
+
+      yield project(node);
+
+      if (this.modCount - this.expiredCount !== expectedModCount) {
+        throw new ConcurrentModificationError();
+      }
+    }
+  }
+}
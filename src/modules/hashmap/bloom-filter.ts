@@ -0,0 +1,200 @@
+import { randomBytes } from 'crypto';
+import { HashUtils } from './hash-utils';
+import { BloomFilterOptions, HASHMAP_CONSTANTS, SerializedBloomFilter } from './types';
+
+class BloomFilterSlice {
+  constructor(
+    readonly capacity: number,
+    readonly hashCount: number,
+    readonly bitCount: number,
+    readonly bits = new Uint8Array(Math.ceil(bitCount / 8)),
+    public count = 0,
+  ) {}
+
+  static forRate(capacity: number, falsePositiveRate: number): BloomFilterSlice {
+    const bitCount = Math.ceil((capacity * Math.log(1 / falsePositiveRate)) / Math.LN2 ** 2);
+    const hashCount = Math.max(1, Math.ceil(Math.log2(1 / falsePositiveRate)));
+    return new BloomFilterSlice(capacity, hashCount, bitCount);
+  }
+
+  get full(): boolean {
+    return this.count >= this.capacity;
+  }
+
+  add(h1: number, h2: number): void {
+    for (let i = 0; i < this.hashCount; i++) {
+      const bit = this.bitIndex(h1, h2, i);
+      this.bits[bit >>> 3] |= 1 << (bit & 7);
+    }
+    this.count++;
+  }
+
+  has(h1: number, h2: number): boolean {
+    for (let i = 0; i < this.hashCount; i++) {
+      const bit = this.bitIndex(h1, h2, i);
+      if ((this.bits[bit >>> 3] & (1 << (bit & 7))) === 0) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Double hashing: h1 + i * h2 stays well below 2^53 for any realistic
+  // hashCount. The step is made odd, since an even one revisits the same few
+  // bits whenever it shares a factor with an even bitCount, and h2 = 0 would
+  // set a single bit per key.
+  private bitIndex(h1: number, h2: number, i: number): number {
+    return (h1 + i * ((h2 | 1) >>> 0)) % this.bitCount;
+  }
+}
+
+// Scalable Bloom filter (Almeida et al.): once a slice holds the number of keys
+// it was sized for, a larger slice with a tighter error rate is added, so the
+// false-positive rate stays under the target however many keys arrive. Keys
+// can't be removed; rebuild() starts over from the keys that still exist.
+export class ScalableBloomFilter {
+  private slices: BloomFilterSlice[] = [];
+  private readonly expectedItems: number;
+  private readonly targetRate: number;
+  private readonly growthFactor: number;
+  private readonly tighteningRatio: number;
+  private readonly seed: [number, number];
+
+  constructor(options: BloomFilterOptions = {}) {
+    this.expectedItems = options.expectedItems ?? HASHMAP_CONSTANTS.DEFAULT_BLOOM_EXPECTED_ITEMS;
+    this.targetRate =
+      options.falsePositiveRate ?? HASHMAP_CONSTANTS.DEFAULT_BLOOM_FALSE_POSITIVE_RATE;
+    this.growthFactor = options.growthFactor ?? HASHMAP_CONSTANTS.BLOOM_GROWTH_FACTOR;
+    this.tighteningRatio = options.tighteningRatio ?? HASHMAP_CONSTANTS.BLOOM_TIGHTENING_RATIO;
+    this.seed = options.seed ?? ScalableBloomFilter.randomSeed();
+
+    if (!Number.isInteger(this.expectedItems) || this.expectedItems < 1) {
+      throw new Error('expectedItems must be a positive integer');
+    }
+    if (!(this.targetRate > 0 && this.targetRate < 1)) {
+      throw new Error('falsePositiveRate must be between 0 and 1');
+    }
+    if (!(this.growthFactor >= 1)) {
+      throw new Error('growthFactor must be at least 1');
+    }
+    if (!(this.tighteningRatio > 0 && this.tighteningRatio < 1)) {
+      throw new Error('tighteningRatio must be between 0 and 1');
+    }
+  }
+
+  // Keys added so far, not counting ones the filter already reported as present
+  get size(): number {
+    return this.slices.reduce((total, slice) => total + slice.count, 0);
+  }
+
+  get falsePositiveRate(): number {
+    return this.targetRate;
+  }
+
+  get sliceCount(): number {
+    return this.slices.length;
+  }
+
+  add(key: string): void {
+    const [h1, h2] = this.hashesOf(key);
+    if (this.slices.some(slice => slice.has(h1, h2))) {
+      return;
+    }
+
+    let current = this.slices[this.slices.length - 1];
+    if (!current || current.full) {
+      current = this.addSlice();
+    }
+    current.add(h1, h2);
+  }
+
+  // false means the key was definitely never added; true means it probably was
+  mightContain(key: string): boolean {
+    const [h1, h2] = this.hashesOf(key);
+    return this.slices.some(slice => slice.has(h1, h2));
+  }
+
+  clear(): void {
+    this.slices = [];
+  }
+
+  // Replaces the contents with keys, dropping keys that were removed since
+  rebuild(keys: Iterable<string>): void {
+    this.clear();
+    for (const key of keys) {
+      this.add(key);
+    }
+  }
+
+  toJSON(): SerializedBloomFilter {
+    return {
+      format: HASHMAP_CONSTANTS.BLOOM_FORMAT,
+      version: HASHMAP_CONSTANTS.BLOOM_VERSION,
+      expectedItems: this.expectedItems,
+      falsePositiveRate: this.targetRate,
+      growthFactor: this.growthFactor,
+      tighteningRatio: this.tighteningRatio,
+      seed: [...this.seed],
+      slices: this.slices.map(slice => ({
+        capacity: slice.capacity,
+        hashCount: slice.hashCount,
+        bitCount: slice.bitCount,
+        count: slice.count,
+        bits: Buffer.from(slice.bits).toString('base64'),
+      })),
+    };
+  }
+
+  static fromJSON(data: SerializedBloomFilter): ScalableBloomFilter {
+    if (
+      data?.format !== HASHMAP_CONSTANTS.BLOOM_FORMAT ||
+      data.version !== HASHMAP_CONSTANTS.BLOOM_VERSION ||
+      !Array.isArray(data.slices)
+    ) {
+      throw new Error('Unsupported Bloom filter format');
+    }
+
+    const filter = new ScalableBloomFilter({
+      expectedItems: data.expectedItems,
+      falsePositiveRate: data.falsePositiveRate,
+      growthFactor: data.growthFactor,
+      tighteningRatio: data.tighteningRatio,
+      seed: data.seed,
+    });
+    filter.slices = data.slices.map(slice => {
+      const bits = new Uint8Array(Buffer.from(slice.bits, 'base64'));
+      if (bits.length !== Math.ceil(slice.bitCount / 8)) {
+        throw new Error('Bloom filter bit array does not match its size');
+      }
+      return new BloomFilterSlice(
+        slice.capacity,
+        slice.hashCount,
+        slice.bitCount,
+        bits,
+        slice.count,
+      );
+    });
+    return filter;
+  }
+
+  // Slice i is sized for expectedItems * growthFactor^i keys at an error rate
+  // of p0 * r^i; with p0 = P * (1 - r) the rates sum to at most the target P.
+  private addSlice(): BloomFilterSlice {
+    const i = this.slices.length;
+    const capacity = Math.ceil(this.expectedItems * this.growthFactor ** i);
+    const rate = this.targetRate * (1 - this.tighteningRatio) * this.tighteningRatio ** i;
+    const slice = BloomFilterSlice.forRate(capacity, rate);
+    this.slices.push(slice);
+    return slice;
+  }
+
+  private hashesOf(key: string): [number, number] {
+    const [k0, k1] = this.seed;
+    return [HashUtils.sipHash(key, k0, k1), HashUtils.sipHash(key, k1, k0)];
+  }
+
+  private static randomSeed(): [number, number] {
+    const bytes = randomBytes(8);
+    return [bytes.readUInt32LE(0), bytes.readUInt32LE(4)];
+  }
+}
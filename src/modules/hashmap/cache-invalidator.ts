@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { jsonCodec } from './hashmap-snapshot';
+import {
+  CacheInvalidatorOptions,
+  Hashmap,
+  InvalidationBus,
+  InvalidationListener,
+  InvalidationMessage,
+  SnapshotCodec,
+} from './types';
+
+// Keeps copies of one cache in several processes consistent. Writers call
+// invalidate() or publish() after changing the source of truth; every other
+// process subscribed to the same bus and channel drops the key from its own
+// map. Local change events are deliberately not broadcast: read-through fills
+// would otherwise evict each other back and forth between peers.
+export class CacheInvalidator<K, V> {
+  // Identifies this instance so its own messages are not applied twice
+  readonly id = randomUUID();
+  private readonly channel: string;
+  private readonly keyCodec: SnapshotCodec<K>;
+  private readonly unsubscribe: () => void;
+  private listeners: Array<InvalidationListener<K>> = [];
+
+  constructor(
+    private readonly hashmap: Hashmap<K, V>,
+    private readonly bus: InvalidationBus,
+    options: CacheInvalidatorOptions<K> = {},
+  ) {
+    this.channel = options.channel ?? 'default';
+    this.keyCodec = options.keyCodec ?? jsonCodec<K>();
+    this.unsubscribe = bus.subscribe(message => this.receive(message));
+  }
+
+  // Tells peers the key changed without touching the local entry, e.g. right
+  // after caching the new value
+  publish(key: K): Promise<void> {
+    return this.send({ type: 'invalidate', key: this.keyCodec.encode(key) });
+  }
+
+  async invalidate(key: K): Promise<void> {
+    this.hashmap.delete(key);
+    await this.publish(key);
+  }
+
+  async invalidateAll(): Promise<void> {
+    this.hashmap.clear();
+    await this.send({ type: 'clear' });
+  }
+
+  // Runs after a peer's invalidation has been applied to the local map
+  onInvalidate(listener: InvalidationListener<K>): () => void {
+    this.listeners = [...this.listeners, listener];
+    return () => {
+      this.listeners = this.listeners.filter(current => current !== listener);
+    };
+  }
+
+  // Stops applying peer invalidations; the bus itself stays open
+  close(): void {
+    this.unsubscribe();
+    this.listeners = [];
+  }
+
+  private send(message: Pick<InvalidationMessage, 'type' | 'key'>): Promise<void> {
+    return this.bus.publish({ origin: this.id, channel: this.channel, ...message });
+  }
+
+  private receive(message: InvalidationMessage): void {
+    if (message.origin === this.id || message.channel !== this.channel) {
+      return;
+    }
+
+    let key: K | undefined;
+    if (message.type === 'clear') {
+      this.hashmap.clear();
+    } else if (message.key !== undefined) {
+      key = this.keyCodec.decode(message.key);
+      this.hashmap.delete(key);
+    } else {
+      return;
+    }
+    for (const listener of this.listeners) {
+      listener(key);
+    }
+  }
+}
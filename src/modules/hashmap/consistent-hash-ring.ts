@@ -0,0 +1,115 @@
+import { HashUtils } from './hash-utils';
+import { HashRingOptions, HASHMAP_CONSTANTS } from './types';
+
+const RING_SIZE = 2 ** 32;
+
+// Consistent-hash ring with virtual nodes. Each node is placed at
+// virtualNodes * weight points and a key belongs to the first point at or
+// after its own hash, wrapping around. Adding or removing a node only moves
+// the keys between its points and their neighbours. Placement uses a fixed
+// HalfSipHash key rather than the per-process seed, so separate processes
+// route keys the same way.
+export class ConsistentHashRing {
+  private positions: number[] = [];
+  private owners: string[] = [];
+  private readonly weights = new Map<string, number>();
+  private readonly virtualNodes: number;
+  private readonly seed: [number, number];
+
+  constructor(options: HashRingOptions = {}) {
+    this.virtualNodes = options.virtualNodes ?? HASHMAP_CONSTANTS.DEFAULT_VIRTUAL_NODES;
+    this.seed = options.seed ?? [HASHMAP_CONSTANTS.RING_SEED_K0, HASHMAP_CONSTANTS.RING_SEED_K1];
+
+    if (!Number.isInteger(this.virtualNodes) || this.virtualNodes < 1) {
+      throw new Error('virtualNodes must be a positive integer');
+    }
+  }
+
+  get size(): number {
+    return this.weights.size;
+  }
+
+  get nodes(): string[] {
+    return [...this.weights.keys()];
+  }
+
+  has(node: string): boolean {
+    return this.weights.has(node);
+  }
+
+  addNode(node: string, weight = 1): void {
+    if (!node) {
+      throw new Error('Ring node name cannot be empty');
+    }
+    if (this.weights.has(node)) {
+      throw new Error(`Duplicate ring node: ${node}`);
+    }
+    if (!Number.isInteger(weight) || weight < 1) {
+      throw new Error('Node weight must be a positive integer');
+    }
+
+    this.weights.set(node, weight);
+    this.rebuild();
+  }
+
+  removeNode(node: string): boolean {
+    if (!this.weights.delete(node)) {
+      return false;
+    }
+    this.rebuild();
+    return true;
+  }
+
+  locate(key: string): string {
+    if (this.positions.length === 0) {
+      throw new Error('Hash ring has no nodes');
+    }
+
+    const hash = this.hashOf(key);
+    let low = 0;
+    let high = this.positions.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.positions[mid] < hash) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return this.owners[low === this.positions.length ? 0 : low];
+  }
+
+  // Fraction of the hash space each node owns; values sum to 1
+  ownership(): Record<string, number> {
+    const shares: Record<string, number> = {};
+    for (const node of this.weights.keys()) {
+      shares[node] = 0;
+    }
+
+    const last = this.positions.length - 1;
+    this.positions.forEach((position, i) => {
+      const start = i === 0 ? this.positions[last] - RING_SIZE : this.positions[i - 1];
+      shares[this.owners[i]] += (position - start) / RING_SIZE;
+    });
+    return shares;
+  }
+
+  private rebuild(): void {
+    const points: Array<[number, string]> = [];
+    for (const [node, weight] of this.weights) {
+      for (let i = 0; i < this.virtualNodes * weight; i++) {
+        points.push([this.hashOf(`${node}#${i}`), node]);
+      }
+    }
+    // Ties on position are broken by name so the order never depends on
+    // the order nodes were added in
+    points.sort((a, b) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0));
+
+    this.positions = points.map(([position]) => position);
+    this.owners = points.map(([, node]) => node);
+  }
+
+  private hashOf(value: string): number {
+    return HashUtils.sipHash(value, this.seed[0], this.seed[1]);
+  }
+}
@@ -0,0 +1,99 @@
+import { CustomHashmap } from './custom-hashmap';
+import { HashCollectionOptions, SetLike } from './types';
+
+// Set semantics on top of CustomHashmap, so values are hashed and compared
+// exactly like hashmap keys (SameValueZero by default, or structural).
+export class CustomHashSet<T> implements Iterable<T> {
+  private readonly map: CustomHashmap<T, true>;
+
+  constructor(
+    values?: Iterable<T>,
+    private readonly options?: HashCollectionOptions<T>,
+  ) {
+    this.map = new CustomHashmap<T, true>(options);
+    for (const value of values ?? []) {
+      this.add(value);
+    }
+  }
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  add(value: T): this {
+    this.map.set(value, true);
+    return this;
+  }
+
+  has(value: T): boolean {
+    return this.map.has(value);
+  }
+
+  delete(value: T): boolean {
+    return this.map.delete(value);
+  }
+
+  clear(): void {
+    this.map.clear();
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.values();
+  }
+
+  values(): IterableIterator<T> {
+    return this.map.keys();
+  }
+
+  forEach(callback: (value: T) => void): void {
+    for (const value of this.values()) {
+      callback(value);
+    }
+  }
+
+  // The set operations return new sets with this set's options and leave both
+  // operands unchanged.
+  union(other: Iterable<T>): CustomHashSet<T> {
+    const result = new CustomHashSet<T>(this, this.options);
+    for (const value of other) {
+      result.add(value);
+    }
+    return result;
+  }
+
+  intersection(other: SetLike<T>): CustomHashSet<T> {
+    return this.filter(value => other.has(value));
+  }
+
+  difference(other: SetLike<T>): CustomHashSet<T> {
+    return this.filter(value => !other.has(value));
+  }
+
+  isSubsetOf(other: SetLike<T>): boolean {
+    for (const value of this) {
+      if (!other.has(value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  isSupersetOf(other: Iterable<T>): boolean {
+    for (const value of other) {
+      if (!this.has(value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private filter(predicate: (value: T) => boolean): CustomHashSet<T> {
+    const result = new CustomHashSet<T>(undefined, this.options);
+    for (const value of this) {
+      if (predicate(value)) {
+        result.add(value);
+      }
+    }
+    return result;
+  }
+}
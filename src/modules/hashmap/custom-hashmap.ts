@@ -1,110 +1,151 @@
-import {
-  HashmapOptions,
-  HashmapNode,
-  HashFunction,
-  EqualsFunction,
-  HASHMAP_CONSTANTS,
-} from './types';
-import { HashUtils } from './hash-utils';
-
-export class CustomHashmap<K, V> {
-  private buckets: Array<HashmapNode<K, V> | null>;
-  private _size = 0;
-  private capacity: number;
-  private readonly loadFactor: number;
-  private readonly hashFunction?: HashFunction<K>;
-  private readonly equalsFunction: EqualsFunction<K>;
-
-  constructor(options?: HashmapOptions<K>) {
-    this.capacity = Math.max(
-      HASHMAP_CONSTANTS.MIN_CAPACITY,
-      options?.initialCapacity ?? HASHMAP_CONSTANTS.DEFAULT_CAPACITY,
-    );
-    this.loadFactor = options?.loadFactor ?? HASHMAP_CONSTANTS.DEFAULT_LOAD_FACTOR;
-    this.hashFunction = options?.hashFunction;
-    this.equalsFunction = options?.equalsFunction ?? ((a, b) => a === b);
-
-    this.buckets = new Array(this.capacity).fill(null);
-  }
-
-  get size(): number {
-    return this._size;
-  }
-
-  set(key: K, value: V): void {
-    this.validateKey(key);
-
-    const bucketIndex = this.getBucketIndex(key);
-    const existingNode = this.findNodeInBucket(bucketIndex, key);
-
-    if (existingNode) {
-      existingNode.value = value;
-      return;
-    }
+import { HashmapOptions, HashmapNode, CompareFunction, HASHMAP_CONSTANTS } from './types';
+import { BaseHashmap } from './base-hashmap';
+import { TreeBin, defaultCompare } from './tree-bin';
+
+type Bucket<K, V> = HashmapNode<K, V> | TreeBin<K, V> | null;
+
+export class CustomHashmap<K, V> extends BaseHashmap<K, V> {
+  private buckets: Array<Bucket<K, V>>;
+  // While a resize is in progress the previous table stays here and is drained
+  // a few buckets per operation, starting at rehashIndex.
+  private oldBuckets: Array<Bucket<K, V>> | null = null;
+  private rehashIndex = 0;
+  private _capacity: number;
+  private readonly compareFunction: CompareFunction<K>;
+
+  constructor(options?: HashmapOptions<K, V>) {
+    super(options);
+
+    // The default ordering is only consistent with the default equality, so a
+    // custom equalsFunction without a comparator orders tree bins by hash alone.
+    this.compareFunction =
+      options?.compareFunction ?? (options?.equalsFunction ? () => 0 : defaultCompare);
+
+    this._capacity = this.initialCapacity;
+    this.buckets = new Array(this._capacity).fill(null);
+  }
 
-    this.insertNewNode(bucketIndex, key, value);
-    this.resizeIfNeeded();
+  get capacity(): number {
+    return this._capacity;
   }
 
-  get(key: K): V | undefined {
-    const node = this.findNode(key);
-    return node?.value;
+  get rehashing(): boolean {
+    return this.oldBuckets !== null;
   }
 
-  has(key: K): boolean {
-    return this.findNode(key) !== null;
+  protected beforeOperation(): void {
+    this.rehashStep();
   }
 
-  delete(key: K): boolean {
-    const bucketIndex = this.getBucketIndex(key);
-    return this.deleteFromBucket(bucketIndex, key);
+  protected resetTable(): void {
+    this._capacity = this.initialCapacity;
+    this.buckets = new Array(this._capacity).fill(null);
+    this.oldBuckets = null;
+    this.rehashIndex = 0;
   }
 
-  clear(): void {
-    this.buckets = new Array(this.capacity).fill(null);
-    this._size = 0;
+  protected resizeIfNeeded(): void {
+    if (!this.oldBuckets) {
+      super.resizeIfNeeded();
+    }
+  }
+
+  protected shrinkIfNeeded(): void {
+    if (!this.oldBuckets) {
+      super.shrinkIfNeeded();
+    }
   }
 
-  keys(): K[] {
-    const keys: K[] = [];
-    this.forEachNode(node => keys.push(node.key));
-    return keys;
+  // During a rehash a key may still sit in its not yet migrated old bucket, so
+  // both tables are consulted; new entries always go into the current table.
+  protected lookupNode(hash: number, key: K): HashmapNode<K, V> | null {
+    const oldNode =
+      this.oldBuckets &&
+      this.findNodeInBucket(this.oldBuckets, hash % this.oldBuckets.length, hash, key);
+
+    return oldNode ?? this.findNodeInBucket(this.buckets, this.indexFor(hash), hash, key);
   }
 
-  values(): V[] {
-    const values: V[] = [];
-    this.forEachNode(node => values.push(node.value));
-    return values;
+  protected insertNode(node: HashmapNode<K, V>): void {
+    const bucketIndex = this.indexFor(node.hash);
+    const chainLength = this.linkIntoBucket(bucketIndex, node);
+
+    if (chainLength >= HASHMAP_CONSTANTS.TREEIFY_THRESHOLD) {
+      // Like Java's HashMap, prefer spreading a small table over treeifying it
+      if (this._capacity < HASHMAP_CONSTANTS.MIN_TREEIFY_CAPACITY) {
+        this.resize(this._capacity * HASHMAP_CONSTANTS.RESIZE_MULTIPLIER);
+      } else {
+        this.treeifyBucket(bucketIndex);
+      }
+    }
   }
 
-  entries(): Array<[K, V]> {
-    const entries: Array<[K, V]> = [];
-    this.forEachNode(node => entries.push([node.key, node.value]));
-    return entries;
+  protected removeNode(hash: number, key: K): HashmapNode<K, V> | null {
+    const oldNode =
+      this.oldBuckets &&
+      this.deleteFromBucket(this.oldBuckets, hash % this.oldBuckets.length, hash, key);
+
+    return oldNode ?? this.deleteFromBucket(this.buckets, this.indexFor(hash), hash, key);
   }
 
-  forEach(callback: (value: V, key: K) => void): void {
-    this.forEachNode(node => callback(node.value, node.key));
+  // Only allocates the new table; nodes are moved over by later operations so
+  // no single call pays for rehashing the whole map.
+  protected resizeTable(newCapacity: number): void {
+    this.completeRehash();
+
+    this.oldBuckets = this._size > 0 ? this.buckets : null;
+    this.rehashIndex = 0;
+    this._capacity = Math.max(HASHMAP_CONSTANTS.MIN_CAPACITY, Math.floor(newCapacity));
+    this.buckets = new Array(this._capacity).fill(null);
   }
 
-  private validateKey(key: K): void {
-    if (key === undefined) {
-      throw new Error('Key cannot be undefined');
+  // Buckets of the current table only. While a rehash is in progress, entries
+  // not migrated yet are counted in the bucket they are about to move to.
+  protected *bucketLengths(): IterableIterator<number> {
+    const lengths = this.buckets.map(bucket => this.bucketLength(bucket));
+    for (const bucket of this.oldBuckets ?? []) {
+      if (bucket instanceof TreeBin) {
+        for (const node of bucket.nodes()) {
+          lengths[this.indexFor(node.hash)]++;
+        }
+      } else {
+        for (let node = bucket; node; node = node.next) {
+          lengths[this.indexFor(node.hash)]++;
+        }
+      }
     }
+    yield* lengths;
   }
 
-  private getBucketIndex(key: K): number {
-    return HashUtils.getBucketIndex(key, this.capacity, this.hashFunction);
+  private bucketLength(bucket: Bucket<K, V>): number {
+    if (bucket instanceof TreeBin) {
+      return bucket.size;
+    }
+
+    let length = 0;
+    for (let node = bucket; node; node = node.next) {
+      length++;
+    }
+    return length;
   }
 
-  private findNode(key: K): HashmapNode<K, V> | null {
-    const bucketIndex = this.getBucketIndex(key);
-    return this.findNodeInBucket(bucketIndex, key);
+  private indexFor(hash: number): number {
+    return hash % this._capacity;
   }
 
-  private findNodeInBucket(bucketIndex: number, key: K): HashmapNode<K, V> | null {
-    let currentNode = this.buckets[bucketIndex];
+  private findNodeInBucket(
+    table: Array<Bucket<K, V>>,
+    bucketIndex: number,
+    hash: number,
+    key: K,
+  ): HashmapNode<K, V> | null {
+    const bucket = table[bucketIndex];
+
+    if (bucket instanceof TreeBin) {
+      return bucket.find(hash, key);
+    }
 
+    let currentNode = bucket;
     while (currentNode) {
       if (this.equalsFunction(currentNode.key, key)) {
         return currentNode;
@@ -115,19 +156,75 @@ export class CustomHashmap<K, V> {
     return null;
   }
 
-  private insertNewNode(bucketIndex: number, key: K, value: V): void {
-    const newNode: HashmapNode<K, V> = {
-      key,
-      value,
-      next: this.buckets[bucketIndex],
-    };
+  // Returns the resulting chain length, or 0 when the bucket is already a tree.
+  // Counting stops at TREEIFY_THRESHOLD, since callers only compare against it.
+  private linkIntoBucket(bucketIndex: number, node: HashmapNode<K, V>): number {
+    const bucket = this.buckets[bucketIndex];
+
+    if (bucket instanceof TreeBin) {
+      bucket.insert(node);
+      return 0;
+    }
+
+    node.next = bucket;
+    this.buckets[bucketIndex] = node;
+
+    let chainLength = 0;
+    for (
+      let current: HashmapNode<K, V> | null = node;
+      current && chainLength < HASHMAP_CONSTANTS.TREEIFY_THRESHOLD;
+      current = current.next
+    ) {
+      chainLength++;
+    }
+    return chainLength;
+  }
+
+  private treeifyBucket(bucketIndex: number): void {
+    const bin = new TreeBin<K, V>(this.equalsFunction, this.compareFunction);
+    let currentNode = this.buckets[bucketIndex] as HashmapNode<K, V> | null;
+
+    while (currentNode) {
+      const nextNode = currentNode.next;
+      bin.insert(currentNode);
+      currentNode = nextNode;
+    }
+
+    this.buckets[bucketIndex] = bin;
+  }
+
+  private untreeifyBucket(
+    table: Array<Bucket<K, V>>,
+    bucketIndex: number,
+    bin: TreeBin<K, V>,
+  ): void {
+    let chain: HashmapNode<K, V> | null = null;
 
-    this.buckets[bucketIndex] = newNode;
-    this._size++;
+    for (const node of bin.nodes()) {
+      node.next = chain;
+      chain = node;
+    }
+
+    table[bucketIndex] = chain;
   }
 
-  private deleteFromBucket(bucketIndex: number, key: K): boolean {
-    let currentNode = this.buckets[bucketIndex];
+  private deleteFromBucket(
+    table: Array<Bucket<K, V>>,
+    bucketIndex: number,
+    hash: number,
+    key: K,
+  ): HashmapNode<K, V> | null {
+    const bucket = table[bucketIndex];
+
+    if (bucket instanceof TreeBin) {
+      const removedNode = bucket.remove(hash, key);
+      if (removedNode && bucket.size <= HASHMAP_CONSTANTS.UNTREEIFY_THRESHOLD) {
+        this.untreeifyBucket(table, bucketIndex, bucket);
+      }
+      return removedNode;
+    }
+
+    let currentNode = bucket;
     let previousNode: HashmapNode<K, V> | null = null;
 
     while (currentNode) {
@@ -135,59 +232,79 @@ export class CustomHashmap<K, V> {
         if (previousNode) {
           previousNode.next = currentNode.next;
         } else {
-          this.buckets[bucketIndex] = currentNode.next;
+          table[bucketIndex] = currentNode.next;
         }
-        this._size--;
-        return true;
+        return currentNode;
       }
 
       previousNode = currentNode;
       currentNode = currentNode.next;
     }
 
-    return false;
+    return null;
   }
 
-  private resizeIfNeeded(): void {
-    if (this._size / this.capacity > this.loadFactor) {
-      this.resize(this.capacity * HASHMAP_CONSTANTS.RESIZE_MULTIPLIER);
+  private rehashStep(): void {
+    const oldBuckets = this.oldBuckets;
+    if (!oldBuckets) {
+      return;
     }
-  }
 
-  private resize(newCapacity: number): void {
-    const oldBuckets = this.buckets;
-
-    this.capacity = Math.max(HASHMAP_CONSTANTS.MIN_CAPACITY, Math.floor(newCapacity));
-    this.buckets = new Array(this.capacity).fill(null);
-    this._size = 0;
+    let migrated = 0;
+    let emptyVisits = 0;
+
+    while (
+      this.rehashIndex < oldBuckets.length &&
+      migrated < HASHMAP_CONSTANTS.REHASH_BUCKETS_PER_STEP &&
+      emptyVisits < HASHMAP_CONSTANTS.REHASH_MAX_EMPTY_VISITS
+    ) {
+      const bucket = oldBuckets[this.rehashIndex];
+      oldBuckets[this.rehashIndex++] = null;
+
+      if (bucket) {
+        this.migrateBucket(bucket);
+        migrated++;
+      } else {
+        emptyVisits++;
+      }
+    }
 
-    this.rehashAllNodes(oldBuckets);
+    if (this.rehashIndex >= oldBuckets.length) {
+      this.oldBuckets = null;
+    }
   }
 
-  private rehashAllNodes(oldBuckets: Array<HashmapNode<K, V> | null>): void {
-    for (const bucket of oldBuckets) {
-      let currentNode = bucket;
+  private completeRehash(): void {
+    while (this.oldBuckets) {
+      this.rehashStep();
+    }
+  }
 
-      while (currentNode) {
-        this.insertNodeWithoutResize(currentNode.key, currentNode.value);
-        currentNode = currentNode.next;
+  private migrateBucket(bucket: Bucket<K, V>): void {
+    if (bucket instanceof TreeBin) {
+      for (const node of [...bucket.nodes()]) {
+        this.relinkNode(node);
       }
+      return;
     }
-  }
 
-  private insertNodeWithoutResize(key: K, value: V): void {
-    const bucketIndex = this.getBucketIndex(key);
-    this.insertNewNode(bucketIndex, key, value);
+    let currentNode = bucket;
+    while (currentNode) {
+      const nextNode = currentNode.next;
+      this.relinkNode(currentNode);
+      currentNode = nextNode;
+    }
   }
 
-  private forEachNode(callback: (node: HashmapNode<K, V>) => void): void {
-    for (const bucket of this.buckets) {
-      let currentNode = bucket;
+  private relinkNode(node: HashmapNode<K, V>): void {
+    const bucketIndex = this.indexFor(node.hash);
+    const chainLength = this.linkIntoBucket(bucketIndex, node);
 
-      while (currentNode) {
-        callback(currentNode);
-        currentNode = currentNode.next;
-      }
+    if (
+      chainLength >= HASHMAP_CONSTANTS.TREEIFY_THRESHOLD &&
+      this._capacity >= HASHMAP_CONSTANTS.MIN_TREEIFY_CAPACITY
+    ) {
+      this.treeifyBucket(bucketIndex);
     }
   }
 }
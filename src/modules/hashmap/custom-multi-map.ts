@@ -0,0 +1,107 @@
+import { CustomHashmap } from './custom-hashmap';
+import { CustomHashSet } from './custom-hash-set';
+import { MultiMapOptions } from './types';
+
+// Maps each key to a set of values. A key exists only while it has at least
+// one value, and size counts key-value pairs.
+export class CustomMultiMap<K, V> implements Iterable<[K, V]> {
+  private readonly map: CustomHashmap<K, CustomHashSet<V>>;
+  private _size = 0;
+
+  constructor(private readonly options?: MultiMapOptions<K, V>) {
+    this.map = new CustomHashmap<K, CustomHashSet<V>>(options?.keys);
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  get keyCount(): number {
+    return this.map.size;
+  }
+
+  // Returns false when the pair was already present
+  put(key: K, value: V): boolean {
+    const values = this.map.computeIfAbsent(
+      key,
+      () => new CustomHashSet<V>(undefined, this.options?.values),
+    );
+    if (values.has(value)) {
+      return false;
+    }
+
+    values.add(value);
+    this._size++;
+    return true;
+  }
+
+  putAll(key: K, values: Iterable<V>): number {
+    let added = 0;
+    for (const value of values) {
+      if (this.put(key, value)) {
+        added++;
+      }
+    }
+    return added;
+  }
+
+  // A copy, so callers can't change the stored set behind the size count
+  get(key: K): V[] {
+    const values = this.map.get(key);
+    return values ? [...values] : [];
+  }
+
+  has(key: K): boolean {
+    return this.map.has(key);
+  }
+
+  hasEntry(key: K, value: V): boolean {
+    return this.map.get(key)?.has(value) ?? false;
+  }
+
+  valueCount(key: K): number {
+    return this.map.get(key)?.size ?? 0;
+  }
+
+  delete(key: K, value: V): boolean {
+    const values = this.map.get(key);
+    if (!values?.delete(value)) {
+      return false;
+    }
+
+    this._size--;
+    if (values.size === 0) {
+      this.map.delete(key);
+    }
+    return true;
+  }
+
+  deleteAll(key: K): V[] {
+    const values = this.get(key);
+    if (this.map.delete(key)) {
+      this._size -= values.length;
+    }
+    return values;
+  }
+
+  clear(): void {
+    this.map.clear();
+    this._size = 0;
+  }
+
+  keys(): IterableIterator<K> {
+    return this.map.keys();
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    for (const [key, values] of this.map.entries()) {
+      for (const value of values) {
+        yield [key, value];
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class HashmapStatsDto {
+  @ApiProperty({ description: 'Number of live entries', example: 1200 })
+  size: number;
+
+  @ApiProperty({ description: 'Number of buckets', example: 2048 })
+  capacity: number;
+
+  @ApiProperty({ description: 'Current entries per bucket', example: 0.59 })
+  loadFactor: number;
+
+  @ApiProperty({ description: 'Load factor that triggers a resize', example: 0.75 })
+  maxLoadFactor: number;
+
+  @ApiProperty({
+    description: 'Number of buckets per chain length (probe length for open addressing)',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { 0: 1130, 1: 700, 2: 180, 3: 38 },
+  })
+  bucketOccupancy: Record<number, number>;
+
+  @ApiProperty({ description: 'Entries in the fullest bucket', example: 3 })
+  longestChain: number;
+
+  @ApiProperty({ description: 'Resizes since startup', example: 7 })
+  resizeCount: number;
+
+  @ApiProperty({ description: 'get() calls that found an entry', example: 5400 })
+  hits: number;
+
+  @ApiProperty({ description: 'get() calls that found nothing', example: 600 })
+  misses: number;
+
+  @ApiProperty({ description: 'hits / (hits + misses)', example: 0.9 })
+  hitRate: number;
+
+  @ApiProperty({ description: 'Estimated size of all keys and values in bytes', example: 1843200 })
+  bytes: number;
+
+  @ApiProperty({
+    description: 'Byte budget that triggers eviction, null when unbounded',
+    type: Number,
+    nullable: true,
+    example: 67108864,
+  })
+  maxBytes: number | null;
+}
@@ -0,0 +1,13 @@
+export class ConcurrentModificationError extends Error {
+  constructor(message = 'Hashmap was modified during iteration') {
+    super(message);
+    this.name = 'ConcurrentModificationError';
+  }
+}
+
+export class SnapshotCorruptedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotCorruptedError';
+  }
+}
@@ -0,0 +1,214 @@
+import { EvictionPolicy, EvictionPolicyName, FrequencyBucket, HashmapNode } from './types';
+
+interface NodeChain<K, V> {
+  head: HashmapNode<K, V> | null;
+  tail: HashmapNode<K, V> | null;
+}
+
+function appendNode<K, V>(chain: NodeChain<K, V>, node: HashmapNode<K, V>): void {
+  node.policyPrev = chain.tail;
+  node.policyNext = null;
+
+  if (chain.tail) {
+    chain.tail.policyNext = node;
+  } else {
+    chain.head = node;
+  }
+  chain.tail = node;
+}
+
+function unlinkNode<K, V>(chain: NodeChain<K, V>, node: HashmapNode<K, V>): void {
+  if (node.policyPrev) {
+    node.policyPrev.policyNext = node.policyNext;
+  } else {
+    chain.head = node.policyNext ?? null;
+  }
+
+  if (node.policyNext) {
+    node.policyNext.policyPrev = node.policyPrev;
+  } else {
+    chain.tail = node.policyPrev ?? null;
+  }
+
+  node.policyPrev = null;
+  node.policyNext = null;
+}
+
+function firstNodeExcept<K, V>(
+  chain: NodeChain<K, V>,
+  exclude?: HashmapNode<K, V>,
+): HashmapNode<K, V> | null {
+  const head = chain.head;
+  if (head && head === exclude) {
+    return head.policyNext ?? null;
+  }
+  return head;
+}
+
+export class LruEvictionPolicy<K, V> implements EvictionPolicy<K, V> {
+  private readonly chain: NodeChain<K, V> = { head: null, tail: null };
+
+  recordInsert(node: HashmapNode<K, V>): void {
+    appendNode(this.chain, node);
+  }
+
+  recordAccess(node: HashmapNode<K, V>): void {
+    if (this.chain.tail === node) {
+      return;
+    }
+    unlinkNode(this.chain, node);
+    appendNode(this.chain, node);
+  }
+
+  recordRemoval(node: HashmapNode<K, V>): void {
+    unlinkNode(this.chain, node);
+  }
+
+  selectVictim(exclude?: HashmapNode<K, V>): HashmapNode<K, V> | null {
+    return firstNodeExcept(this.chain, exclude);
+  }
+
+  clear(): void {
+    this.chain.head = null;
+    this.chain.tail = null;
+  }
+}
+
+export class FifoEvictionPolicy<K, V> implements EvictionPolicy<K, V> {
+  private readonly chain: NodeChain<K, V> = { head: null, tail: null };
+
+  recordInsert(node: HashmapNode<K, V>): void {
+    appendNode(this.chain, node);
+  }
+
+  recordAccess(): void {
+    // Insertion order is not affected by reads or overwrites.
+  }
+
+  recordRemoval(node: HashmapNode<K, V>): void {
+    unlinkNode(this.chain, node);
+  }
+
+  selectVictim(exclude?: HashmapNode<K, V>): HashmapNode<K, V> | null {
+    return firstNodeExcept(this.chain, exclude);
+  }
+
+  clear(): void {
+    this.chain.head = null;
+    this.chain.tail = null;
+  }
+}
+
+// Nodes are grouped into buckets of equal access frequency, kept in ascending
+// order, so both promotion and victim selection stay O(1). Ties within the
+// lowest bucket are broken by least recent access.
+export class LfuEvictionPolicy<K, V> implements EvictionPolicy<K, V> {
+  private lowest: FrequencyBucket<K, V> | null = null;
+
+  recordInsert(node: HashmapNode<K, V>): void {
+    const bucket = this.lowest?.frequency === 1 ? this.lowest : this.insertBucketAfter(null, 1);
+    appendNode(bucket, node);
+    node.frequencyBucket = bucket;
+  }
+
+  recordAccess(node: HashmapNode<K, V>): void {
+    const current = node.frequencyBucket;
+    if (!current) {
+      return;
+    }
+
+    const nextFrequency = current.frequency + 1;
+    const target =
+      current.next?.frequency === nextFrequency
+        ? current.next
+        : this.insertBucketAfter(current, nextFrequency);
+
+    unlinkNode(current, node);
+    appendNode(target, node);
+    node.frequencyBucket = target;
+    this.removeBucketIfEmpty(current);
+  }
+
+  recordRemoval(node: HashmapNode<K, V>): void {
+    const bucket = node.frequencyBucket;
+    if (!bucket) {
+      return;
+    }
+
+    unlinkNode(bucket, node);
+    node.frequencyBucket = null;
+    this.removeBucketIfEmpty(bucket);
+  }
+
+  selectVictim(exclude?: HashmapNode<K, V>): HashmapNode<K, V> | null {
+    const lowest = this.lowest;
+    if (!lowest) {
+      return null;
+    }
+
+    return firstNodeExcept(lowest, exclude) ?? lowest.next?.head ?? null;
+  }
+
+  clear(): void {
+    this.lowest = null;
+  }
+
+  private insertBucketAfter(
+    previous: FrequencyBucket<K, V> | null,
+    frequency: number,
+  ): FrequencyBucket<K, V> {
+    const next = previous ? previous.next : this.lowest;
+    const bucket: FrequencyBucket<K, V> = {
+      frequency,
+      head: null,
+      tail: null,
+      prev: previous,
+      next,
+    };
+
+    if (next) {
+      next.prev = bucket;
+    }
+    if (previous) {
+      previous.next = bucket;
+    } else {
+      this.lowest = bucket;
+    }
+
+    return bucket;
+  }
+
+  private removeBucketIfEmpty(bucket: FrequencyBucket<K, V>): void {
+    if (bucket.head) {
+      return;
+    }
+
+    if (bucket.prev) {
+      bucket.prev.next = bucket.next;
+    } else {
+      this.lowest = bucket.next;
+    }
+    if (bucket.next) {
+      bucket.next.prev = bucket.prev;
+    }
+  }
+}
+
+export function createEvictionPolicy<K, V>(
+  policy: EvictionPolicyName | EvictionPolicy<K, V> = 'lru',
+): EvictionPolicy<K, V> {
+  if (typeof policy !== 'string') {
+    return policy;
+  }
+
+  switch (policy) {
+    case 'lru':
+      return new LruEvictionPolicy<K, V>();
+    case 'lfu':
+      return new LfuEvictionPolicy<K, V>();
+    case 'fifo':
+      return new FifoEvictionPolicy<K, V>();
+    default:
+      throw new Error(`Unknown eviction policy: ${String(policy)}`);
+  }
+}
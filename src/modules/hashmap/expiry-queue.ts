@@ -0,0 +1,100 @@
+import { HashmapNode } from './types';
+
+export class ExpiryQueue<K, V> {
+  private readonly heap: Array<HashmapNode<K, V>> = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  peek(): HashmapNode<K, V> | undefined {
+    return this.heap[0];
+  }
+
+  push(node: HashmapNode<K, V>): void {
+    node.heapIndex = this.heap.length;
+    this.heap.push(node);
+    this.siftUp(node.heapIndex);
+  }
+
+  update(node: HashmapNode<K, V>): void {
+    if (!this.contains(node)) {
+      this.push(node);
+      return;
+    }
+
+    this.siftUp(node.heapIndex);
+    this.siftDown(node.heapIndex);
+  }
+
+  remove(node: HashmapNode<K, V>): void {
+    if (!this.contains(node)) {
+      return;
+    }
+
+    const index = node.heapIndex;
+    const lastNode = this.heap.pop();
+    node.heapIndex = undefined;
+
+    if (lastNode !== node) {
+      this.heap[index] = lastNode;
+      lastNode.heapIndex = index;
+      this.siftUp(index);
+      this.siftDown(lastNode.heapIndex);
+    }
+  }
+
+  clear(): void {
+    for (const node of this.heap) {
+      node.heapIndex = undefined;
+    }
+    this.heap.length = 0;
+  }
+
+  private contains(node: HashmapNode<K, V>): boolean {
+    return node.heapIndex !== undefined && this.heap[node.heapIndex] === node;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      if (this.heap[parentIndex].expiresAt <= this.heap[index].expiresAt) {
+        return;
+      }
+      this.swap(index, parentIndex);
+      index = parentIndex;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.heap[left].expiresAt < this.heap[smallest].expiresAt) {
+        smallest = left;
+      }
+      if (right < length && this.heap[right].expiresAt < this.heap[smallest].expiresAt) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return;
+      }
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    const nodeI = this.heap[i];
+    const nodeJ = this.heap[j];
+    this.heap[i] = nodeJ;
+    this.heap[j] = nodeI;
+    nodeJ.heapIndex = i;
+    nodeI.heapIndex = j;
+  }
+}
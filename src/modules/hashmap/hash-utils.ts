@@ -1,27 +1,62 @@
-import { HASHMAP_CONSTANTS } from './types';
+import { randomBytes } from 'crypto';
+import { HashAlgorithm, HASHMAP_CONSTANTS } from './types';
+
+const float64View = new Float64Array(1);
+const float64Words = new Uint32Array(float64View.buffer);
 
 export class HashUtils {
-  static defaultHash<K>(key: K): number {
+  private static seed: [number, number] = HashUtils.randomSeed();
+
+  static defaultHash<K>(key: K, algorithm: HashAlgorithm = 'siphash'): number {
     const keyType = typeof key;
 
     switch (keyType) {
       case 'number':
         return HashUtils.hashNumber(key as unknown as number);
       case 'string':
-        return HashUtils.hashString(key as unknown as string);
+        return HashUtils.hashString(key as unknown as string, algorithm);
       case 'boolean':
         return HashUtils.hashBoolean(key as unknown as boolean);
+      case 'bigint':
+        return HashUtils.hashBigInt(key as unknown as bigint);
+      case 'symbol':
+        return HashUtils.hashSymbol(key as unknown as symbol, algorithm);
       default:
-        return HashUtils.hashObject(key);
+        if (key instanceof Date) {
+          return HashUtils.hashNumber(key.getTime());
+        }
+        return HashUtils.hashObject(key, algorithm);
     }
   }
 
-  private static hashNumber(num: number): number {
-    const n = num | 0;
-    return (n ^ (n >>> 16)) >>> 0;
+  // Same equality Map uses: like === except that NaN equals NaN
+  static sameValueZero<K>(a: K, b: K): boolean {
+    return a === b || (a !== a && b !== b);
+  }
+
+  // Order-independent for object properties, Map entries and Set members, and
+  // consistent with deepEquals: values that deep-equal always hash the same.
+  static structuralHash<K>(key: K, algorithm: HashAlgorithm = 'siphash'): number {
+    return HashUtils.hashStructure(key, algorithm, new Map()) >>> 0;
+  }
+
+  // Compares plain objects, class instances (same prototype), arrays, Dates,
+  // Maps and Sets by content. Map keys and Set members are matched with
+  // SameValueZero, like the collections themselves do. Cycles only match when
+  // they point back to the same depth on both sides.
+  static deepEquals<K>(a: K, b: K): boolean {
+    return HashUtils.deepEqualsAt(a, b, new Map(), new Map());
+  }
+
+  static setSeed(k0: number, k1: number): void {
+    HashUtils.seed = [k0 >>> 0, k1 >>> 0];
   }
 
-  private static hashString(str: string): number {
+  static resetSeed(): void {
+    HashUtils.seed = HashUtils.randomSeed();
+  }
+
+  static djb2(str: string): number {
     let hash: number = HASHMAP_CONSTANTS.HASH_PRIME;
 
     for (let i = 0; i < str.length; i++) {
@@ -32,21 +67,273 @@ export class HashUtils {
     return hash >>> 0;
   }
 
+  // HalfSipHash-1-3 over the UTF-16 code units of the string, keyed with the
+  // per-process seed so bucket placement cannot be predicted from outside.
+  static sipHash(str: string, k0 = HashUtils.seed[0], k1 = HashUtils.seed[1]): number {
+    const state = [
+      k0 | 0,
+      k1 | 0,
+      (HASHMAP_CONSTANTS.SIPHASH_INIT_V2 ^ k0) | 0,
+      (HASHMAP_CONSTANTS.SIPHASH_INIT_V3 ^ k1) | 0,
+    ];
+    const fullWordsEnd = str.length - (str.length % 2);
+
+    for (let i = 0; i < fullWordsEnd; i += 2) {
+      const word = str.charCodeAt(i) | (str.charCodeAt(i + 1) << 16);
+      HashUtils.compressWord(state, word);
+    }
+
+    let lastWord = ((str.length * 2) & 0xff) << 24;
+    if (fullWordsEnd < str.length) {
+      lastWord |= str.charCodeAt(fullWordsEnd);
+    }
+    HashUtils.compressWord(state, lastWord);
+
+    state[2] ^= 0xff;
+    for (let round = 0; round < HASHMAP_CONSTANTS.SIPHASH_FINALIZATION_ROUNDS; round++) {
+      HashUtils.sipRound(state);
+    }
+
+    return (state[1] ^ state[3]) >>> 0;
+  }
+
+  private static hashNumber(num: number): number {
+    if (Number.isNaN(num)) {
+      return HASHMAP_CONSTANTS.NAN_HASH;
+    }
+
+    // Int32 values (including -0, which SameValueZero treats as 0) keep the
+    // cheap path; everything else is hashed from its IEEE 754 bits.
+    let n = num | 0;
+    if (n !== num) {
+      float64View[0] = num;
+      n = float64Words[0] ^ float64Words[1];
+    }
+    return (n ^ (n >>> 16)) >>> 0;
+  }
+
+  private static hashBigInt(num: bigint): number {
+    let remaining = num < 0n ? -num : num;
+    let hash = num < 0n ? 2 : 1;
+
+    while (remaining > 0n) {
+      hash = (Math.imul(hash, 31) + Number(remaining & 0xffffffffn)) | 0;
+      remaining >>= 32n;
+    }
+    return (hash ^ (hash >>> 16)) >>> 0;
+  }
+
+  // Symbols have no observable identity to hash, so equal descriptions share a
+  // bucket and are told apart by the equals function.
+  private static hashSymbol(sym: symbol, algorithm: HashAlgorithm): number {
+    const registeredKey = Symbol.keyFor(sym);
+    return HashUtils.hashString(
+      registeredKey === undefined
+        ? `Symbol(${sym.description ?? ''})`
+        : `Symbol.for(${registeredKey})`,
+      algorithm,
+    );
+  }
+
+  private static hashString(str: string, algorithm: HashAlgorithm): number {
+    return algorithm === 'djb2' ? HashUtils.djb2(str) : HashUtils.sipHash(str);
+  }
+
   private static hashBoolean(bool: boolean): number {
     return bool ? HASHMAP_CONSTANTS.BOOLEAN_TRUE_HASH : HASHMAP_CONSTANTS.BOOLEAN_FALSE_HASH;
   }
 
-  private static hashObject<K>(key: K): number {
+  private static hashObject<K>(key: K, algorithm: HashAlgorithm): number {
     try {
-      return HashUtils.hashString(JSON.stringify(key));
+      return HashUtils.hashString(JSON.stringify(key), algorithm);
     } catch {
-      return HashUtils.hashString(String(key));
+      return HashUtils.hashString(String(key), algorithm);
     }
   }
 
-  static getBucketIndex<K>(key: K, capacity: number, hashFunction?: (key: K) => number): number {
-    const hash = hashFunction ? Math.abs(hashFunction(key) | 0) : HashUtils.defaultHash(key);
+  private static hashStructure(
+    value: unknown,
+    algorithm: HashAlgorithm,
+    ancestors: Map<object, number>,
+  ): number {
+    if (typeof value !== 'object' || value === null || value instanceof Date) {
+      return HashUtils.defaultHash(value, algorithm);
+    }
+
+    const depth = ancestors.get(value);
+    if (depth !== undefined) {
+      return HashUtils.mix(HASHMAP_CONSTANTS.CYCLE_HASH_TAG + ancestors.size - depth);
+    }
+    ancestors.set(value, ancestors.size);
+
+    let hash: number;
+    if (Array.isArray(value)) {
+      hash = HASHMAP_CONSTANTS.ARRAY_HASH_TAG;
+      for (const element of value) {
+        hash = (Math.imul(hash, 31) + HashUtils.hashStructure(element, algorithm, ancestors)) | 0;
+      }
+    } else if (value instanceof Map) {
+      hash = HASHMAP_CONSTANTS.MAP_HASH_TAG;
+      for (const [entryKey, entryValue] of value) {
+        hash += HashUtils.hashPair(
+          HashUtils.hashStructure(entryKey, algorithm, ancestors),
+          HashUtils.hashStructure(entryValue, algorithm, ancestors),
+        );
+      }
+    } else if (value instanceof Set) {
+      hash = HASHMAP_CONSTANTS.SET_HASH_TAG;
+      for (const member of value) {
+        hash += HashUtils.mix(HashUtils.hashStructure(member, algorithm, ancestors));
+      }
+    } else {
+      hash = HASHMAP_CONSTANTS.OBJECT_HASH_TAG;
+      for (const [property, propertyValue] of Object.entries(value)) {
+        hash += HashUtils.hashPair(
+          HashUtils.hashString(property, algorithm),
+          HashUtils.hashStructure(propertyValue, algorithm, ancestors),
+        );
+      }
+    }
+
+    ancestors.delete(value);
+    return HashUtils.mix(hash | 0);
+  }
+
+  private static deepEqualsAt(
+    a: unknown,
+    b: unknown,
+    ancestorsA: Map<object, number>,
+    ancestorsB: Map<object, number>,
+  ): boolean {
+    if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) {
+      return HashUtils.sameValueZero(a, b);
+    }
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+      return false;
+    }
+    if (a instanceof Date) {
+      return HashUtils.sameValueZero(a.getTime(), (b as Date).getTime());
+    }
+
+    const depthA = ancestorsA.get(a);
+    const depthB = ancestorsB.get(b);
+    if (depthA !== undefined || depthB !== undefined) {
+      return depthA === depthB;
+    }
+
+    ancestorsA.set(a, ancestorsA.size);
+    ancestorsB.set(b, ancestorsB.size);
+    const equal = HashUtils.contentsEqual(a, b, ancestorsA, ancestorsB);
+    ancestorsA.delete(a);
+    ancestorsB.delete(b);
+    return equal;
+  }
+
+  private static contentsEqual(
+    a: object,
+    b: object,
+    ancestorsA: Map<object, number>,
+    ancestorsB: Map<object, number>,
+  ): boolean {
+    if (Array.isArray(a)) {
+      const other = b as unknown[];
+      return (
+        a.length === other.length &&
+        a.every((element, i) => HashUtils.deepEqualsAt(element, other[i], ancestorsA, ancestorsB))
+      );
+    }
+
+    if (a instanceof Map) {
+      const other = b as Map<unknown, unknown>;
+      if (a.size !== other.size) {
+        return false;
+      }
+      for (const [entryKey, entryValue] of a) {
+        if (
+          !other.has(entryKey) ||
+          !HashUtils.deepEqualsAt(entryValue, other.get(entryKey), ancestorsA, ancestorsB)
+        ) {
+          return false;
+        }
+      }
+      return true;
+    }
+
+    if (a instanceof Set) {
+      const other = b as Set<unknown>;
+      return a.size === other.size && [...a].every(member => other.has(member));
+    }
+
+    const properties = Object.keys(a);
+    if (properties.length !== Object.keys(b).length) {
+      return false;
+    }
+    return properties.every(
+      property =>
+        Object.prototype.hasOwnProperty.call(b, property) &&
+        HashUtils.deepEqualsAt(
+          (a as Record<string, unknown>)[property],
+          (b as Record<string, unknown>)[property],
+          ancestorsA,
+          ancestorsB,
+        ),
+    );
+  }
+
+  private static hashPair(first: number, second: number): number {
+    return HashUtils.mix((Math.imul(first, 31) + second) | 0);
+  }
+
+  // MurmurHash3 finalizer, spreads small input differences over all bits
+  private static mix(hash: number): number {
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash;
+  }
+
+  private static compressWord(state: number[], word: number): void {
+    state[3] ^= word;
+    for (let round = 0; round < HASHMAP_CONSTANTS.SIPHASH_COMPRESSION_ROUNDS; round++) {
+      HashUtils.sipRound(state);
+    }
+    state[0] ^= word;
+  }
+
+  private static sipRound(state: number[]): void {
+    state[0] = (state[0] + state[1]) | 0;
+    state[1] = HashUtils.rotateLeft(state[1], 5) ^ state[0];
+    state[0] = HashUtils.rotateLeft(state[0], 16);
+    state[2] = (state[2] + state[3]) | 0;
+    state[3] = HashUtils.rotateLeft(state[3], 8) ^ state[2];
+    state[0] = (state[0] + state[3]) | 0;
+    state[3] = HashUtils.rotateLeft(state[3], 7) ^ state[0];
+    state[2] = (state[2] + state[1]) | 0;
+    state[1] = HashUtils.rotateLeft(state[1], 13) ^ state[2];
+    state[2] = HashUtils.rotateLeft(state[2], 16);
+  }
+
+  private static rotateLeft(value: number, bits: number): number {
+    return (value << bits) | (value >>> (32 - bits));
+  }
+
+  private static randomSeed(): [number, number] {
+    const bytes = randomBytes(8);
+    return [bytes.readUInt32LE(0), bytes.readUInt32LE(4)];
+  }
+
+  static hash<K>(key: K, hashFunction?: (key: K) => number, algorithm?: HashAlgorithm): number {
+    return hashFunction ? Math.abs(hashFunction(key) | 0) : HashUtils.defaultHash(key, algorithm);
+  }
 
-    return hash % capacity;
+  static getBucketIndex<K>(
+    key: K,
+    capacity: number,
+    hashFunction?: (key: K) => number,
+    algorithm?: HashAlgorithm,
+  ): number {
+    return HashUtils.hash(key, hashFunction, algorithm) % capacity;
   }
 }
@@ -0,0 +1,129 @@
+import { BatchTarget, SetOptions } from './types';
+
+type StagedOperation<K, V> =
+  | { type: 'set'; key: K; value: V; options?: SetOptions }
+  | { type: 'delete'; key: K };
+
+type BatchState = 'pending' | 'committed' | 'rolledBack';
+
+// What a key held before the commit wrote to it
+interface PreviousEntry<K, V> {
+  key: K;
+  present: boolean;
+  value?: V;
+  ttl?: number;
+}
+
+// Stages writes without touching the target until commit(), so a cache can be
+// kept in step with a database transaction: commit once the transaction has
+// committed, roll back when it fails. Operations are validated when staged and
+// applied in order on commit. If one of them throws, e.g. in a change listener
+// or an eviction hook, the keys written so far get their previous values back
+// and the batch counts as rolled back before the error is rethrown. Entries
+// evicted to make room are not restored.
+export class HashmapBatch<K, V> {
+  private operations: Array<StagedOperation<K, V>> = [];
+  private _state: BatchState = 'pending';
+
+  constructor(private readonly target: BatchTarget<K, V>) {}
+
+  get state(): BatchState {
+    return this._state;
+  }
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  set(key: K, value: V, options?: SetOptions): this {
+    this.assertPending();
+    if (key === undefined) {
+      throw new Error('Key cannot be undefined');
+    }
+    const ttl = options?.ttl;
+    if (ttl !== undefined && (typeof ttl !== 'number' || Number.isNaN(ttl) || ttl <= 0)) {
+      throw new Error('TTL must be a positive number');
+    }
+
+    this.operations.push({ type: 'set', key, value, options });
+    return this;
+  }
+
+  delete(key: K): this {
+    this.assertPending();
+    this.operations.push({ type: 'delete', key });
+    return this;
+  }
+
+  commit(): void {
+    this.assertPending();
+    const operations = this.operations;
+    this.finish('committed');
+
+    const previous: Array<PreviousEntry<K, V>> = [];
+    try {
+      for (const operation of operations) {
+        previous.push(this.read(operation.key));
+        if (operation.type === 'set') {
+          this.target.set(operation.key, operation.value, operation.options);
+        } else {
+          this.target.delete(operation.key);
+        }
+      }
+    } catch (error) {
+      this._state = 'rolledBack';
+      this.restore(previous);
+      throw error;
+    }
+  }
+
+  rollback(): void {
+    this.assertPending();
+    this.finish('rolledBack');
+  }
+
+  private read(key: K): PreviousEntry<K, V> {
+    if (!this.target.has(key)) {
+      return { key, present: false };
+    }
+    return {
+      key,
+      present: true,
+      value: this.target.get(key),
+      ttl: this.target.getRemainingTtl?.(key),
+    };
+  }
+
+  // Newest first, so a key written twice ends up with what it held before the
+  // commit. Best effort: a restore that throws as well is skipped.
+  private restore(previous: Array<PreviousEntry<K, V>>): void {
+    for (const entry of previous.reverse()) {
+      try {
+        if (entry.present) {
+          this.target.set(
+            entry.key,
+            entry.value,
+            entry.ttl === undefined ? undefined : { ttl: entry.ttl },
+          );
+        } else {
+          this.target.delete(entry.key);
+        }
+      } catch {
+        // The original error is the one worth reporting
+      }
+    }
+  }
+
+  private finish(state: BatchState): void {
+    this._state = state;
+    this.operations = [];
+  }
+
+  private assertPending(): void {
+    if (this._state !== 'pending') {
+      throw new Error(
+        `Batch is already ${this._state === 'committed' ? 'committed' : 'rolled back'}`,
+      );
+    }
+  }
+}
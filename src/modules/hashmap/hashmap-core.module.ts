@@ -0,0 +1,135 @@
+import { DynamicModule, Global, Logger, Module, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { createHashmap } from './hashmap-factory';
+import { HashmapController } from './hashmap.controller';
+import {
+  BLOOM_FILTER_OPTIONS_TOKEN,
+  DEFAULT_HASHMAP_TOKEN,
+  INVALIDATION_BUS_TOKEN,
+  InjectHashmap,
+  InjectInvalidationBus,
+} from './hashmap.decorators';
+import { HashmapSnapshotService } from './hashmap-snapshot.service';
+import { createInvalidationBus } from './invalidation-bus';
+import {
+  BloomFilterOptions,
+  EvictionPolicyName,
+  HashAlgorithm,
+  Hashmap,
+  HashmapImplementation,
+  HashmapModuleOptions,
+  HASHMAP_CONSTANTS,
+  InvalidationBus,
+  InvalidationBusKind,
+} from './types';
+
+const logger = new Logger('HashmapModule');
+
+// Owns the default map, its snapshots and the admin routes. Registered once
+// through HashmapModule.forRoot and global so feature modules can inject it.
+@Global()
+@Module({})
+export class HashmapCoreModule implements OnApplicationShutdown {
+  constructor(
+    @InjectHashmap() private readonly hashmap: Hashmap<string, unknown>,
+    private readonly snapshots: HashmapSnapshotService,
+    @InjectInvalidationBus() private readonly invalidationBus: InvalidationBus | null,
+  ) {}
+
+  static forRoot(options: HashmapModuleOptions<string, unknown> = {}): DynamicModule {
+    const { implementation, invalidationBus, ...hashmapOptions } = options;
+
+    return {
+      module: HashmapCoreModule,
+      imports: [ConfigModule],
+      controllers: [HashmapController],
+      providers: [
+        HashmapSnapshotService,
+        {
+          provide: DEFAULT_HASHMAP_TOKEN,
+          useFactory: async (configService: ConfigService, snapshots: HashmapSnapshotService) => {
+            const hashmap = createHashmap<string, unknown>(
+              implementation ??
+                configService.get<HashmapImplementation>('HASHMAP_IMPLEMENTATION') ??
+                'chaining',
+              {
+                defaultTtl: Number(
+                  configService.get('HASHMAP_DEFAULT_TTL_MS') ??
+                    HASHMAP_CONSTANTS.DEFAULT_CACHE_TTL,
+                ),
+                sweepInterval: Number(
+                  configService.get('HASHMAP_SWEEP_INTERVAL_MS') ??
+                    HASHMAP_CONSTANTS.DEFAULT_SWEEP_INTERVAL,
+                ),
+                maxEntries: Number(
+                  configService.get('HASHMAP_MAX_ENTRIES') ?? HASHMAP_CONSTANTS.DEFAULT_MAX_ENTRIES,
+                ),
+                maxBytes: configService.get('HASHMAP_MAX_BYTES')
+                  ? Number(configService.get('HASHMAP_MAX_BYTES'))
+                  : undefined,
+                evictionPolicy:
+                  configService.get<EvictionPolicyName>('HASHMAP_EVICTION_POLICY') ?? 'lru',
+                hashAlgorithm:
+                  configService.get<HashAlgorithm>('HASHMAP_HASH_ALGORITHM') ?? 'siphash',
+                onEvict: key => logger.debug(`Evicted cache entry ${key}`),
+                ...hashmapOptions,
+              },
+            );
+            await snapshots.restoreLatest(hashmap);
+            return hashmap;
+          },
+          inject: [ConfigService, HashmapSnapshotService],
+        },
+        {
+          // Postgres needs the app's DataSource; maps used without a database
+          // can still pick 'process' or 'none'
+          provide: INVALIDATION_BUS_TOKEN,
+          useFactory: (configService: ConfigService, dataSource?: DataSource) =>
+            createInvalidationBus(
+              invalidationBus ??
+                configService.get<InvalidationBusKind>('HASHMAP_INVALIDATION_BUS') ??
+                'none',
+              dataSource,
+            ),
+          inject: [ConfigService, { token: DataSource, optional: true }],
+        },
+        {
+          provide: BLOOM_FILTER_OPTIONS_TOKEN,
+          useFactory: (configService: ConfigService): BloomFilterOptions => ({
+            expectedItems: Number(
+              configService.get('HASHMAP_BLOOM_EXPECTED_ITEMS') ??
+                HASHMAP_CONSTANTS.DEFAULT_BLOOM_EXPECTED_ITEMS,
+            ),
+            falsePositiveRate: Number(
+              configService.get('HASHMAP_BLOOM_FALSE_POSITIVE_RATE') ??
+                HASHMAP_CONSTANTS.DEFAULT_BLOOM_FALSE_POSITIVE_RATE,
+            ),
+          }),
+          inject: [ConfigService],
+        },
+      ],
+      exports: [
+        DEFAULT_HASHMAP_TOKEN,
+        INVALIDATION_BUS_TOKEN,
+        BLOOM_FILTER_OPTIONS_TOKEN,
+        HashmapSnapshotService,
+      ],
+    };
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    this.hashmap.stopSweeper();
+    try {
+      const filePath = await this.snapshots.save(this.hashmap);
+      logger.log(`Saved hashmap snapshot to ${filePath}`);
+    } catch (error) {
+      logger.error(`Failed to save hashmap snapshot: ${String(error)}`);
+    }
+    try {
+      await this.invalidationBus?.close();
+    } catch (error) {
+      logger.error(`Failed to close the invalidation bus: ${String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { Observable } from 'rxjs';
+import { Hashmap, HashmapEvent } from './types';
+
+// Cold stream of change events: each subscriber gets its own listener, removed
+// again when it unsubscribes. Events are delivered synchronously, in order.
+export function observeHashmap<K, V>(hashmap: Hashmap<K, V>): Observable<HashmapEvent<K, V>> {
+  return new Observable<HashmapEvent<K, V>>(subscriber =>
+    hashmap.subscribe(event => subscriber.next(event)),
+  );
+}
@@ -0,0 +1,17 @@
+import { CustomHashmap } from './custom-hashmap';
+import { RobinHoodHashmap } from './robin-hood-hashmap';
+import { Hashmap, HashmapImplementation, HashmapOptions } from './types';
+
+export function createHashmap<K, V>(
+  implementation: HashmapImplementation = 'chaining',
+  options?: HashmapOptions<K, V>,
+): Hashmap<K, V> {
+  switch (implementation) {
+    case 'chaining':
+      return new CustomHashmap<K, V>(options);
+    case 'robin-hood':
+      return new RobinHoodHashmap<K, V>(options);
+    default:
+      throw new Error(`Unknown hashmap implementation: ${String(implementation)}`);
+  }
+}
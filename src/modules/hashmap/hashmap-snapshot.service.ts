@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Hashmap, SnapshotOptions, HASHMAP_CONSTANTS } from './types';
+
+const SNAPSHOT_FILE_PATTERN = /^hashmap-(\d+)\.snapshot$/;
+
+@Injectable()
+export class HashmapSnapshotService {
+  private readonly logger = new Logger(HashmapSnapshotService.name);
+  private readonly snapshotDir: string;
+  private readonly retain: number;
+  private _restored = false;
+
+  constructor(configService: ConfigService) {
+    this.snapshotDir = path.resolve(
+      process.cwd(),
+      configService.get<string>('HASHMAP_SNAPSHOT_DIR') ?? 'snapshots',
+    );
+    this.retain = Number(
+      configService.get('HASHMAP_SNAPSHOT_RETAIN') ?? HASHMAP_CONSTANTS.DEFAULT_SNAPSHOT_RETAIN,
+    );
+  }
+
+  get restored(): boolean {
+    return this._restored;
+  }
+
+  async save<K, V>(hashmap: Hashmap<K, V>, options?: SnapshotOptions<K, V>): Promise<string> {
+    const filePath = path.join(this.snapshotDir, `hashmap-${Date.now()}.snapshot`);
+    await hashmap.saveSnapshot(filePath, options);
+    await this.pruneOldSnapshots();
+    return filePath;
+  }
+
+  async restoreLatest<K, V>(
+    hashmap: Hashmap<K, V>,
+    options?: SnapshotOptions<K, V>,
+  ): Promise<boolean> {
+    for (const filePath of await this.listSnapshots()) {
+      let restored: number;
+      try {
+        restored = await hashmap.loadSnapshot(filePath, options);
+      } catch (error) {
+        this.logger.warn(`Skipping unreadable snapshot ${filePath}: ${String(error)}`);
+        continue;
+      }
+      // Older snapshots would not hold anything fresher, so stop here and let
+      // the caller load from the database instead
+      if (restored === 0) {
+        this.logger.log(`Every entry in ${filePath} has expired`);
+        break;
+      }
+      this.logger.log(`Restored ${restored} entries from ${filePath}`);
+      this._restored = true;
+      return true;
+    }
+
+    this._restored = false;
+    return false;
+  }
+
+  private async listSnapshots(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.snapshotDir);
+    } catch {
+      return [];
+    }
+
+    return files
+      .map(file => ({ file, match: SNAPSHOT_FILE_PATTERN.exec(file) }))
+      .filter(({ match }) => match !== null)
+      .sort((a, b) => Number(b.match[1]) - Number(a.match[1]))
+      .map(({ file }) => path.join(this.snapshotDir, file));
+  }
+
+  private async pruneOldSnapshots(): Promise<void> {
+    const stale = (await this.listSnapshots()).slice(Math.max(1, this.retain));
+    await Promise.all(stale.map(filePath => fs.promises.unlink(filePath).catch(() => undefined)));
+  }
+}
@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SnapshotCorruptedError } from './errors';
+import { SnapshotCodec, SnapshotEntry, HASHMAP_CONSTANTS } from './types';
+
+interface SnapshotHeader {
+  format: string;
+  version: number;
+  createdAt: string;
+  count: number;
+  checksum: string;
+}
+
+type SnapshotLine = [string, string, number | null];
+
+export function jsonCodec<T>(): SnapshotCodec<T> {
+  return {
+    encode: value => JSON.stringify(value),
+    decode: encoded => JSON.parse(encoded) as T,
+  };
+}
+
+// Layout: one JSON header line followed by one JSON line per entry. The header
+// carries a SHA-256 checksum of everything after it, so truncated or edited
+// files are rejected before any entry is decoded.
+export function serializeSnapshot<K, V>(
+  entries: Iterable<SnapshotEntry<K, V>>,
+  keyCodec: SnapshotCodec<K> = jsonCodec<K>(),
+  valueCodec: SnapshotCodec<V> = jsonCodec<V>(),
+): string {
+  const lines: string[] = [];
+
+  for (const entry of entries) {
+    const line: SnapshotLine = [
+      keyCodec.encode(entry.key),
+      valueCodec.encode(entry.value),
+      entry.expiresAt ?? null,
+    ];
+    lines.push(JSON.stringify(line));
+  }
+
+  const body = lines.join('\n');
+  const header: SnapshotHeader = {
+    format: HASHMAP_CONSTANTS.SNAPSHOT_FORMAT,
+    version: HASHMAP_CONSTANTS.SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    count: lines.length,
+    checksum: checksumOf(body),
+  };
+
+  return `${JSON.stringify(header)}\n${body}`;
+}
+
+export function parseSnapshot<K, V>(
+  content: string,
+  keyCodec: SnapshotCodec<K> = jsonCodec<K>(),
+  valueCodec: SnapshotCodec<V> = jsonCodec<V>(),
+): Array<SnapshotEntry<K, V>> {
+  const headerEnd = content.indexOf('\n');
+  const header = parseHeader(headerEnd === -1 ? content : content.slice(0, headerEnd));
+  const body = headerEnd === -1 ? '' : content.slice(headerEnd + 1);
+
+  if (checksumOf(body) !== header.checksum) {
+    throw new SnapshotCorruptedError('Snapshot checksum mismatch');
+  }
+
+  const lines = body === '' ? [] : body.split('\n');
+  if (lines.length !== header.count) {
+    throw new SnapshotCorruptedError(
+      `Snapshot declares ${header.count} entries but contains ${lines.length}`,
+    );
+  }
+
+  try {
+    return lines.map(line => {
+      const [key, value, expiresAt] = JSON.parse(line) as SnapshotLine;
+      return {
+        key: keyCodec.decode(key),
+        value: valueCodec.decode(value),
+        expiresAt: expiresAt ?? undefined,
+      };
+    });
+  } catch (error) {
+    throw new SnapshotCorruptedError(`Snapshot entry could not be decoded: ${String(error)}`);
+  }
+}
+
+export async function writeSnapshotFile(filePath: string, content: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tempPath, content, 'utf8');
+  await fs.promises.rename(tempPath, filePath);
+}
+
+export async function readSnapshotFile(filePath: string): Promise<string> {
+  return fs.promises.readFile(filePath, 'utf8');
+}
+
+function parseHeader(line: string): SnapshotHeader {
+  let header: SnapshotHeader;
+  try {
+    header = JSON.parse(line) as SnapshotHeader;
+  } catch {
+    throw new SnapshotCorruptedError('Snapshot header is not valid JSON');
+  }
+
+  if (header?.format !== HASHMAP_CONSTANTS.SNAPSHOT_FORMAT) {
+    throw new SnapshotCorruptedError('File is not a hashmap snapshot');
+  }
+  if (header.version !== HASHMAP_CONSTANTS.SNAPSHOT_VERSION) {
+    throw new SnapshotCorruptedError(`Unsupported snapshot version: ${header.version}`);
+  }
+
+  return header;
+}
+
+function checksumOf(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
@@ -0,0 +1,25 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { HashmapStatsDto } from './dto/hashmap-stats.dto';
+import { InjectHashmap } from './hashmap.decorators';
+import { Hashmap } from './types';
+
+@ApiTags('admin')
+@Controller('admin/hashmap')
+export class HashmapController {
+  constructor(@InjectHashmap() private readonly hashmap: Hashmap<string, unknown>) {}
+
+  @Get('stats')
+  @ApiOperation({
+    summary: 'Get cache statistics',
+    description: 'Report capacity, load, bucket distribution and hit rate of the attachment cache',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved cache statistics',
+    type: HashmapStatsDto,
+  })
+  getStats(): HashmapStatsDto {
+    return this.hashmap.stats();
+  }
+}
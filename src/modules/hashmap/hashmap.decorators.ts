@@ -0,0 +1,27 @@
+import { Inject } from '@nestjs/common';
+
+export const DEFAULT_HASHMAP_TOKEN = 'CUSTOM_HASHMAP';
+
+// The unnamed map keeps the original CUSTOM_HASHMAP token so existing
+// providers and test overrides keep working.
+export function getHashmapToken(name?: string): string {
+  return name ? `${DEFAULT_HASHMAP_TOKEN}:${name}` : DEFAULT_HASHMAP_TOKEN;
+}
+
+export function InjectHashmap(name?: string): PropertyDecorator & ParameterDecorator {
+  return Inject(getHashmapToken(name));
+}
+
+// Resolves to null unless HASHMAP_INVALIDATION_BUS selects a bus
+export const INVALIDATION_BUS_TOKEN = 'HASHMAP_INVALIDATION_BUS';
+
+export function InjectInvalidationBus(): PropertyDecorator & ParameterDecorator {
+  return Inject(INVALIDATION_BUS_TOKEN);
+}
+
+// Sizing for Bloom filters of known keys, from HASHMAP_BLOOM_* settings
+export const BLOOM_FILTER_OPTIONS_TOKEN = 'HASHMAP_BLOOM_FILTER_OPTIONS';
+
+export function InjectBloomFilterOptions(): PropertyDecorator & ParameterDecorator {
+  return Inject(BLOOM_FILTER_OPTIONS_TOKEN);
+}
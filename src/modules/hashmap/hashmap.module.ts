@@ -1,20 +1,137 @@
-import { Module } from '@nestjs/common';
-import { CustomHashmap } from './custom-hashmap';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { HashmapCoreModule } from './hashmap-core.module';
+import { createHashmap } from './hashmap-factory';
+import { getHashmapToken } from './hashmap.decorators';
+import { HashmapFeatureOptions, HashmapModuleOptions } from './types';
 
-@Module({
-  providers: [
-    {
-      provide: 'CUSTOM_HASHMAP',
-      useFactory: () => {
-        return new CustomHashmap();
-      },
-    },
-  ],
-  exports: ['CUSTOM_HASHMAP'],
-})
-export class HashmapModule {}
+@Module({})
+export class HashmapModule {
+  // Registers the default (unnamed) map, configured from the HASHMAP_* settings
+  static forRoot(options?: HashmapModuleOptions<string, unknown>): DynamicModule {
+    return {
+      module: HashmapModule,
+      imports: [HashmapCoreModule.forRoot(options)],
+    };
+  }
+
+  // Registers named maps with their own options, each with a separate key space.
+  // Inject them with @InjectHashmap('name').
+  static forFeature(features: HashmapFeatureOptions[]): DynamicModule {
+    const names = new Set<string>();
+    const providers: Provider[] = features.map(({ name, implementation, ...options }) => {
+      if (!name) {
+        throw new Error('Hashmap name cannot be empty');
+      }
+      if (names.has(name)) {
+        throw new Error(`Duplicate hashmap name: ${name}`);
+      }
+      names.add(name);
+
+      return {
+        provide: getHashmapToken(name),
+        useFactory: () => createHashmap(implementation, options),
+      };
+    });
+
+    return {
+      module: HashmapModule,
+      providers,
+      exports: [...names].map(name => getHashmapToken(name)),
+    };
+  }
+}
 
 export { CustomHashmap } from './custom-hashmap';
+export { RobinHoodHashmap } from './robin-hood-hashmap';
+export { CustomHashSet } from './custom-hash-set';
+export { CustomMultiMap } from './custom-multi-map';
+export { IndexedHashmap } from './indexed-hashmap';
+export { SkipList } from './skip-list';
+export { SortedKeyIndex } from './sorted-key-index';
+export { ScalableBloomFilter } from './bloom-filter';
+export { PersistentHashmap } from './persistent-hashmap';
+export { PersistentMirror } from './persistent-mirror';
+export { ConsistentHashRing } from './consistent-hash-ring';
+export { ShardedHashmap } from './sharded-hashmap';
+export { CacheInvalidator } from './cache-invalidator';
+export {
+  ProcessInvalidationBus,
+  PostgresInvalidationBus,
+  createInvalidationBus,
+  dataSourceConnection,
+  relayInvalidations,
+} from './invalidation-bus';
+export type {
+  IpcChannel,
+  NotificationClient,
+  NotificationConnection,
+  PostgresNotification,
+} from './invalidation-bus';
+export { BaseHashmap } from './base-hashmap';
+export { createHashmap } from './hashmap-factory';
+export { LoadingHashmap } from './loading-hashmap';
+export { HashmapBatch } from './hashmap-batch';
+export { observeHashmap } from './hashmap-events';
 export { HashUtils } from './hash-utils';
-export type { HashFunction, EqualsFunction, HashmapOptions, HashmapNode } from './types';
+export { estimateSize, defaultSizeEstimator, jsonSizeEstimator } from './size-estimator';
+export { ConcurrentModificationError, SnapshotCorruptedError } from './errors';
+export { HashmapSnapshotService } from './hashmap-snapshot.service';
+export { HashmapCoreModule } from './hashmap-core.module';
+export {
+  InjectHashmap,
+  InjectInvalidationBus,
+  getHashmapToken,
+  DEFAULT_HASHMAP_TOKEN,
+  INVALIDATION_BUS_TOKEN,
+} from './hashmap.decorators';
+export { jsonCodec } from './hashmap-snapshot';
+export {
+  LruEvictionPolicy,
+  LfuEvictionPolicy,
+  FifoEvictionPolicy,
+  createEvictionPolicy,
+} from './eviction-policies';
+export type {
+  Hashmap,
+  HashmapImplementation,
+  HashmapStats,
+  HashmapEvent,
+  HashmapEventType,
+  HashmapListener,
+  HashFunction,
+  HashAlgorithm,
+  KeyEquality,
+  EqualsFunction,
+  HashmapOptions,
+  HashmapModuleOptions,
+  HashmapFeatureOptions,
+  HashmapNode,
+  Loader,
+  LoadingHashmapOptions,
+  SetOptions,
+  HashCollectionOptions,
+  PersistentHashmapOptions,
+  HashRingOptions,
+  ShardedHashmapOptions,
+  ShardBalance,
+  InvalidationBus,
+  InvalidationBusKind,
+  InvalidationHandler,
+  InvalidationMessage,
+  InvalidationListener,
+  CacheInvalidatorOptions,
+  MultiMapOptions,
+  SetLike,
+  IndexExtractor,
+  RangeOptions,
+  BloomFilterOptions,
+  SerializedBloomFilter,
+  BatchTarget,
+  EvictionPolicy,
+  EvictionPolicyName,
+  EvictionListener,
+  SizeEstimator,
+  SnapshotCodec,
+  SnapshotOptions,
+} from './types';
 export { HASHMAP_CONSTANTS } from './types';
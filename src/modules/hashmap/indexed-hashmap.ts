@@ -0,0 +1,116 @@
+import { CustomHashmap } from './custom-hashmap';
+import { CustomMultiMap } from './custom-multi-map';
+import { HashCollectionOptions, Hashmap, HashmapEvent, IndexExtractor } from './types';
+
+// Secondary indexes over the values of a hashmap, kept in sync through its
+// change events so evictions and expiry are reflected too. Every key remembers
+// the index values it was filed under, which lets removals unindex it without
+// relying on the removed value.
+export class IndexedHashmap<K, V, I extends string = string> {
+  private readonly indexes = Object.create(null) as Record<I, CustomMultiMap<unknown, K>>;
+  private readonly indexedValues: CustomHashmap<K, unknown[]>;
+  private readonly indexNames: I[];
+  private readonly unsubscribe: () => void;
+
+  constructor(
+    private readonly hashmap: Hashmap<K, V>,
+    private readonly extractors: Record<I, IndexExtractor<K, V>>,
+    options?: HashCollectionOptions<K>,
+  ) {
+    this.indexNames = Object.keys(extractors) as I[];
+    for (const name of this.indexNames) {
+      this.indexes[name] = new CustomMultiMap<unknown, K>({ values: options });
+    }
+    this.indexedValues = new CustomHashmap<K, unknown[]>(options);
+
+    for (const [key, value] of hashmap.entries()) {
+      this.index(key, value);
+    }
+    this.unsubscribe = hashmap.subscribe(event => this.handle(event));
+  }
+
+  // Keys filed under value in the named index, in the order they were indexed
+  findKeys(name: I, value: unknown): K[] {
+    return this.indexOf(name).get(value);
+  }
+
+  // Values go through hashmap.get(), so expired entries are dropped on the way
+  find(name: I, value: unknown): V[] {
+    const values: V[] = [];
+    for (const key of this.findKeys(name, value)) {
+      const found = this.hashmap.get(key);
+      if (found !== undefined) {
+        values.push(found);
+      }
+    }
+    return values;
+  }
+
+  count(name: I, value: unknown): number {
+    return this.indexOf(name).valueCount(value);
+  }
+
+  // Distinct values currently present in the named index
+  indexValues(name: I): IterableIterator<unknown> {
+    return this.indexOf(name).keys();
+  }
+
+  // Stops following the hashmap; the indexes keep their last state
+  close(): void {
+    this.unsubscribe();
+  }
+
+  private handle(event: HashmapEvent<K, V>): void {
+    switch (event.type) {
+      case 'set':
+      case 'update':
+        this.unindex(event.key);
+        this.index(event.key, event.newValue);
+        break;
+      case 'delete':
+      case 'evict':
+      case 'expire':
+        this.unindex(event.key);
+        break;
+      case 'clear':
+        this.indexedValues.clear();
+        for (const name of this.indexNames) {
+          this.indexes[name].clear();
+        }
+        break;
+    }
+  }
+
+  private index(key: K, value: V): void {
+    const values = this.indexNames.map(name => this.extractors[name](value, key));
+
+    values.forEach((indexValue, i) => {
+      if (indexValue !== undefined && indexValue !== null) {
+        this.indexes[this.indexNames[i]].put(indexValue, key);
+      }
+    });
+    this.indexedValues.set(key, values);
+  }
+
+  private unindex(key: K): void {
+    const values = this.indexedValues.get(key);
+    if (!values) {
+      return;
+    }
+
+    values.forEach((indexValue, i) => {
+      if (indexValue !== undefined && indexValue !== null) {
+        this.indexes[this.indexNames[i]].delete(indexValue, key);
+      }
+    });
+    this.indexedValues.delete(key);
+  }
+
+  private indexOf(name: I): CustomMultiMap<unknown, K> {
+    const index = this.indexes[name];
+    if (!index) {
+      throw new Error(`Unknown index: ${name}`);
+    }
+    return index;
+  }
+}
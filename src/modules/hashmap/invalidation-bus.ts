@@ -0,0 +1,326 @@
+import { Logger } from '@nestjs/common';
+import type { Cluster, Worker } from 'cluster';
+import { DataSource } from 'typeorm';
+import {
+  HASHMAP_CONSTANTS,
+  InvalidationBus,
+  InvalidationBusKind,
+  InvalidationHandler,
+  InvalidationMessage,
+} from './types';
+
+// The part of a process used for IPC; process itself in a cluster worker or a
+// forked child
+export interface IpcChannel {
+  send?(message: unknown): boolean;
+  on(event: 'message', listener: (message: unknown) => void): unknown;
+  off(event: 'message', listener: (message: unknown) => void): unknown;
+}
+
+export interface PostgresNotification {
+  channel: string;
+  payload?: string;
+}
+
+// The subset of a node-postgres client the bus needs
+export interface NotificationClient {
+  query(text: string, values?: unknown[]): Promise<unknown>;
+  on(event: 'notification', listener: (notification: PostgresNotification) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  on(event: 'end', listener: () => void): unknown;
+  removeListener(
+    event: 'notification',
+    listener: (notification: PostgresNotification) => void,
+  ): unknown;
+  removeListener(event: 'error', listener: (error: Error) => void): unknown;
+  removeListener(event: 'end', listener: () => void): unknown;
+}
+
+export interface NotificationConnection {
+  client: NotificationClient;
+  // Passing an error tells the pool to discard the client
+  release: (error?: Error) => void;
+}
+
+const IPC_TAG = HASHMAP_CONSTANTS.INVALIDATION_IPC_TAG;
+
+const logger = new Logger('InvalidationBus');
+
+function isInvalidationMessage(value: unknown): value is InvalidationMessage {
+  const message = value as InvalidationMessage;
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    typeof message.origin === 'string' &&
+    typeof message.channel === 'string' &&
+    (message.type === 'invalidate' || message.type === 'clear')
+  );
+}
+
+function unwrapIpcMessage(value: unknown): InvalidationMessage | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const message = (value as Record<string, unknown>)[IPC_TAG];
+  return isInvalidationMessage(message) ? message : null;
+}
+
+// Copy-on-write, so a handler may unsubscribe while a message is delivered
+class HandlerList {
+  private handlers: InvalidationHandler[] = [];
+
+  add(handler: InvalidationHandler): () => void {
+    this.handlers = [...this.handlers, handler];
+    return () => {
+      this.handlers = this.handlers.filter(current => current !== handler);
+    };
+  }
+
+  deliver(message: InvalidationMessage): void {
+    for (const handler of this.handlers) {
+      handler(message);
+    }
+  }
+
+  clear(): void {
+    this.handlers = [];
+  }
+
+  get size(): number {
+    return this.handlers.length;
+  }
+}
+
+// Delivers messages to every subscriber in this process and, when the process
+// has an IPC channel, to its parent. In a cluster the primary has to forward
+// them to the other workers with relayInvalidations(); a process without IPC
+// only reaches its own subscribers.
+export class ProcessInvalidationBus implements InvalidationBus {
+  private readonly handlers = new HandlerList();
+  private readonly onMessage = (value: unknown): void => {
+    const message = unwrapIpcMessage(value);
+    if (message) {
+      this.handlers.deliver(message);
+    }
+  };
+
+  constructor(private readonly channel: IpcChannel = process) {
+    channel.on('message', this.onMessage);
+  }
+
+  publish(message: InvalidationMessage): Promise<void> {
+    this.handlers.deliver(message);
+    this.channel.send?.({ [IPC_TAG]: message });
+    return Promise.resolve();
+  }
+
+  subscribe(handler: InvalidationHandler): () => void {
+    return this.handlers.add(handler);
+  }
+
+  close(): Promise<void> {
+    this.channel.off('message', this.onMessage);
+    this.handlers.clear();
+    return Promise.resolve();
+  }
+}
+
+// Run in the cluster primary: forwards invalidations from one worker to all
+// others. Returns a function that stops forwarding.
+export function relayInvalidations(cluster: Cluster): () => void {
+  const relay = (sender: Worker, value: unknown): void => {
+    if (!unwrapIpcMessage(value)) {
+      return;
+    }
+    for (const worker of Object.values(cluster.workers ?? {})) {
+      if (worker && worker !== sender && worker.isConnected()) {
+        worker.send(value as object);
+      }
+    }
+  };
+
+  cluster.on('message', relay);
+  return () => {
+    cluster.off('message', relay);
+  };
+}
+
+// Broadcasts through Postgres LISTEN/NOTIFY, so separate hosts or containers
+// sharing a database see each other's invalidations. One connection is held
+// for listening from the first publish or subscribe until close(). NOTIFY
+// echoes to the sender as well, which CacheInvalidator skips by origin.
+// When the connection drops, the bus logs it and listens again on a new one
+// while anything is subscribed; notifications sent in between are missed.
+export class PostgresInvalidationBus implements InvalidationBus {
+  private readonly handlers = new HandlerList();
+  private connection: Promise<NotificationConnection> | null = null;
+  // The connection once it is listening; null while connecting
+  private live: NotificationConnection | null = null;
+  private retry: NodeJS.Timeout | null = null;
+  private readonly onError = (error: Error): void => this.connectionLost(error);
+  private readonly onEnd = (): void => this.connectionLost();
+  private readonly onNotification = (notification: PostgresNotification): void => {
+    if (notification.channel !== this.channel || !notification.payload) {
+      return;
+    }
+    let message: unknown;
+    try {
+      message = JSON.parse(notification.payload);
+    } catch {
+      // Not one of ours; anything may NOTIFY on the channel
+      return;
+    }
+    if (isInvalidationMessage(message)) {
+      this.handlers.deliver(message);
+    }
+  };
+
+  constructor(
+    private readonly connect: () => Promise<NotificationConnection>,
+    private readonly channel: string = HASHMAP_CONSTANTS.DEFAULT_INVALIDATION_CHANNEL,
+  ) {
+    // Interpolated into LISTEN, which takes no bind parameters
+    if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+      throw new Error(`Invalid notification channel: ${channel}`);
+    }
+  }
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    const { client } = await this.listen();
+    await client.query('SELECT pg_notify($1, $2)', [this.channel, JSON.stringify(message)]);
+  }
+
+  subscribe(handler: InvalidationHandler): () => void {
+    const unsubscribe = this.handlers.add(handler);
+    // Errors surface on the next publish, which waits on the same connection
+    this.listen().catch(() => undefined);
+    return unsubscribe;
+  }
+
+  async close(): Promise<void> {
+    const pending = this.connection;
+    this.connection = null;
+    this.live = null;
+    this.handlers.clear();
+    if (this.retry !== null) {
+      clearTimeout(this.retry);
+      this.retry = null;
+    }
+    if (pending === null) {
+      return;
+    }
+
+    const { client, release } = await pending;
+    this.detach(client);
+    try {
+      await client.query(`UNLISTEN ${this.channel}`);
+    } finally {
+      release();
+    }
+  }
+
+  private listen(): Promise<NotificationConnection> {
+    if (this.connection === null) {
+      const attempt = this.openConnection();
+      this.connection = attempt;
+      // Let the next call retry instead of failing forever
+      attempt.catch(() => {
+        if (this.connection === attempt) {
+          this.connection = null;
+        }
+      });
+    }
+    return this.connection;
+  }
+
+  private async openConnection(): Promise<NotificationConnection> {
+    const connection = await this.connect();
+    const { client } = connection;
+    // An 'error' event without a listener would crash the process
+    client.on('error', this.onError);
+    client.on('end', this.onEnd);
+    client.on('notification', this.onNotification);
+    try {
+      await client.query(`LISTEN ${this.channel}`);
+    } catch (error) {
+      this.detach(client);
+      connection.release(error instanceof Error ? error : undefined);
+      throw error;
+    }
+    this.live = connection;
+    return connection;
+  }
+
+  // While connecting, the pending LISTEN fails instead and the next call retries
+  private connectionLost(error?: Error): void {
+    const lost = this.live;
+    if (lost === null) {
+      return;
+    }
+    this.live = null;
+    this.connection = null;
+    this.detach(lost.client);
+    lost.release(error ?? new Error('Notification connection ended'));
+    logger.error(
+      `Lost the connection listening on ${this.channel}${error ? `: ${error.message}` : ''}`,
+    );
+    this.relisten();
+  }
+
+  private relisten(): void {
+    if (this.handlers.size === 0) {
+      return;
+    }
+    this.listen().catch(error => {
+      logger.error(`Failed to listen on ${this.channel} again: ${String(error)}`);
+      this.retry = setTimeout(() => {
+        this.retry = null;
+        this.relisten();
+      }, HASHMAP_CONSTANTS.INVALIDATION_RECONNECT_DELAY);
+      this.retry.unref();
+    });
+  }
+
+  private detach(client: NotificationClient): void {
+    client.removeListener('notification', this.onNotification);
+    client.removeListener('error', this.onError);
+    client.removeListener('end', this.onEnd);
+  }
+}
+
+// Takes a dedicated connection out of the TypeORM pool; it is only returned
+// when the bus closes
+export function dataSourceConnection(
+  dataSource: DataSource,
+): () => Promise<NotificationConnection> {
+  return async () => {
+    const driver = dataSource.driver as { obtainMasterConnection?: () => Promise<unknown[]> };
+    if (!driver.obtainMasterConnection) {
+      throw new Error('The postgres invalidation bus needs a Postgres data source');
+    }
+    const [client, release] = await driver.obtainMasterConnection();
+    return {
+      client: client as NotificationClient,
+      release: release as (error?: Error) => void,
+    };
+  };
+}
+
+export function createInvalidationBus(
+  kind: InvalidationBusKind,
+  dataSource?: DataSource,
+): InvalidationBus | null {
+  switch (kind) {
+    case 'none':
+      return null;
+    case 'process':
+      return new ProcessInvalidationBus();
+    case 'postgres':
+      if (!dataSource) {
+        throw new Error('The postgres invalidation bus needs a TypeORM data source');
+      }
+      return new PostgresInvalidationBus(dataSourceConnection(dataSource));
+    default:
+      throw new Error(`Unknown invalidation bus: ${String(kind)}`);
+  }
+}
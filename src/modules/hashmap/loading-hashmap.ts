@@ -0,0 +1,129 @@
+import { CustomHashmap } from './custom-hashmap';
+import { HashmapBatch } from './hashmap-batch';
+import { Hashmap, HASHMAP_CONSTANTS, Loader, LoadingHashmapOptions } from './types';
+
+// Writes to a key seen while loads of it are in flight. The entry is dropped
+// once the last of those loads settles.
+interface KeyVersion {
+  version: number;
+  loads: number;
+}
+
+// Read-through wrapper around a hashmap. Concurrent misses for the same key
+// share one loader call, and keys the loader could not find are remembered for
+// negativeTtl so repeated lookups of missing keys don't reach the loader. A
+// set or invalidate while a key is loading wins over the loaded value.
+export class LoadingHashmap<K, V> {
+  private readonly inFlight: CustomHashmap<K, Promise<V | undefined>>;
+  private readonly misses: CustomHashmap<K, true> | null;
+  private readonly versions: CustomHashmap<K, KeyVersion>;
+
+  constructor(
+    private readonly hashmap: Hashmap<K, V>,
+    options?: LoadingHashmapOptions,
+  ) {
+    const negativeTtl = options?.negativeTtl ?? HASHMAP_CONSTANTS.DEFAULT_NEGATIVE_TTL;
+    if (!Number.isFinite(negativeTtl) || negativeTtl < 0) {
+      throw new Error('negativeTtl must be a non-negative number');
+    }
+
+    const keyEquality = options?.keyEquality;
+    this.inFlight = new CustomHashmap({ keyEquality });
+    this.versions = new CustomHashmap({ keyEquality });
+    this.misses =
+      negativeTtl > 0 ? new CustomHashmap({ keyEquality, defaultTtl: negativeTtl }) : null;
+  }
+
+  get loading(): number {
+    return this.inFlight.size;
+  }
+
+  // Resolves to undefined when the loader found nothing. A loader error rejects
+  // every waiter of that load and is not cached.
+  getOrLoad(key: K, loader: Loader<K, V>): Promise<V | undefined> {
+    const cached = this.hashmap.get(key);
+    if (cached !== undefined) {
+      return Promise.resolve(cached);
+    }
+    if (this.misses?.has(key)) {
+      return Promise.resolve(undefined);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending !== undefined) {
+      return pending;
+    }
+
+    // finally() runs asynchronously, so the entry is always registered before it is removed.
+    // A write may already have replaced it with a newer load.
+    const load = this.load(key, loader).finally(() => {
+      if (this.inFlight.get(key) === load) {
+        this.inFlight.delete(key);
+      }
+    });
+    this.inFlight.set(key, load);
+    return load;
+  }
+
+  // Writes through to the wrapped map and forgets any cached miss for the key.
+  set(key: K, value: V): void {
+    this.written(key);
+    this.hashmap.set(key, value);
+  }
+
+  // Committed writes go through set() and invalidate(), so they clear cached misses too
+  batch(): HashmapBatch<K, V> {
+    return new HashmapBatch({
+      set: (key, value) => this.set(key, value),
+      delete: key => this.invalidate(key),
+      has: key => this.hashmap.has(key),
+      get: key => this.hashmap.get(key),
+    });
+  }
+
+  invalidate(key: K): boolean {
+    this.written(key);
+    return this.hashmap.delete(key);
+  }
+
+  // Outdates loads in flight, and makes later lookups start a new one instead
+  // of waiting on them.
+  private written(key: K): void {
+    this.misses?.delete(key);
+    this.inFlight.delete(key);
+    const current = this.versions.get(key);
+    if (current) {
+      current.version++;
+    }
+  }
+
+  private async load(key: K, loader: Loader<K, V>): Promise<V | undefined> {
+    let current = this.versions.get(key);
+    if (!current) {
+      current = { version: 0, loads: 0 };
+      this.versions.set(key, current);
+    }
+    current.loads++;
+    const version = current.version;
+
+    try {
+      const value = (await loader(key)) ?? undefined;
+
+      // Still returned to the callers waiting on it, but not cached
+      if (current.version !== version) {
+        return value;
+      }
+      if (value === undefined) {
+        this.misses?.set(key, true);
+        return undefined;
+      }
+
+      this.hashmap.set(key, value);
+      return value;
+    } finally {
+      if (--current.loads === 0) {
+        this.versions.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,366 @@
+import { CustomHashmap } from './custom-hashmap';
+import { HashUtils } from './hash-utils';
+import {
+  EqualsFunction,
+  Hashmap,
+  HASHMAP_CONSTANTS,
+  HashmapOptions,
+  PersistentHashmapOptions,
+} from './types';
+
+interface Leaf<K, V> {
+  kind: 'leaf';
+  hash: number;
+  key: K;
+  value: V;
+}
+
+// Slots are ordered by the 5-bit hash fragment of their position in bitmap
+interface BitmapNode<K, V> {
+  kind: 'bitmap';
+  bitmap: number;
+  slots: Array<Slot<K, V>>;
+}
+
+// Keys whose full 32-bit hashes are equal
+interface CollisionNode<K, V> {
+  kind: 'collision';
+  hash: number;
+  leaves: Array<Leaf<K, V>>;
+}
+
+type Slot<K, V> = Leaf<K, V> | BitmapNode<K, V> | CollisionNode<K, V>;
+
+const BITS = HASHMAP_CONSTANTS.HAMT_BITS_PER_LEVEL;
+const MASK = (1 << BITS) - 1;
+
+function bitCount(value: number): number {
+  value = value - ((value >>> 1) & 0x55555555);
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return (((value + (value >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function insertAt<T>(items: T[], index: number, item: T): T[] {
+  return [...items.slice(0, index), item, ...items.slice(index)];
+}
+
+function replaceAt<T>(items: T[], index: number, item: T): T[] {
+  const copy = items.slice();
+  copy[index] = item;
+  return copy;
+}
+
+function removeAt<T>(items: T[], index: number): T[] {
+  return [...items.slice(0, index), ...items.slice(index + 1)];
+}
+
+// Immutable hash array mapped trie. set() and delete() copy only the path from
+// the root to the changed slot and share everything else with the previous
+// version, so keeping an old version around costs nothing until it diverges
+// and taking a snapshot is just holding on to a reference. Keys are hashed and
+// compared with the same HashUtils functions and options as CustomHashmap.
+// Iteration follows hash order, not insertion order.
+export class PersistentHashmap<K, V> implements Iterable<[K, V]> {
+  private root: BitmapNode<K, V> = { kind: 'bitmap', bitmap: 0, slots: [] };
+  private count = 0;
+  private readonly hashOf: (key: K) => number;
+  private readonly equalsFunction: EqualsFunction<K>;
+
+  constructor(private readonly options: PersistentHashmapOptions<K> = {}) {
+    const algorithm = options.hashAlgorithm ?? 'siphash';
+    if (options.keyEquality === 'structural') {
+      const hashFunction =
+        options.hashFunction ?? ((key: K) => HashUtils.structuralHash(key, algorithm));
+      this.hashOf = key => HashUtils.hash(key, hashFunction);
+      this.equalsFunction = options.equalsFunction ?? ((a, b) => HashUtils.deepEquals(a, b));
+    } else {
+      this.hashOf = key => HashUtils.hash(key, options.hashFunction, algorithm);
+      this.equalsFunction = options.equalsFunction ?? ((a, b) => HashUtils.sameValueZero(a, b));
+    }
+  }
+
+  static from<K, V>(
+    entries: Iterable<[K, V]>,
+    options?: PersistentHashmapOptions<K>,
+  ): PersistentHashmap<K, V> {
+    let map = new PersistentHashmap<K, V>(options);
+    for (const [key, value] of entries) {
+      map = map.set(key, value);
+    }
+    return map;
+  }
+
+  // Captures the live entries of a mutable map; TTLs are not carried over
+  static fromHashmap<K, V>(
+    hashmap: Hashmap<K, V>,
+    options?: PersistentHashmapOptions<K>,
+  ): PersistentHashmap<K, V> {
+    return PersistentHashmap.from(hashmap.entries(), options);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  get(key: K): V | undefined {
+    return this.findLeaf(key)?.value;
+  }
+
+  has(key: K): boolean {
+    return this.findLeaf(key) !== null;
+  }
+
+  // Returns this map when key already maps to value
+  set(key: K, value: V): PersistentHashmap<K, V> {
+    if (key === undefined) {
+      throw new Error('Key cannot be undefined');
+    }
+
+    const leaf: Leaf<K, V> = { kind: 'leaf', hash: this.hashOf(key), key, value };
+    const result = { added: false };
+    const root = this.insert(this.root, 0, leaf, result);
+
+    return root === this.root ? this : this.derive(root, this.count + (result.added ? 1 : 0));
+  }
+
+  // Returns this map when key is absent
+  delete(key: K): PersistentHashmap<K, V> {
+    const result = { removed: false };
+    const slot = this.remove(this.root, 0, this.hashOf(key), key, result);
+
+    if (!result.removed) {
+      return this;
+    }
+    return this.derive(this.asRoot(slot), this.count - 1);
+  }
+
+  clear(): PersistentHashmap<K, V> {
+    return this.count === 0 ? this : new PersistentHashmap<K, V>(this.options);
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    for (const leaf of this.leaves(this.root)) {
+      yield [leaf.key, leaf.value];
+    }
+  }
+
+  *keys(): IterableIterator<K> {
+    for (const leaf of this.leaves(this.root)) {
+      yield leaf.key;
+    }
+  }
+
+  *values(): IterableIterator<V> {
+    for (const leaf of this.leaves(this.root)) {
+      yield leaf.value;
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  forEach(callback: (value: V, key: K, map: PersistentHashmap<K, V>) => void): void {
+    for (const [key, value] of this.entries()) {
+      callback(value, key, this);
+    }
+  }
+
+  // A mutable copy with the given table options, e.g. to resume caching
+  toHashmap(options?: HashmapOptions<K, V>): CustomHashmap<K, V> {
+    const hashmap = new CustomHashmap<K, V>({ ...this.options, ...options });
+    for (const [key, value] of this.entries()) {
+      hashmap.set(key, value);
+    }
+    return hashmap;
+  }
+
+  private derive(root: BitmapNode<K, V>, count: number): PersistentHashmap<K, V> {
+    const map = new PersistentHashmap<K, V>(this.options);
+    map.root = root;
+    map.count = count;
+    return map;
+  }
+
+  private findLeaf(key: K): Leaf<K, V> | null {
+    const hash = this.hashOf(key);
+    let node: Slot<K, V> = this.root;
+
+    for (let shift = 0; ; shift += BITS) {
+      if (node.kind === 'leaf') {
+        return node.hash === hash && this.equalsFunction(node.key, key) ? node : null;
+      }
+      if (node.kind === 'collision') {
+        return node.hash === hash
+          ? (node.leaves.find(leaf => this.equalsFunction(leaf.key, key)) ?? null)
+          : null;
+      }
+
+      const bit = 1 << ((hash >>> shift) & MASK);
+      if ((node.bitmap & bit) === 0) {
+        return null;
+      }
+      node = node.slots[bitCount(node.bitmap & (bit - 1))];
+    }
+  }
+
+  private insert(
+    node: BitmapNode<K, V>,
+    shift: number,
+    leaf: Leaf<K, V>,
+    result: { added: boolean },
+  ): BitmapNode<K, V> {
+    const bit = 1 << ((leaf.hash >>> shift) & MASK);
+    const index = bitCount(node.bitmap & (bit - 1));
+
+    if ((node.bitmap & bit) === 0) {
+      result.added = true;
+      return {
+        kind: 'bitmap',
+        bitmap: node.bitmap | bit,
+        slots: insertAt(node.slots, index, leaf),
+      };
+    }
+
+    const slot = node.slots[index];
+    let next: Slot<K, V>;
+    if (slot.kind === 'bitmap') {
+      next = this.insert(slot, shift + BITS, leaf, result);
+    } else if (slot.hash !== leaf.hash) {
+      result.added = true;
+      next = this.branch(slot, leaf, shift + BITS);
+    } else if (slot.kind === 'leaf') {
+      if (!this.equalsFunction(slot.key, leaf.key)) {
+        result.added = true;
+        next = { kind: 'collision', hash: leaf.hash, leaves: [slot, leaf] };
+      } else {
+        next = Object.is(slot.value, leaf.value) ? slot : leaf;
+      }
+    } else {
+      next = this.insertCollision(slot, leaf, result);
+    }
+
+    return next === slot ? node : { ...node, slots: replaceAt(node.slots, index, next) };
+  }
+
+  private insertCollision(
+    node: CollisionNode<K, V>,
+    leaf: Leaf<K, V>,
+    result: { added: boolean },
+  ): CollisionNode<K, V> {
+    const index = node.leaves.findIndex(existing => this.equalsFunction(existing.key, leaf.key));
+    if (index === -1) {
+      result.added = true;
+      return { ...node, leaves: [...node.leaves, leaf] };
+    }
+    if (Object.is(node.leaves[index].value, leaf.value)) {
+      return node;
+    }
+    return { ...node, leaves: replaceAt(node.leaves, index, leaf) };
+  }
+
+  // Splits two slots with different hashes into nested bitmap nodes until
+  // their hash fragments differ
+  private branch(
+    existing: Leaf<K, V> | CollisionNode<K, V>,
+    leaf: Leaf<K, V>,
+    shift: number,
+  ): BitmapNode<K, V> {
+    const existingFragment = (existing.hash >>> shift) & MASK;
+    const leafFragment = (leaf.hash >>> shift) & MASK;
+
+    if (existingFragment === leafFragment) {
+      return {
+        kind: 'bitmap',
+        bitmap: 1 << leafFragment,
+        slots: [this.branch(existing, leaf, shift + BITS)],
+      };
+    }
+    return {
+      kind: 'bitmap',
+      bitmap: (1 << existingFragment) | (1 << leafFragment),
+      slots: existingFragment < leafFragment ? [existing, leaf] : [leaf, existing],
+    };
+  }
+
+  // Returns the replacement for node: null once it is empty, or its only
+  // remaining leaf or collision node so the trie does not keep chains of
+  // single-slot nodes around
+  private remove(
+    node: BitmapNode<K, V>,
+    shift: number,
+    hash: number,
+    key: K,
+    result: { removed: boolean },
+  ): Slot<K, V> | null {
+    const bit = 1 << ((hash >>> shift) & MASK);
+    if ((node.bitmap & bit) === 0) {
+      return node;
+    }
+
+    const index = bitCount(node.bitmap & (bit - 1));
+    const slot = node.slots[index];
+    let next: Slot<K, V> | null;
+    if (slot.kind === 'bitmap') {
+      next = this.remove(slot, shift + BITS, hash, key, result);
+    } else if (slot.hash !== hash) {
+      return node;
+    } else if (slot.kind === 'leaf') {
+      next = this.equalsFunction(slot.key, key) ? null : slot;
+    } else {
+      next = this.removeCollision(slot, key);
+    }
+
+    if (next === slot) {
+      return node;
+    }
+    result.removed = true;
+
+    if (next === null) {
+      const slots = removeAt(node.slots, index);
+      if (slots.length === 0) {
+        return null;
+      }
+      if (slots.length === 1 && slots[0].kind !== 'bitmap') {
+        return slots[0];
+      }
+      return { kind: 'bitmap', bitmap: node.bitmap & ~bit, slots };
+    }
+    if (node.slots.length === 1 && next.kind !== 'bitmap') {
+      return next;
+    }
+    return { ...node, slots: replaceAt(node.slots, index, next) };
+  }
+
+  private removeCollision(node: CollisionNode<K, V>, key: K): Slot<K, V> {
+    const index = node.leaves.findIndex(leaf => this.equalsFunction(leaf.key, key));
+    if (index === -1) {
+      return node;
+    }
+    const leaves = removeAt(node.leaves, index);
+    return leaves.length === 1 ? leaves[0] : { ...node, leaves };
+  }
+
+  // The root always stays a bitmap node, even when it collapses to one slot
+  private asRoot(slot: Slot<K, V> | null): BitmapNode<K, V> {
+    if (slot === null) {
+      return { kind: 'bitmap', bitmap: 0, slots: [] };
+    }
+    if (slot.kind === 'bitmap') {
+      return slot;
+    }
+    return { kind: 'bitmap', bitmap: 1 << (slot.hash & MASK), slots: [slot] };
+  }
+
+  private *leaves(node: Slot<K, V>): IterableIterator<Leaf<K, V>> {
+    if (node.kind === 'leaf') {
+      yield node;
+    } else if (node.kind === 'collision') {
+      yield* node.leaves;
+    } else {
+      for (const slot of node.slots) {
+        yield* this.leaves(slot);
+      }
+    }
+  }
+}
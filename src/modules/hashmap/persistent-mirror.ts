@@ -0,0 +1,43 @@
+import { PersistentHashmap } from './persistent-hashmap';
+import { Hashmap, HashmapEvent, PersistentHashmapOptions } from './types';
+
+// Follows a mutable hashmap through its change events and keeps an immutable
+// copy of it up to date. snapshot() hands out the current version in O(1);
+// later writes build new versions and never change a snapshot already taken.
+// Entries past their TTL stay in the copy until the hashmap reports them
+// expired.
+export class PersistentMirror<K, V> {
+  private current: PersistentHashmap<K, V>;
+  private readonly unsubscribe: () => void;
+
+  constructor(hashmap: Hashmap<K, V>, options?: PersistentHashmapOptions<K>) {
+    this.current = PersistentHashmap.fromHashmap(hashmap, options);
+    this.unsubscribe = hashmap.subscribe(event => this.handle(event));
+  }
+
+  snapshot(): PersistentHashmap<K, V> {
+    return this.current;
+  }
+
+  // Stops following the hashmap; the last version stays available
+  close(): void {
+    this.unsubscribe();
+  }
+
+  private handle(event: HashmapEvent<K, V>): void {
+    switch (event.type) {
+      case 'set':
+      case 'update':
+        this.current = this.current.set(event.key, event.newValue);
+        break;
+      case 'delete':
+      case 'evict':
+      case 'expire':
+        this.current = this.current.delete(event.key);
+        break;
+      case 'clear':
+        this.current = this.current.clear();
+        break;
+    }
+  }
+}
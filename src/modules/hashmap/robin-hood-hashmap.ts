@@ -0,0 +1,149 @@
+import { HashmapOptions, HashmapNode, HASHMAP_CONSTANTS } from './types';
+import { BaseHashmap } from './base-hashmap';
+
+type Slot<K, V> = HashmapNode<K, V> | null;
+
+// Open addressing with linear probing. On insert an entry that is further from
+// its home slot takes the place of a "richer" one, which keeps probe sequences
+// short and lets lookups stop as soon as they pass an entry closer to home than
+// the key could be. Deletes shift the following run back by one instead of
+// leaving tombstones.
+export class RobinHoodHashmap<K, V> extends BaseHashmap<K, V> {
+  private slots: Array<Slot<K, V>>;
+
+  constructor(options?: HashmapOptions<K, V>) {
+    super(options);
+
+    if (this.loadFactor >= 1) {
+      throw new Error('loadFactor must be below 1 for open addressing');
+    }
+
+    this.slots = new Array<Slot<K, V>>(this.initialCapacity).fill(null);
+  }
+
+  get capacity(): number {
+    return this.slots.length;
+  }
+
+  protected resetTable(): void {
+    this.slots = new Array<Slot<K, V>>(this.initialCapacity).fill(null);
+  }
+
+  protected lookupNode(hash: number, key: K): HashmapNode<K, V> | null {
+    const index = this.findSlot(hash, key);
+    return index === -1 ? null : this.slots[index];
+  }
+
+  protected insertNode(node: HashmapNode<K, V>): void {
+    // _size already counts the new node, so the table must hold at least that many
+    if (this._size > this.slots.length) {
+      this.resize(this.slots.length * HASHMAP_CONSTANTS.RESIZE_MULTIPLIER);
+    }
+    this.placeNode(node);
+  }
+
+  protected removeNode(hash: number, key: K): HashmapNode<K, V> | null {
+    const index = this.findSlot(hash, key);
+    if (index === -1) {
+      return null;
+    }
+
+    const removedNode = this.slots[index];
+    this.shiftBackFrom(index);
+    return removedNode;
+  }
+
+  protected resizeTable(newCapacity: number): void {
+    const oldSlots = this.slots;
+    const occupied = oldSlots.reduce((count, slot) => (slot ? count + 1 : count), 0);
+
+    this.slots = new Array<Slot<K, V>>(
+      Math.max(HASHMAP_CONSTANTS.MIN_CAPACITY, Math.floor(newCapacity), occupied),
+    ).fill(null);
+
+    for (const node of oldSlots) {
+      if (node) {
+        this.placeNode(node);
+      }
+    }
+  }
+
+  // Probe length of the entry in each slot (distance from home plus one)
+  protected *bucketLengths(): IterableIterator<number> {
+    for (let index = 0; index < this.slots.length; index++) {
+      const node = this.slots[index];
+      yield node ? this.probeDistance(node, index) + 1 : 0;
+    }
+  }
+
+  private homeOf(hash: number): number {
+    return hash % this.slots.length;
+  }
+
+  private probeDistance(node: HashmapNode<K, V>, index: number): number {
+    const capacity = this.slots.length;
+    return (index - this.homeOf(node.hash) + capacity) % capacity;
+  }
+
+  private findSlot(hash: number, key: K): number {
+    const capacity = this.slots.length;
+    let index = this.homeOf(hash);
+
+    for (let distance = 0; distance < capacity; distance++) {
+      const node = this.slots[index];
+      if (!node || this.probeDistance(node, index) < distance) {
+        return -1;
+      }
+      if (node.hash === hash && this.equalsFunction(node.key, key)) {
+        return index;
+      }
+      index = (index + 1) % capacity;
+    }
+
+    return -1;
+  }
+
+  private placeNode(node: HashmapNode<K, V>): void {
+    const capacity = this.slots.length;
+    let carried = node;
+    let index = this.homeOf(carried.hash);
+    let distance = 0;
+
+    for (;;) {
+      const resident = this.slots[index];
+      if (!resident) {
+        this.slots[index] = carried;
+        return;
+      }
+
+      const residentDistance = this.probeDistance(resident, index);
+      if (residentDistance < distance) {
+        this.slots[index] = carried;
+        carried = resident;
+        distance = residentDistance;
+      }
+
+      index = (index + 1) % capacity;
+      distance++;
+    }
+  }
+
+  private shiftBackFrom(index: number): void {
+    const capacity = this.slots.length;
+    let hole = index;
+
+    for (let shifted = 1; shifted < capacity; shifted++) {
+      const nextIndex = (hole + 1) % capacity;
+      const next = this.slots[nextIndex];
+
+      if (!next || this.probeDistance(next, nextIndex) === 0) {
+        break;
+      }
+
+      this.slots[hole] = next;
+      hole = nextIndex;
+    }
+
+    this.slots[hole] = null;
+  }
+}
@@ -0,0 +1,412 @@
+import { ConsistentHashRing } from './consistent-hash-ring';
+import { CustomHashmap } from './custom-hashmap';
+import { HashmapBatch } from './hashmap-batch';
+import { createHashmap } from './hashmap-factory';
+import { HashUtils } from './hash-utils';
+import {
+  Hashmap,
+  HashmapEvent,
+  HashmapImplementation,
+  HashmapListener,
+  HashmapOptions,
+  HashmapStats,
+  HASHMAP_CONSTANTS,
+  SetOptions,
+  ShardBalance,
+  ShardedHashmapOptions,
+  SnapshotOptions,
+} from './types';
+
+// Places keys by the same kind of hash the shards compute, so keys the shards
+// consider equal, such as structurally equal objects, share a shard. djb2 has
+// no per-process seed, so every process routes a key alike; the ring spreads
+// the result with its own fixed-key SipHash.
+function defaultShardKey<K>(options?: HashmapOptions<K, unknown>): (key: K) => string {
+  const hashFunction =
+    options?.hashFunction ??
+    (options?.keyEquality === 'structural'
+      ? (key: K) => HashUtils.structuralHash(key, 'djb2')
+      : undefined);
+  return key => String(HashUtils.hash(key, hashFunction, 'djb2'));
+}
+
+// Partitions entries across several hashmaps, routing every key through a
+// consistent-hash ring. Adding or removing a shard only moves the keys whose
+// owner changed, keeping their remaining TTL. Change events of all shards are
+// forwarded as if they came from one map; moves between shards are not
+// reported since the contents don't change, but evictions they cause are.
+export class ShardedHashmap<K, V> implements Hashmap<K, V> {
+  private readonly shards = new Map<string, Hashmap<K, V>>();
+  private readonly shardSubscriptions = new Map<string, () => void>();
+  private readonly ring: ConsistentHashRing;
+  private readonly implementation: HashmapImplementation;
+  private readonly shardOptions?: HashmapOptions<K, V>;
+  private readonly shardKey: (key: K) => string;
+  private listeners: Array<HashmapListener<K, V>> = [];
+  private sweepInterval: number | null = null;
+  private muted = false;
+  // Key whose delete and set are part of a move between shards
+  private moving: { key: K } | null = null;
+
+  constructor(options: ShardedHashmapOptions<K, V> = {}) {
+    this.ring = new ConsistentHashRing(options);
+    this.implementation = options.implementation ?? 'chaining';
+    this.shardOptions = options.shardOptions;
+    this.shardKey = options.shardKey ?? defaultShardKey(options.shardOptions);
+
+    const shards = options.shards ?? HASHMAP_CONSTANTS.DEFAULT_SHARD_COUNT;
+    const names =
+      typeof shards === 'number' ? Array.from({ length: shards }, (_, i) => `shard-${i}`) : shards;
+    if (names.length === 0) {
+      throw new Error('ShardedHashmap needs at least one shard');
+    }
+    for (const name of names) {
+      this.ring.addNode(name);
+      this.attachShard(name);
+    }
+  }
+
+  get size(): number {
+    return this.sum(shard => shard.size);
+  }
+
+  get capacity(): number {
+    return this.sum(shard => shard.capacity);
+  }
+
+  get totalBytes(): number {
+    return this.sum(shard => shard.totalBytes);
+  }
+
+  get shardNames(): string[] {
+    return this.ring.nodes;
+  }
+
+  shard(name: string): Hashmap<K, V> {
+    const shard = this.shards.get(name);
+    if (!shard) {
+      throw new Error(`Unknown shard: ${name}`);
+    }
+    return shard;
+  }
+
+  shardOf(key: K): string {
+    return this.ring.locate(this.shardKey(key));
+  }
+
+  // Returns the number of entries moved onto the new shard
+  addShard(name: string, weight = 1): number {
+    const existing = [...this.shards.keys()];
+    this.ring.addNode(name, weight);
+    this.attachShard(name);
+
+    return existing.reduce((moved, shardName) => moved + this.moveMisplaced(shardName), 0);
+  }
+
+  // Returns the number of entries moved off the removed shard
+  removeShard(name: string): number {
+    const shard = this.shard(name);
+    if (this.shards.size === 1) {
+      throw new Error('Cannot remove the last shard');
+    }
+
+    this.ring.removeNode(name);
+    const moved = this.moveMisplaced(name);
+    shard.stopSweeper();
+    this.shardSubscriptions.get(name)();
+    this.shardSubscriptions.delete(name);
+    this.shards.delete(name);
+    return moved;
+  }
+
+  // Entries per shard next to the share of the hash space each one owns; a
+  // share far from its ownership points at a skewed key distribution
+  balance(): ShardBalance[] {
+    const total = this.size;
+    const ownership = this.ring.ownership();
+
+    return [...this.shards].map(([shard, hashmap]) => ({
+      shard,
+      size: hashmap.size,
+      share: total === 0 ? 0 : hashmap.size / total,
+      ownership: ownership[shard],
+    }));
+  }
+
+  set(key: K, value: V, options?: SetOptions): void {
+    this.route(key).set(key, value, options);
+  }
+
+  get(key: K): V | undefined {
+    return this.route(key).get(key);
+  }
+
+  getOrDefault(key: K, defaultValue: V): V {
+    return this.route(key).getOrDefault(key, defaultValue);
+  }
+
+  has(key: K): boolean {
+    return this.route(key).has(key);
+  }
+
+  delete(key: K): boolean {
+    return this.route(key).delete(key);
+  }
+
+  putIfAbsent(key: K, value: V): V | undefined {
+    return this.route(key).putIfAbsent(key, value);
+  }
+
+  replace(key: K, expected: V, next: V): boolean {
+    return this.route(key).replace(key, expected, next);
+  }
+
+  compute(key: K, remapping: (key: K, value: V | undefined) => V | undefined): V | undefined {
+    return this.route(key).compute(key, remapping);
+  }
+
+  computeIfAbsent(key: K, mapping: (key: K) => V | undefined): V | undefined {
+    return this.route(key).computeIfAbsent(key, mapping);
+  }
+
+  computeIfPresent(key: K, remapping: (key: K, value: V) => V | undefined): V | undefined {
+    return this.route(key).computeIfPresent(key, remapping);
+  }
+
+  merge(key: K, value: V, remapping: (oldValue: V, value: V) => V | undefined): V | undefined {
+    return this.route(key).merge(key, value, remapping);
+  }
+
+  getRemainingTtl(key: K): number | undefined {
+    return this.route(key).getRemainingTtl(key);
+  }
+
+  clear(): void {
+    this.silently(() => this.shards.forEach(shard => shard.clear()));
+    this.emit({ type: 'clear' });
+  }
+
+  *keys(): IterableIterator<K> {
+    for (const shard of this.shards.values()) {
+      yield* shard.keys();
+    }
+  }
+
+  *values(): IterableIterator<V> {
+    for (const shard of this.shards.values()) {
+      yield* shard.values();
+    }
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    for (const shard of this.shards.values()) {
+      yield* shard.entries();
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  forEach(callback: (value: V, key: K) => void): void {
+    for (const [key, value] of this.entries()) {
+      callback(value, key);
+    }
+  }
+
+  purgeExpired(): number {
+    return this.sum(shard => shard.purgeExpired());
+  }
+
+  startSweeper(interval: number): void {
+    this.shards.forEach(shard => shard.startSweeper(interval));
+    this.sweepInterval = interval;
+  }
+
+  stopSweeper(): void {
+    this.shards.forEach(shard => shard.stopSweeper());
+    this.sweepInterval = null;
+  }
+
+  // Written as a single snapshot, so it can be loaded with any shard layout
+  async saveSnapshot(filePath: string, options?: SnapshotOptions<K, V>): Promise<void> {
+    const combined = new CustomHashmap<K, V>(this.keyOptions());
+    for (const shard of this.shards.values()) {
+      this.copyEntries(shard, combined);
+    }
+    await combined.saveSnapshot(filePath, options);
+  }
+
+  async loadSnapshot(filePath: string, options?: SnapshotOptions<K, V>): Promise<number> {
+    const combined = new CustomHashmap<K, V>(this.keyOptions());
+    await combined.loadSnapshot(filePath, options);
+
+    this.clear();
+    this.copyEntries(combined, this);
+    return this.size;
+  }
+
+  trimToSize(): void {
+    this.shards.forEach(shard => shard.trimToSize());
+  }
+
+  compact(): void {
+    this.shards.forEach(shard => shard.compact());
+  }
+
+  // Totals over all shards; see balance() for the per-shard split
+  stats(): HashmapStats {
+    const bucketOccupancy: Record<number, number> = {};
+    let size = 0;
+    let capacity = 0;
+    let longestChain = 0;
+    let resizeCount = 0;
+    let hits = 0;
+    let misses = 0;
+    let maxLoadFactor = 0;
+    let bytes = 0;
+    let maxBytes: number | null = 0;
+
+    for (const shard of this.shards.values()) {
+      const stats = shard.stats();
+      size += stats.size;
+      capacity += stats.capacity;
+      longestChain = Math.max(longestChain, stats.longestChain);
+      resizeCount += stats.resizeCount;
+      hits += stats.hits;
+      misses += stats.misses;
+      maxLoadFactor = Math.max(maxLoadFactor, stats.maxLoadFactor);
+      bytes += stats.bytes;
+      // The combined budget only exists when every shard has one
+      maxBytes = maxBytes === null || stats.maxBytes === null ? null : maxBytes + stats.maxBytes;
+      for (const [length, count] of Object.entries(stats.bucketOccupancy)) {
+        bucketOccupancy[Number(length)] = (bucketOccupancy[Number(length)] ?? 0) + count;
+      }
+    }
+
+    const lookups = hits + misses;
+    return {
+      size,
+      capacity,
+      loadFactor: capacity === 0 ? 0 : size / capacity,
+      maxLoadFactor,
+      bucketOccupancy,
+      longestChain,
+      resizeCount,
+      hits,
+      misses,
+      hitRate: lookups === 0 ? 0 : hits / lookups,
+      bytes,
+      maxBytes,
+    };
+  }
+
+  subscribe(listener: HashmapListener<K, V>): () => void {
+    this.listeners = [...this.listeners, listener];
+    return () => {
+      this.listeners = this.listeners.filter(current => current !== listener);
+    };
+  }
+
+  batch(): HashmapBatch<K, V> {
+    return new HashmapBatch(this);
+  }
+
+  private attachShard(name: string): void {
+    const shard = createHashmap<K, V>(this.implementation, this.shardOptions);
+    if (this.sweepInterval !== null) {
+      shard.startSweeper(this.sweepInterval);
+    }
+    this.shards.set(name, shard);
+    this.shardSubscriptions.set(
+      name,
+      shard.subscribe(event => {
+        if (!this.muted && !this.isMove(event)) {
+          this.emit(event);
+        }
+      }),
+    );
+  }
+
+  private route(key: K): Hashmap<K, V> {
+    return this.shards.get(this.shardOf(key));
+  }
+
+  // Moves every entry of the named shard that the ring now places elsewhere
+  private moveMisplaced(name: string): number {
+    const source = this.shards.get(name);
+    let moved = 0;
+
+    for (const [key, value] of [...source.entries()]) {
+      const target = this.shardOf(key);
+      if (target === name) {
+        continue;
+      }
+      // Expiring here is reported like any other expiry
+      const ttl = source.getRemainingTtl(key);
+      if (ttl === undefined) {
+        continue;
+      }
+      this.moving = { key };
+      try {
+        source.delete(key);
+        this.shards.get(target).set(key, value, { ttl });
+      } finally {
+        this.moving = null;
+      }
+      moved++;
+    }
+    return moved;
+  }
+
+  private isMove(event: HashmapEvent<K, V>): boolean {
+    return (
+      this.moving !== null &&
+      event.key === this.moving.key &&
+      (event.type === 'delete' || event.type === 'set')
+    );
+  }
+
+  // Copies entries with their remaining TTL, skipping ones that expired
+  private copyEntries(source: Hashmap<K, V>, target: Hashmap<K, V>): void {
+    for (const [key, value] of [...source.entries()]) {
+      const ttl = source.getRemainingTtl(key);
+      if (ttl !== undefined) {
+        target.set(key, value, { ttl });
+      }
+    }
+  }
+
+  private keyOptions(): HashmapOptions<K, V> {
+    return {
+      hashFunction: this.shardOptions?.hashFunction,
+      hashAlgorithm: this.shardOptions?.hashAlgorithm,
+      keyEquality: this.shardOptions?.keyEquality,
+      equalsFunction: this.shardOptions?.equalsFunction,
+    };
+  }
+
+  private silently(work: () => void): void {
+    const wasMuted = this.muted;
+    this.muted = true;
+    try {
+      work();
+    } finally {
+      this.muted = wasMuted;
+    }
+  }
+
+  private emit(event: HashmapEvent<K, V>): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private sum(measure: (shard: Hashmap<K, V>) => number): number {
+    let total = 0;
+    for (const shard of this.shards.values()) {
+      total += measure(shard);
+    }
+    return total;
+  }
+}
@@ -0,0 +1,79 @@
+import { HASHMAP_CONSTANTS, SizeEstimator } from './types';
+
+const {
+  STRING_BYTES_PER_CHAR,
+  NUMBER_BYTES,
+  BOOLEAN_BYTES,
+  REFERENCE_BYTES,
+  OBJECT_OVERHEAD_BYTES,
+} = HASHMAP_CONSTANTS;
+
+// Rough heap footprint of a value: strings at two bytes per character, numbers
+// as doubles, and objects, arrays, maps and sets as a header plus one
+// reference per slot and whatever the slots hold. Objects reachable more than
+// once, including through cycles, are only counted the first time. Meant for
+// budgeting the cache, not as an exact measurement; V8 stores ASCII strings in
+// one byte per character and shares property names between objects of the
+// same shape.
+export function estimateSize(value: unknown, seen = new WeakSet<object>()): number {
+  switch (typeof value) {
+    case 'string':
+      return value.length * STRING_BYTES_PER_CHAR;
+    case 'number':
+      return NUMBER_BYTES;
+    case 'boolean':
+      return BOOLEAN_BYTES;
+    case 'bigint':
+      return NUMBER_BYTES * Math.ceil(value.toString(16).length / 16) + NUMBER_BYTES;
+    case 'object':
+      return value === null ? 0 : estimateObject(value, seen);
+    default:
+      // undefined, symbols and functions only cost the slot holding them
+      return 0;
+  }
+}
+
+function estimateObject(value: object, seen: WeakSet<object>): number {
+  if (seen.has(value)) {
+    return 0;
+  }
+  seen.add(value);
+
+  if (value instanceof Date) {
+    return OBJECT_OVERHEAD_BYTES + NUMBER_BYTES;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return OBJECT_OVERHEAD_BYTES + value.byteLength;
+  }
+
+  let bytes = OBJECT_OVERHEAD_BYTES;
+  const slot = (item: unknown): void => {
+    bytes += REFERENCE_BYTES + estimateSize(item, seen);
+  };
+
+  if (Array.isArray(value) || value instanceof Set) {
+    for (const item of value as Iterable<unknown>) {
+      slot(item);
+    }
+  } else if (value instanceof Map) {
+    for (const [key, item] of value as Map<unknown, unknown>) {
+      slot(key);
+      slot(item);
+    }
+  } else {
+    for (const [key, item] of Object.entries(value)) {
+      slot(key);
+      slot(item);
+    }
+  }
+  return bytes;
+}
+
+// Used when no sizeEstimator is given; counts the key as well as the value
+export const defaultSizeEstimator: SizeEstimator<unknown, unknown> = (key, value) =>
+  estimateSize(key) + estimateSize(value);
+
+// UTF-8 length of the JSON encoding, i.e. roughly what an entry adds to a
+// snapshot file or a response body
+export const jsonSizeEstimator: SizeEstimator<unknown, unknown> = (key, value) =>
+  Buffer.byteLength(JSON.stringify(key) ?? '') + Buffer.byteLength(JSON.stringify(value) ?? '');
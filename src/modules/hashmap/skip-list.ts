@@ -0,0 +1,174 @@
+import { defaultCompare } from './tree-bin';
+import { CompareFunction, HASHMAP_CONSTANTS, RangeOptions } from './types';
+
+interface SkipNode<T> {
+  value: T;
+  // next[i] is the following node on level i
+  next: Array<SkipNode<T> | null>;
+}
+
+// Sorted set backed by a skip list. Every node sits on level 0 and on each
+// higher level with probability SKIP_LIST_PROBABILITY, giving O(log n)
+// expected lookups, inserts and deletes and cheap ordered iteration from any
+// starting point.
+export class SkipList<T> {
+  private readonly head: SkipNode<T> = { value: undefined, next: [] };
+  private level = 0;
+  private count = 0;
+
+  constructor(
+    private readonly compare: CompareFunction<T> = defaultCompare,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  has(value: T): boolean {
+    const node = this.ceilingNode(value, true);
+    return node !== null && this.compare(node.value, value) === 0;
+  }
+
+  // Returns false when an equal value is already present
+  add(value: T): boolean {
+    const update = this.predecessors(value);
+    const found = update[0].next[0];
+    if (found && this.compare(found.value, value) === 0) {
+      return false;
+    }
+
+    const height = this.randomHeight();
+    const node: SkipNode<T> = { value, next: new Array<SkipNode<T> | null>(height) };
+    for (let i = 0; i < height; i++) {
+      const prev = update[i] ?? this.head;
+      node.next[i] = prev.next[i] ?? null;
+      prev.next[i] = node;
+    }
+
+    this.level = Math.max(this.level, height);
+    this.count++;
+    return true;
+  }
+
+  delete(value: T): boolean {
+    const update = this.predecessors(value);
+    const target = update[0].next[0];
+    if (!target || this.compare(target.value, value) !== 0) {
+      return false;
+    }
+
+    for (let i = 0; i < target.next.length; i++) {
+      update[i].next[i] = target.next[i];
+    }
+    while (this.level > 0 && !this.head.next[this.level - 1]) {
+      this.level--;
+    }
+
+    this.count--;
+    return true;
+  }
+
+  clear(): void {
+    this.head.next = [];
+    this.level = 0;
+    this.count = 0;
+  }
+
+  first(): T | undefined {
+    return this.head.next[0]?.value;
+  }
+
+  last(): T | undefined {
+    let node = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i]) {
+        node = node.next[i];
+      }
+    }
+    return node === this.head ? undefined : node.value;
+  }
+
+  values(): IterableIterator<T> {
+    return this.iterateFrom(this.head.next[0] ?? null, () => true);
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.values();
+  }
+
+  // Values between from and to in ascending order; a missing bound is open
+  range(from?: T, to?: T, options: RangeOptions = {}): IterableIterator<T> {
+    const { fromInclusive = true, toInclusive = false } = options;
+    const start =
+      from === undefined ? (this.head.next[0] ?? null) : this.ceilingNode(from, fromInclusive);
+
+    return this.iterateFrom(start, value => {
+      if (to === undefined) {
+        return true;
+      }
+      const order = this.compare(value, to);
+      return toInclusive ? order <= 0 : order < 0;
+    });
+  }
+
+  // Values from the first one at or after start for as long as accept holds,
+  // which is how prefix scans stop without knowing the upper bound up front
+  *scanFrom(start: T, accept: (value: T) => boolean): IterableIterator<T> {
+    yield* this.iterateFrom(this.ceilingNode(start, true), accept);
+  }
+
+  private *iterateFrom(
+    node: SkipNode<T> | null,
+    accept: (value: T) => boolean,
+  ): IterableIterator<T> {
+    while (node && accept(node.value)) {
+      const next = node.next[0] ?? null;
+      yield node.value;
+      node = next;
+    }
+  }
+
+  // The last node before value on every level in use
+  private predecessors(value: T): SkipNode<T>[] {
+    const update: SkipNode<T>[] = [];
+    let node = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i] && this.compare(node.next[i].value, value) < 0) {
+        node = node.next[i];
+      }
+      update[i] = node;
+    }
+    if (this.level === 0) {
+      update[0] = this.head;
+    }
+    return update;
+  }
+
+  // First node >= value, or > value when inclusive is false
+  private ceilingNode(value: T, inclusive: boolean): SkipNode<T> | null {
+    let node = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i] && this.isBefore(node.next[i].value, value, inclusive)) {
+        node = node.next[i];
+      }
+    }
+    return node.next[0] ?? null;
+  }
+
+  private isBefore(candidate: T, value: T, inclusive: boolean): boolean {
+    const order = this.compare(candidate, value);
+    return inclusive ? order < 0 : order <= 0;
+  }
+
+  private randomHeight(): number {
+    let height = 1;
+    while (
+      height < HASHMAP_CONSTANTS.SKIP_LIST_MAX_LEVEL &&
+      this.random() < HASHMAP_CONSTANTS.SKIP_LIST_PROBABILITY
+    ) {
+      height++;
+    }
+    return height;
+  }
+}
@@ -0,0 +1,86 @@
+import { SkipList } from './skip-list';
+import { Hashmap, HashmapEvent, RangeOptions } from './types';
+
+// Keeps the string keys of a hashmap in sorted order so it can answer prefix
+// scans and range queries, which hashing alone cannot do without a full scan.
+// Keys are compared by UTF-16 code unit, so every key sharing a prefix sits in
+// one contiguous run.
+export class SortedKeyIndex<V> {
+  private readonly keyList = new SkipList<string>();
+  private readonly unsubscribe: () => void;
+
+  constructor(private readonly hashmap: Hashmap<string, V>) {
+    for (const key of hashmap.keys()) {
+      this.keyList.add(key);
+    }
+    this.unsubscribe = hashmap.subscribe(event => this.handle(event));
+  }
+
+  get size(): number {
+    return this.keyList.size;
+  }
+
+  // Every key in ascending order
+  keys(): IterableIterator<string> {
+    return this.keyList.values();
+  }
+
+  keysWithPrefix(prefix: string): IterableIterator<string> {
+    return this.keyList.scanFrom(prefix, key => key.startsWith(prefix));
+  }
+
+  // Entries go through hashmap.get(), so expired entries are dropped on the way
+  *entriesWithPrefix(prefix: string): IterableIterator<[string, V]> {
+    yield* this.withValues(this.keysWithPrefix(prefix));
+  }
+
+  range(from?: string, to?: string, options?: RangeOptions): IterableIterator<string> {
+    return this.keyList.range(from, to, options);
+  }
+
+  *entriesInRange(
+    from?: string,
+    to?: string,
+    options?: RangeOptions,
+  ): IterableIterator<[string, V]> {
+    yield* this.withValues(this.range(from, to, options));
+  }
+
+  first(): string | undefined {
+    return this.keyList.first();
+  }
+
+  last(): string | undefined {
+    return this.keyList.last();
+  }
+
+  // Stops following the hashmap; the index keeps its last state
+  close(): void {
+    this.unsubscribe();
+  }
+
+  private *withValues(keys: IterableIterator<string>): IterableIterator<[string, V]> {
+    for (const key of keys) {
+      const value = this.hashmap.get(key);
+      if (value !== undefined) {
+        yield [key, value];
+      }
+    }
+  }
+
+  private handle(event: HashmapEvent<string, V>): void {
+    switch (event.type) {
+      case 'set':
+        this.keyList.add(event.key);
+        break;
+      case 'delete':
+      case 'evict':
+      case 'expire':
+        this.keyList.delete(event.key);
+        break;
+      case 'clear':
+        this.keyList.clear();
+        break;
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import { CompareFunction, EqualsFunction, HashmapNode } from './types';
+
+interface TreeNode<K, V> {
+  hash: number;
+  // Entries whose hash and comparator result are both equal share a tree node
+  // and are told apart by the equals function.
+  entries: Array<HashmapNode<K, V>>;
+  left: TreeNode<K, V> | null;
+  right: TreeNode<K, V> | null;
+  height: number;
+}
+
+export function defaultCompare<K>(a: K, b: K): number {
+  const typeA = typeof a;
+  const typeB = typeof b;
+
+  if (typeA !== typeB) {
+    return typeA < typeB ? -1 : 1;
+  }
+
+  switch (typeA) {
+    case 'string':
+    case 'number':
+    case 'bigint':
+    case 'boolean':
+      return a < b ? -1 : a > b ? 1 : 0;
+    default:
+      return 0;
+  }
+}
+
+// AVL tree that replaces an overly long bucket chain. Entries are ordered by
+// hash first and by the comparator second, keeping lookups O(log n) even when
+// many keys land in the same bucket.
+export class TreeBin<K, V> {
+  private root: TreeNode<K, V> | null = null;
+  private _size = 0;
+  private removedNode: HashmapNode<K, V> | null = null;
+
+  constructor(
+    private readonly equalsFunction: EqualsFunction<K>,
+    private readonly compareFunction: CompareFunction<K>,
+  ) {}
+
+  get size(): number {
+    return this._size;
+  }
+
+  get depth(): number {
+    return this.root?.height ?? 0;
+  }
+
+  find(hash: number, key: K): HashmapNode<K, V> | null {
+    let current = this.root;
+
+    while (current) {
+      const order = this.order(hash, key, current);
+      if (order === 0) {
+        return current.entries.find(entry => this.equalsFunction(entry.key, key)) ?? null;
+      }
+      current = order < 0 ? current.left : current.right;
+    }
+
+    return null;
+  }
+
+  insert(node: HashmapNode<K, V>): void {
+    node.next = null;
+    this.root = this.insertAt(this.root, node);
+    this._size++;
+  }
+
+  remove(hash: number, key: K): HashmapNode<K, V> | null {
+    this.removedNode = null;
+    this.root = this.removeAt(this.root, hash, key);
+
+    const removed = this.removedNode;
+    this.removedNode = null;
+    if (removed) {
+      this._size--;
+    }
+    return removed;
+  }
+
+  *nodes(): IterableIterator<HashmapNode<K, V>> {
+    const stack: Array<TreeNode<K, V>> = [];
+    let current = this.root;
+
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = current.left;
+      }
+      const visited = stack.pop();
+      yield* visited.entries;
+      current = visited.right;
+    }
+  }
+
+  private order(hash: number, key: K, treeNode: TreeNode<K, V>): number {
+    if (hash !== treeNode.hash) {
+      return hash < treeNode.hash ? -1 : 1;
+    }
+    return this.compareFunction(key, treeNode.entries[0].key);
+  }
+
+  private insertAt(treeNode: TreeNode<K, V> | null, node: HashmapNode<K, V>): TreeNode<K, V> {
+    if (!treeNode) {
+      return { hash: node.hash, entries: [node], left: null, right: null, height: 1 };
+    }
+
+    const order = this.order(node.hash, node.key, treeNode);
+    if (order === 0) {
+      treeNode.entries.push(node);
+      return treeNode;
+    }
+
+    if (order < 0) {
+      treeNode.left = this.insertAt(treeNode.left, node);
+    } else {
+      treeNode.right = this.insertAt(treeNode.right, node);
+    }
+    return this.rebalance(treeNode);
+  }
+
+  private removeAt(treeNode: TreeNode<K, V> | null, hash: number, key: K): TreeNode<K, V> | null {
+    if (!treeNode) {
+      return null;
+    }
+
+    const order = this.order(hash, key, treeNode);
+    if (order < 0) {
+      treeNode.left = this.removeAt(treeNode.left, hash, key);
+      return this.rebalance(treeNode);
+    }
+    if (order > 0) {
+      treeNode.right = this.removeAt(treeNode.right, hash, key);
+      return this.rebalance(treeNode);
+    }
+
+    const index = treeNode.entries.findIndex(entry => this.equalsFunction(entry.key, key));
+    if (index === -1) {
+      return treeNode;
+    }
+
+    this.removedNode = treeNode.entries[index];
+    treeNode.entries.splice(index, 1);
+
+    if (treeNode.entries.length > 0) {
+      return treeNode;
+    }
+    if (!treeNode.left) {
+      return treeNode.right;
+    }
+    if (!treeNode.right) {
+      return treeNode.left;
+    }
+
+    let successor = treeNode.right;
+    while (successor.left) {
+      successor = successor.left;
+    }
+    successor.right = this.removeMin(treeNode.right);
+    successor.left = treeNode.left;
+    return this.rebalance(successor);
+  }
+
+  private removeMin(treeNode: TreeNode<K, V>): TreeNode<K, V> | null {
+    if (!treeNode.left) {
+      return treeNode.right;
+    }
+    treeNode.left = this.removeMin(treeNode.left);
+    return this.rebalance(treeNode);
+  }
+
+  private rebalance(treeNode: TreeNode<K, V>): TreeNode<K, V> {
+    this.updateHeight(treeNode);
+    const balance = this.heightOf(treeNode.left) - this.heightOf(treeNode.right);
+
+    if (balance > 1) {
+      if (this.heightOf(treeNode.left.left) < this.heightOf(treeNode.left.right)) {
+        treeNode.left = this.rotateLeft(treeNode.left);
+      }
+      return this.rotateRight(treeNode);
+    }
+
+    if (balance < -1) {
+      if (this.heightOf(treeNode.right.right) < this.heightOf(treeNode.right.left)) {
+        treeNode.right = this.rotateRight(treeNode.right);
+      }
+      return this.rotateLeft(treeNode);
+    }
+
+    return treeNode;
+  }
+
+  private rotateLeft(treeNode: TreeNode<K, V>): TreeNode<K, V> {
+    const pivot = treeNode.right;
+    treeNode.right = pivot.left;
+    pivot.left = treeNode;
+    this.updateHeight(treeNode);
+    this.updateHeight(pivot);
+    return pivot;
+  }
+
+  private rotateRight(treeNode: TreeNode<K, V>): TreeNode<K, V> {
+    const pivot = treeNode.left;
+    treeNode.left = pivot.right;
+    pivot.right = treeNode;
+    this.updateHeight(treeNode);
+    this.updateHeight(pivot);
+    return pivot;
+  }
+
+  private updateHeight(treeNode: TreeNode<K, V>): void {
+    treeNode.height = 1 + Math.max(this.heightOf(treeNode.left), this.heightOf(treeNode.right));
+  }
+
+  private heightOf(treeNode: TreeNode<K, V> | null): number {
+    return treeNode?.height ?? 0;
+  }
+}
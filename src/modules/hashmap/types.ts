@@ -2,26 +2,365 @@ export type HashFunction<K> = (key: K) => number;
 
 export type EqualsFunction<K> = (a: K, b: K) => boolean;
 
-export interface HashmapOptions<K> {
+export type HashAlgorithm = 'siphash' | 'djb2';
+
+export type KeyEquality = 'sameValueZero' | 'structural';
+
+export type CompareFunction<K> = (a: K, b: K) => number;
+
+export type EvictionPolicyName = 'lru' | 'lfu' | 'fifo';
+
+export type HashmapImplementation = 'chaining' | 'robin-hood';
+
+export type InvalidationBusKind = 'none' | 'process' | 'postgres';
+
+export type EvictionListener<K, V> = (key: K, value: V) => void;
+
+export type HashmapEventType = 'set' | 'update' | 'delete' | 'evict' | 'expire' | 'clear';
+
+// key is absent for 'clear'; oldValue is absent for 'set', newValue is only
+// present for 'set' and 'update'.
+export interface HashmapEvent<K, V> {
+  type: HashmapEventType;
+  key?: K;
+  oldValue?: V;
+  newValue?: V;
+}
+
+export type HashmapListener<K, V> = (event: HashmapEvent<K, V>) => void;
+
+export type SizeEstimator<K, V> = (key: K, value: V) => number;
+
+export interface EvictionPolicy<K, V> {
+  recordInsert(node: HashmapNode<K, V>): void;
+  recordAccess(node: HashmapNode<K, V>): void;
+  recordRemoval(node: HashmapNode<K, V>): void;
+  selectVictim(exclude?: HashmapNode<K, V>): HashmapNode<K, V> | null;
+  clear(): void;
+}
+
+export interface HashmapOptions<K, V = unknown> {
   initialCapacity?: number;
   loadFactor?: number;
+  minLoadFactor?: number;
   hashFunction?: HashFunction<K>;
+  hashAlgorithm?: HashAlgorithm;
+  keyEquality?: KeyEquality;
   equalsFunction?: EqualsFunction<K>;
+  compareFunction?: CompareFunction<K>;
+  defaultTtl?: number;
+  sweepInterval?: number;
+  maxEntries?: number;
+  // Byte budget measured with sizeEstimator; exceeding it evicts entries
+  maxBytes?: number;
+  // Defaults to defaultSizeEstimator
+  sizeEstimator?: SizeEstimator<K, V>;
+  evictionPolicy?: EvictionPolicyName | EvictionPolicy<K, V>;
+  onEvict?: EvictionListener<K, V>;
+}
+
+// Options for a map registered through HashmapModule.forRoot; forRoot values
+// take precedence over the HASHMAP_* environment settings.
+export interface HashmapModuleOptions<K = unknown, V = unknown> extends HashmapOptions<K, V> {
+  implementation?: HashmapImplementation;
+  // Overrides HASHMAP_INVALIDATION_BUS; only read by forRoot
+  invalidationBus?: InvalidationBusKind;
+}
+
+export interface HashmapFeatureOptions<K = unknown, V = unknown>
+  extends HashmapModuleOptions<K, V> {
+  name: string;
+}
+
+export type Loader<K, V> = (key: K) => Promise<V | null | undefined>;
+
+export interface LoadingHashmapOptions {
+  // How long a key the loader could not find is answered without reloading; 0 disables it
+  negativeTtl?: number;
+  // Must match the equality of the wrapped map
+  keyEquality?: KeyEquality;
+}
+
+// Hashing and table options shared by CustomHashSet and CustomMultiMap
+export type HashCollectionOptions<T> = Pick<
+  HashmapOptions<T>,
+  | 'initialCapacity'
+  | 'loadFactor'
+  | 'minLoadFactor'
+  | 'hashFunction'
+  | 'hashAlgorithm'
+  | 'keyEquality'
+  | 'equalsFunction'
+  | 'compareFunction'
+>;
+
+// Key hashing and equality options of PersistentHashmap
+export type PersistentHashmapOptions<K> = Pick<
+  HashmapOptions<K>,
+  'hashFunction' | 'hashAlgorithm' | 'keyEquality' | 'equalsFunction'
+>;
+
+// Returns the value an entry is filed under in a secondary index; undefined
+// and null leave the entry out of that index.
+export type IndexExtractor<K, V> = (value: V, key: K) => unknown;
+
+export interface SetLike<T> {
+  has(value: T): boolean;
+}
+
+export interface BloomFilterOptions {
+  // Keys the first slice is sized for before the filter grows
+  expectedItems?: number;
+  // Target false-positive rate for the filter as a whole
+  falsePositiveRate?: number;
+  growthFactor?: number;
+  tighteningRatio?: number;
+  // Fixed hashing keys; a random pair is drawn when omitted
+  seed?: [number, number];
+}
+
+export interface SerializedBloomFilter {
+  format: string;
+  version: number;
+  expectedItems: number;
+  falsePositiveRate: number;
+  growthFactor: number;
+  tighteningRatio: number;
+  seed: [number, number];
+  slices: Array<{
+    capacity: number;
+    hashCount: number;
+    bitCount: number;
+    count: number;
+    // Base64 encoded bit array
+    bits: string;
+  }>;
+}
+
+export interface HashRingOptions {
+  // Points each node of weight 1 gets on the ring
+  virtualNodes?: number;
+  // Keys for placing nodes and keys; fixed by default so every process agrees
+  seed?: [number, number];
+}
+
+export interface ShardedHashmapOptions<K, V> extends HashRingOptions {
+  // Shard names, or a count for shards named shard-0, shard-1, ...
+  shards?: number | string[];
+  implementation?: HashmapImplementation;
+  // Options for every shard; limits like maxEntries apply per shard
+  shardOptions?: HashmapOptions<K, V>;
+  // String a key is placed on the ring by; keys that are equal under
+  // shardOptions must map to the same string, and every process should map a
+  // key alike. Defaults to an unseeded hash of the kind the shards use.
+  shardKey?: (key: K) => string;
+}
+
+export interface ShardBalance {
+  shard: string;
+  size: number;
+  // Fraction of all entries held by the shard
+  share: number;
+  // Fraction of the ring's hash space the shard owns
+  ownership: number;
+}
+
+// Keys are encoded so every process decodes them the same way; channel
+// separates caches sharing one bus
+export interface InvalidationMessage {
+  origin: string;
+  channel: string;
+  type: 'invalidate' | 'clear';
+  key?: string;
+}
+
+export type InvalidationHandler = (message: InvalidationMessage) => void;
+
+export interface InvalidationBus {
+  publish(message: InvalidationMessage): Promise<void>;
+  // Returns a function that removes the handler
+  subscribe(handler: InvalidationHandler): () => void;
+  close(): Promise<void>;
+}
+
+export interface CacheInvalidatorOptions<K> {
+  channel?: string;
+  keyCodec?: SnapshotCodec<K>;
+}
+
+// Called with the key a peer invalidated, or undefined when it cleared
+export type InvalidationListener<K> = (key: K | undefined) => void;
+
+// Bounds default to a half-open range: from is included, to is not
+export interface RangeOptions {
+  fromInclusive?: boolean;
+  toInclusive?: boolean;
+}
+
+export interface MultiMapOptions<K, V> {
+  keys?: HashCollectionOptions<K>;
+  values?: HashCollectionOptions<V>;
+}
+
+export interface SetOptions {
+  ttl?: number;
+}
+
+// Anything a HashmapBatch can apply its staged writes to. The reads let a
+// failed commit put back what it overwrote; without getRemainingTtl, restored
+// entries get the target's default expiry.
+export interface BatchTarget<K, V> {
+  set(key: K, value: V, options?: SetOptions): void;
+  delete(key: K): unknown;
+  has(key: K): boolean;
+  get(key: K): V | undefined;
+  getRemainingTtl?(key: K): number | undefined;
+}
+
+export interface HashmapStats {
+  size: number;
+  capacity: number;
+  loadFactor: number;
+  maxLoadFactor: number;
+  // Number of buckets per chain length (probe length for open addressing);
+  // key 0 counts empty buckets.
+  bucketOccupancy: Record<number, number>;
+  longestChain: number;
+  resizeCount: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  // Estimated size of all live keys and values, see sizeEstimator
+  bytes: number;
+  // null when no byte budget is set
+  maxBytes: number | null;
+}
+
+export interface Hashmap<K, V> extends Iterable<[K, V]> {
+  readonly size: number;
+  readonly capacity: number;
+  readonly totalBytes: number;
+  set(key: K, value: V, options?: SetOptions): void;
+  get(key: K): V | undefined;
+  getOrDefault(key: K, defaultValue: V): V;
+  has(key: K): boolean;
+  delete(key: K): boolean;
+  // Like Java's Map, these treat a key mapped to undefined as absent and
+  // remove the entry when a remapping function returns undefined.
+  putIfAbsent(key: K, value: V): V | undefined;
+  replace(key: K, expected: V, next: V): boolean;
+  compute(key: K, remapping: (key: K, value: V | undefined) => V | undefined): V | undefined;
+  computeIfAbsent(key: K, mapping: (key: K) => V | undefined): V | undefined;
+  computeIfPresent(key: K, remapping: (key: K, value: V) => V | undefined): V | undefined;
+  merge(key: K, value: V, remapping: (oldValue: V, value: V) => V | undefined): V | undefined;
+  clear(): void;
+  keys(): IterableIterator<K>;
+  values(): IterableIterator<V>;
+  entries(): IterableIterator<[K, V]>;
+  forEach(callback: (value: V, key: K) => void): void;
+  getRemainingTtl(key: K): number | undefined;
+  purgeExpired(): number;
+  startSweeper(interval: number): void;
+  stopSweeper(): void;
+  saveSnapshot(filePath: string, options?: SnapshotOptions<K, V>): Promise<void>;
+  loadSnapshot(filePath: string, options?: SnapshotOptions<K, V>): Promise<number>;
+  trimToSize(): void;
+  compact(): void;
+  stats(): HashmapStats;
+  // Returns a function that removes the listener
+  subscribe(listener: HashmapListener<K, V>): () => void;
+}
+
+export interface SnapshotCodec<T> {
+  encode(value: T): string;
+  decode(encoded: string): T;
+}
+
+export interface SnapshotOptions<K, V> {
+  keyCodec?: SnapshotCodec<K>;
+  valueCodec?: SnapshotCodec<V>;
+}
+
+export interface SnapshotEntry<K, V> {
+  key: K;
+  value: V;
+  expiresAt?: number;
 }
 
 export interface HashmapNode<K, V> {
   key: K;
   value: V;
+  hash: number;
   next: HashmapNode<K, V> | null;
+  before?: HashmapNode<K, V> | null;
+  after?: HashmapNode<K, V> | null;
+  expiresAt?: number;
+  heapIndex?: number;
+  weight?: number;
+  policyPrev?: HashmapNode<K, V> | null;
+  policyNext?: HashmapNode<K, V> | null;
+  frequencyBucket?: FrequencyBucket<K, V> | null;
+}
+
+export interface FrequencyBucket<K, V> {
+  frequency: number;
+  head: HashmapNode<K, V> | null;
+  tail: HashmapNode<K, V> | null;
+  prev: FrequencyBucket<K, V> | null;
+  next: FrequencyBucket<K, V> | null;
 }
 
 export const HASHMAP_CONSTANTS = {
   DEFAULT_CAPACITY: 16,
   DEFAULT_LOAD_FACTOR: 0.75,
+  DEFAULT_MIN_LOAD_FACTOR: 0.2,
   RESIZE_MULTIPLIER: 2,
+  TREEIFY_THRESHOLD: 8,
+  UNTREEIFY_THRESHOLD: 6,
+  MIN_TREEIFY_CAPACITY: 64,
   MIN_CAPACITY: 1,
+  REHASH_BUCKETS_PER_STEP: 4,
+  REHASH_MAX_EMPTY_VISITS: 40,
   HASH_PRIME: 5381,
   HASH_MULTIPLIER: 33,
+  SIPHASH_INIT_V2: 0x6c796765,
+  SIPHASH_INIT_V3: 0x74656462,
+  SIPHASH_COMPRESSION_ROUNDS: 1,
+  SIPHASH_FINALIZATION_ROUNDS: 3,
   BOOLEAN_TRUE_HASH: 1231,
   BOOLEAN_FALSE_HASH: 1237,
+  NAN_HASH: 0x7ff80000,
+  ARRAY_HASH_TAG: 0x41525259,
+  OBJECT_HASH_TAG: 0x4f424a45,
+  MAP_HASH_TAG: 0x4d415021,
+  SET_HASH_TAG: 0x53455421,
+  CYCLE_HASH_TAG: 0x4359434c,
+  DEFAULT_CACHE_TTL: 60 * 60 * 1000,
+  DEFAULT_SWEEP_INTERVAL: 60 * 1000,
+  DEFAULT_MAX_ENTRIES: 100000,
+  DEFAULT_NEGATIVE_TTL: 30 * 1000,
+  SNAPSHOT_FORMAT: 'custom-hashmap-snapshot',
+  SNAPSHOT_VERSION: 1,
+  DEFAULT_SNAPSHOT_RETAIN: 3,
+  SKIP_LIST_MAX_LEVEL: 32,
+  SKIP_LIST_PROBABILITY: 0.5,
+  DEFAULT_BLOOM_EXPECTED_ITEMS: 1024,
+  DEFAULT_BLOOM_FALSE_POSITIVE_RATE: 0.01,
+  BLOOM_GROWTH_FACTOR: 2,
+  BLOOM_TIGHTENING_RATIO: 0.85,
+  BLOOM_FORMAT: 'scalable-bloom-filter',
+  BLOOM_VERSION: 2,
+  HAMT_BITS_PER_LEVEL: 5,
+  DEFAULT_VIRTUAL_NODES: 160,
+  DEFAULT_SHARD_COUNT: 4,
+  RING_SEED_K0: 0x9e3779b9,
+  RING_SEED_K1: 0x85ebca6b,
+  DEFAULT_INVALIDATION_CHANNEL: 'hashmap_invalidation',
+  INVALIDATION_IPC_TAG: 'hashmap:invalidation',
+  INVALIDATION_RECONNECT_DELAY: 1000,
+  STRING_BYTES_PER_CHAR: 2,
+  NUMBER_BYTES: 8,
+  BOOLEAN_BYTES: 4,
+  REFERENCE_BYTES: 8,
+  OBJECT_OVERHEAD_BYTES: 16,
 } as const;
@@ -58,7 +58,12 @@ describe('AttachmentsController', () => {
 
   const mockAttachmentsService = {
     registerFileToFolder: jest.fn(),
+    registerFilesToFolders: jest.fn(),
     buildDirectoryTree: jest.fn(),
+    listFolderContents: jest.fn(),
+    buildCachedDirectoryTree: jest.fn(),
+    exportAttachments: jest.fn(),
+    deleteAttachment: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -185,6 +190,34 @@ describe('AttachmentsController', () => {
     });
   });
 
+  describe('bulkUpload', () => {
+    it('should register all files together with their folder paths', async () => {
+      const files = [mockFile, { ...mockFile, originalname: 'second.jpg' }];
+      mockAttachmentsService.registerFilesToFolders.mockResolvedValue([
+        mockAttachmentResponse,
+        mockAttachmentResponse,
+      ]);
+
+      const result = await controller.bulkUpload(files, {
+        folderPaths: ['docs/contracts'],
+        productId: 'product-123',
+      });
+
+      expect(mockAttachmentsService.registerFilesToFolders).toHaveBeenCalledWith(
+        files,
+        'product-123',
+        ['docs/contracts', null],
+      );
+      expect(result).toHaveLength(2);
+    });
+
+    it('should propagate transaction failures', async () => {
+      mockAttachmentsService.registerFilesToFolders.mockRejectedValue(new Error('insert failed'));
+
+      await expect(controller.bulkUpload([mockFile], {})).rejects.toThrow('insert failed');
+    });
+  });
+
   describe('tree', () => {
     it('should return directory tree structure', async () => {
       mockAttachmentsService.buildDirectoryTree.mockResolvedValue(mockDirectoryTree);
@@ -259,6 +292,46 @@ describe('AttachmentsController', () => {
     });
   });
 
+  describe('tree from cache', () => {
+    it('should build the tree from the cache when asked to', async () => {
+      mockAttachmentsService.buildCachedDirectoryTree.mockResolvedValue(mockDirectoryTree);
+
+      await expect(controller.tree('cache')).resolves.toBe(mockDirectoryTree);
+      expect(mockAttachmentsService.buildDirectoryTree).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('export', () => {
+    it('should export attachments', async () => {
+      mockAttachmentsService.exportAttachments.mockResolvedValue([mockAttachmentResponse]);
+
+      await expect(controller.export()).resolves.toEqual([mockAttachmentResponse]);
+    });
+  });
+
+  describe('folder', () => {
+    it('should list folder contents for the requested path', async () => {
+      const contents = [
+        { name: 'contracts', path: '/project/uploads/docs/contracts', type: 'folder' as const },
+      ];
+      mockAttachmentsService.listFolderContents.mockResolvedValue(contents);
+
+      await expect(controller.folder('docs')).resolves.toBe(contents);
+      expect(mockAttachmentsService.listFolderContents).toHaveBeenCalledWith('docs');
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the attachment', async () => {
+      mockAttachmentsService.deleteAttachment.mockResolvedValue(undefined);
+
+      await expect(controller.remove(mockAttachmentResponse.id)).resolves.toBeUndefined();
+      expect(mockAttachmentsService.deleteAttachment).toHaveBeenCalledWith(
+        mockAttachmentResponse.id,
+      );
+    });
+  });
+
   describe('File Validation and Processing', () => {
     it('should handle different file types', async () => {
       const imageFile = { ...mockFile, mimetype: 'image/png', filename: 'image.png' };
@@ -0,0 +1,60 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Like } from 'typeorm';
+import { AttachmentsRepository } from '../../../../src/modules/attachments/attachments.repository';
+import { Attachment } from '../../../../src/database/entities/attachment.entity';
+
+describe('AttachmentsRepository', () => {
+  let repository: AttachmentsRepository;
+
+  const mockTypeormRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttachmentsRepository,
+        {
+          provide: getRepositoryToken(Attachment),
+          useValue: mockTypeormRepository,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<AttachmentsRepository>(AttachmentsRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findByPathPrefix', () => {
+    it('should match the prefix literally and skip deleted attachments', async () => {
+      mockTypeormRepository.find.mockResolvedValue([]);
+
+      await repository.findByPathPrefix('uploads/50%_off\\');
+
+      expect(mockTypeormRepository.find).toHaveBeenCalledWith({
+        where: { path: Like('uploads/50\\%\\_off\\\\%'), isDeleted: false },
+      });
+    });
+
+    it('should sort by code unit whatever order the database returns', async () => {
+      mockTypeormRepository.find.mockResolvedValue([
+        { path: 'uploads/docs/b.pdf' },
+        { path: 'uploads/docs/B.pdf' },
+        { path: 'uploads/docs/a.pdf' },
+      ]);
+
+      const result = await repository.findByPathPrefix('uploads/docs/');
+
+      expect(result.map(r => r.path)).toEqual([
+        'uploads/docs/B.pdf',
+        'uploads/docs/a.pdf',
+        'uploads/docs/b.pdf',
+      ]);
+    });
+  });
+});
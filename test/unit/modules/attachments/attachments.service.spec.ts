@@ -26,14 +26,22 @@ jest.mock('../../../../src/modules/attachments/attachments.repository', () => ({
 }));
 
 // Import after mocking
-import { AttachmentsService } from '../../../../src/modules/attachments/attachments.service';
+import {
+  AttachmentHashValue,
+  AttachmentsService,
+} from '../../../../src/modules/attachments/attachments.service';
 import { AttachmentsRepository } from '../../../../src/modules/attachments/attachments.repository';
+import { HashmapSnapshotService } from '../../../../src/modules/hashmap/hashmap-snapshot.service';
+import { ProcessInvalidationBus } from '../../../../src/modules/hashmap/invalidation-bus';
+import { Hashmap } from '../../../../src/modules/hashmap/types';
 
 // Mock fs module
 jest.mock('fs', () => ({
   promises: {
     mkdir: jest.fn(),
     readdir: jest.fn(),
+    rename: jest.fn(),
+    unlink: jest.fn(),
   },
 }));
 
@@ -68,9 +76,14 @@ describe('AttachmentsService', () => {
 
   const mockAttachmentsRepository = {
     findAllActive: jest.fn(),
+    findAllActivePaths: jest.fn(),
     findByPath: jest.fn(),
     findByProductId: jest.fn(),
+    findByPathPrefix: jest.fn(),
+    findById: jest.fn(),
+    softDelete: jest.fn(),
     create: jest.fn(),
+    transaction: jest.fn(),
   };
 
   const mockHashmap = {
@@ -79,6 +92,14 @@ describe('AttachmentsService', () => {
     has: jest.fn(),
     delete: jest.fn(),
     clear: jest.fn(),
+    purgeExpired: jest.fn(),
+    entries: jest.fn(() => [][Symbol.iterator]()),
+    keys: jest.fn(() => [][Symbol.iterator]()),
+    subscribe: jest.fn(() => () => undefined),
+  };
+
+  const mockHashmapSnapshots = {
+    restored: false,
   };
 
   beforeEach(async () => {
@@ -93,6 +114,10 @@ describe('AttachmentsService', () => {
           provide: 'CUSTOM_HASHMAP',
           useValue: mockHashmap,
         },
+        {
+          provide: HashmapSnapshotService,
+          useValue: mockHashmapSnapshots,
+        },
       ],
     }).compile();
 
@@ -130,6 +155,19 @@ describe('AttachmentsService', () => {
       );
     });
 
+    it('should skip the database bootstrap when a snapshot was restored', async () => {
+      mockHashmapSnapshots.restored = true;
+      mockAttachmentsRepository.findAllActivePaths.mockResolvedValue([]);
+      (fs.promises.mkdir as jest.Mock).mockResolvedValue(undefined);
+
+      await service.onModuleInit();
+
+      expect(mockAttachmentsRepository.findAllActive).not.toHaveBeenCalled();
+      expect(mockAttachmentsRepository.findAllActivePaths).toHaveBeenCalled();
+      expect(fs.promises.mkdir).toHaveBeenCalled();
+      mockHashmapSnapshots.restored = false;
+    });
+
     it('should handle mkdir errors gracefully', async () => {
       mockAttachmentsRepository.findAllActive.mockResolvedValue([]);
       (fs.promises.mkdir as jest.Mock).mockRejectedValue(new Error('Permission denied'));
@@ -192,6 +230,63 @@ describe('AttachmentsService', () => {
     });
   });
 
+  describe('registerFilesToFolders', () => {
+    const files = [
+      { ...mockFile, originalname: 'first.jpg' },
+      { ...mockFile, originalname: 'second.jpg' },
+    ];
+
+    beforeEach(() => {
+      (fs.promises.mkdir as jest.Mock).mockResolvedValue(undefined);
+      (fs.promises.rename as jest.Mock).mockResolvedValue(undefined);
+      (fs.promises.unlink as jest.Mock).mockResolvedValue(undefined);
+      mockAttachmentsRepository.transaction.mockImplementation(
+        (work: (repository: unknown) => Promise<unknown>) => work(mockAttachmentsRepository),
+      );
+    });
+
+    it('should save all files in one transaction and cache them after it commits', async () => {
+      mockAttachmentsRepository.create.mockImplementation((data: Partial<Attachment>) =>
+        Promise.resolve({ ...mockAttachment, ...data }),
+      );
+
+      const result = await service.registerFilesToFolders(files, 'product-123', ['docs', null]);
+
+      expect(mockAttachmentsRepository.transaction).toHaveBeenCalledTimes(1);
+      expect(mockAttachmentsRepository.create).toHaveBeenCalledTimes(2);
+      expect(result.map(r => r.originalName)).toEqual(['first.jpg', 'second.jpg']);
+      expect(result[0].path).toContain(path.join('uploads', 'docs'));
+      expect(mockHashmap.set).toHaveBeenCalledTimes(2);
+      expect(mockHashmap.set).toHaveBeenCalledWith(result[1].path, result[1]);
+    });
+
+    it('should not cache anything when the transaction fails', async () => {
+      mockAttachmentsRepository.create
+        .mockResolvedValueOnce(mockAttachment)
+        .mockRejectedValueOnce(new Error('insert failed'));
+
+      await expect(service.registerFilesToFolders(files, null)).rejects.toThrow('insert failed');
+
+      expect(mockAttachmentsRepository.create).toHaveBeenCalledTimes(2);
+      expect(mockHashmap.set).not.toHaveBeenCalled();
+    });
+
+    it('should remove files already moved when the transaction fails', async () => {
+      mockAttachmentsRepository.create
+        .mockResolvedValueOnce(mockAttachment)
+        .mockRejectedValueOnce(new Error('insert failed'));
+
+      await expect(service.registerFilesToFolders(files, null)).rejects.toThrow('insert failed');
+
+      const rename = fs.promises.rename as jest.Mock<Promise<void>, [string, string]>;
+      const moved = rename.mock.calls.map(([, target]) => target);
+      expect(moved).toHaveLength(2);
+      expect(fs.promises.unlink).toHaveBeenCalledTimes(2);
+      expect(fs.promises.unlink).toHaveBeenCalledWith(moved[0]);
+      expect(fs.promises.unlink).toHaveBeenCalledWith(moved[1]);
+    });
+  });
+
   describe('getByPath', () => {
     it('should return cached attachment from hashmap', async () => {
       const cachedAttachment = {
@@ -237,6 +332,105 @@ describe('AttachmentsService', () => {
         new NotFoundException('Attachment not found')
       );
     });
+
+    it('should query the repository once for concurrent misses', async () => {
+      mockHashmap.get.mockReturnValue(undefined);
+      mockAttachmentsRepository.findByPath.mockResolvedValue(mockAttachment);
+
+      const results = await Promise.all([
+        service.getByPath(mockAttachment.path),
+        service.getByPath(mockAttachment.path),
+      ]);
+
+      expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledTimes(1);
+      expect(results[0]).toBe(results[1]);
+    });
+
+    it('should not query the repository again for a recently missing path', async () => {
+      mockHashmap.get.mockReturnValue(undefined);
+      mockAttachmentsRepository.findByPath.mockResolvedValue(null);
+
+      await expect(service.getByPath('non-existent-path')).rejects.toThrow(NotFoundException);
+      await expect(service.getByPath('non-existent-path')).rejects.toThrow(NotFoundException);
+
+      expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledTimes(1);
+    });
+
+    describe('with an invalidation bus', () => {
+      let guarded: AttachmentsService;
+
+      beforeEach(() => {
+        guarded = new AttachmentsService(
+          mockAttachmentsRepository as unknown as AttachmentsRepository,
+          mockHashmap as unknown as Hashmap<string, AttachmentHashValue>,
+          mockHashmapSnapshots as unknown as HashmapSnapshotService,
+          new ProcessInvalidationBus({ on: jest.fn(), off: jest.fn() }),
+          { expectedItems: 16, falsePositiveRate: 0.001 },
+        );
+        mockHashmap.get.mockReturnValue(undefined);
+      });
+
+      it('should answer paths that were never registered without querying the repository', async () => {
+        mockAttachmentsRepository.findAllActive.mockResolvedValue([mockAttachment]);
+        mockAttachmentsRepository.findByPath.mockResolvedValue(mockAttachment);
+        await guarded.bootstrapHashmap();
+
+        await expect(guarded.getByPath('uploads/unknown.pdf')).rejects.toThrow(NotFoundException);
+        expect(mockAttachmentsRepository.findByPath).not.toHaveBeenCalled();
+
+        await expect(guarded.getByPath(mockAttachment.path)).resolves.toMatchObject({
+          id: mockAttachment.id,
+        });
+        expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledWith(mockAttachment.path);
+      });
+
+      it('should let paths registered after the bootstrap through to the repository', async () => {
+        mockAttachmentsRepository.findAllActive.mockResolvedValue([]);
+        mockAttachmentsRepository.create.mockResolvedValue(mockAttachment);
+        await guarded.bootstrapHashmap();
+        await guarded.registerFile(mockFile);
+        mockAttachmentsRepository.findByPath.mockResolvedValue(mockAttachment);
+
+        await guarded.getByPath(mockAttachment.path);
+
+        expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledWith(mockAttachment.path);
+      });
+
+      it('should rebuild the path filter from the database', async () => {
+        mockAttachmentsRepository.findAllActivePaths.mockResolvedValue(['uploads/a.pdf']);
+        mockAttachmentsRepository.findByPath.mockResolvedValue(null);
+        await guarded.rebuildKnownPaths();
+
+        await expect(guarded.getByPath('uploads/b.pdf')).rejects.toThrow(NotFoundException);
+        await expect(guarded.getByPath('uploads/a.pdf')).rejects.toThrow(NotFoundException);
+
+        expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledTimes(1);
+        expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledWith('uploads/a.pdf');
+      });
+    });
+
+    it('should answer unseen paths without querying the repository in the default configuration', async () => {
+      mockHashmap.get.mockReturnValue(undefined);
+      mockAttachmentsRepository.findAllActive.mockResolvedValue([mockAttachment]);
+      mockAttachmentsRepository.findByPath.mockResolvedValue(mockAttachment);
+      await service.bootstrapHashmap();
+
+      await expect(service.getByPath('uploads/unknown.pdf')).rejects.toThrow(NotFoundException);
+      expect(mockAttachmentsRepository.findByPath).not.toHaveBeenCalled();
+
+      await expect(service.getByPath(mockAttachment.path)).resolves.toMatchObject({
+        id: mockAttachment.id,
+      });
+    });
+
+    it('should query the repository for any path until the filter was filled', async () => {
+      mockHashmap.get.mockReturnValue(undefined);
+      mockAttachmentsRepository.findByPath.mockResolvedValue(null);
+
+      await expect(service.getByPath('uploads/unknown.pdf')).rejects.toThrow(NotFoundException);
+
+      expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledWith('uploads/unknown.pdf');
+    });
   });
 
   describe('listByProduct', () => {
@@ -269,6 +463,464 @@ describe('AttachmentsService', () => {
     });
   });
 
+  describe('cache indexes', () => {
+    let indexedService: AttachmentsService;
+    let cache: CustomHashmap<string, AttachmentHashValue>;
+
+    const cached = (filePath: string, productId: string | null) => ({
+      ...mockAttachment,
+      id: filePath,
+      path: filePath,
+      productId,
+      createdAt: mockAttachment.createdAt.toISOString(),
+    });
+
+    // A full bootstrap of an empty table; entries set afterwards stand in for
+    // registrations
+    const loadEverything = async () => {
+      mockAttachmentsRepository.findAllActive.mockResolvedValue([]);
+      await indexedService.bootstrapHashmap();
+    };
+
+    beforeEach(() => {
+      jest.spyOn(process, 'cwd').mockReturnValue('/test/project');
+      cache = new CustomHashmap<string, AttachmentHashValue>();
+      indexedService = new AttachmentsService(
+        mockAttachmentsRepository as unknown as AttachmentsRepository,
+        cache,
+        mockHashmapSnapshots as unknown as HashmapSnapshotService,
+      );
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    it('should list attachments by product from the cache once the product was loaded', async () => {
+      mockAttachmentsRepository.findByProductId.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/a.pdf' },
+        { ...mockAttachment, path: 'uploads/docs/c.pdf' },
+      ]);
+      cache.set('uploads/b.pdf', cached('uploads/b.pdf', 'other-product'));
+      await indexedService.listByProduct('product-123');
+      cache.set('uploads/d.pdf', cached('uploads/d.pdf', 'product-123'));
+
+      const result = await indexedService.listByProduct('product-123');
+
+      expect(result.map(r => r.path)).toEqual([
+        'uploads/a.pdf',
+        'uploads/docs/c.pdf',
+        'uploads/d.pdf',
+      ]);
+      expect(mockAttachmentsRepository.findByProductId).toHaveBeenCalledTimes(1);
+    });
+
+    it('should query the repository when only some attachments of the product are cached', async () => {
+      mockAttachmentsRepository.findByProductId.mockResolvedValue([mockAttachment]);
+      cache.set('uploads/a.pdf', cached('uploads/a.pdf', 'product-123'));
+
+      await indexedService.listByProduct('product-123');
+
+      expect(mockAttachmentsRepository.findByProductId).toHaveBeenCalledWith('product-123');
+    });
+
+    it('should query the repository again once an entry of the product expired', async () => {
+      const now = Date.now();
+      mockAttachmentsRepository.findByProductId.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/a.pdf' },
+        { ...mockAttachment, path: 'uploads/b.pdf' },
+      ]);
+      await indexedService.listByProduct('product-123');
+      cache.set('uploads/a.pdf', cache.get('uploads/a.pdf'), { ttl: 1000 });
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+      cache.purgeExpired();
+      clock.mockRestore();
+
+      const result = await indexedService.listByProduct('product-123');
+
+      expect(mockAttachmentsRepository.findByProductId).toHaveBeenCalledTimes(2);
+      expect(result.map(r => r.path)).toEqual(['uploads/a.pdf', 'uploads/b.pdf']);
+    });
+
+    it('should not answer a product listing from the cache right after an entry expired', async () => {
+      jest.useFakeTimers();
+      mockAttachmentsRepository.findByProductId.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/a.pdf' },
+        { ...mockAttachment, path: 'uploads/b.pdf' },
+        { ...mockAttachment, path: 'uploads/c.pdf' },
+      ]);
+      await indexedService.listByProduct('product-123');
+      cache.set('uploads/b.pdf', cache.get('uploads/b.pdf'), { ttl: 1000 });
+      jest.advanceTimersByTime(2000);
+
+      const result = await indexedService.listByProduct('product-123');
+
+      expect(result).toHaveLength(3);
+      expect(mockAttachmentsRepository.findByProductId).toHaveBeenCalledTimes(2);
+    });
+
+    it('should query the repository again once an entry of the product was deleted', async () => {
+      mockAttachmentsRepository.findByProductId.mockResolvedValue([mockAttachment]);
+      await indexedService.listByProduct('product-123');
+      cache.delete(mockAttachment.path);
+
+      await indexedService.listByProduct('product-123');
+
+      expect(mockAttachmentsRepository.findByProductId).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to the repository when nothing is cached for the product', async () => {
+      mockAttachmentsRepository.findByProductId.mockResolvedValue([mockAttachment]);
+
+      const result = await indexedService.listByProduct('product-123');
+
+      expect(mockAttachmentsRepository.findByProductId).toHaveBeenCalledWith('product-123');
+      expect(result).toHaveLength(1);
+      await expect(indexedService.listByProduct('product-123')).resolves.toHaveLength(1);
+      expect(mockAttachmentsRepository.findByProductId).toHaveBeenCalledTimes(1);
+    });
+
+    it('should list attachments stored directly in a folder', async () => {
+      await loadEverything();
+      cache.set('uploads/root.pdf', cached('uploads/root.pdf', null));
+      cache.set('uploads/docs/a.pdf', cached('uploads/docs/a.pdf', null));
+      cache.set('uploads/docs/2024/b.pdf', cached('uploads/docs/2024/b.pdf', null));
+
+      const paths = async (folder: string) =>
+        (await indexedService.listByFolder(folder)).map(r => r.path);
+      await expect(paths('/docs/')).resolves.toEqual(['uploads/docs/a.pdf']);
+      await expect(paths('docs/2024')).resolves.toEqual(['uploads/docs/2024/b.pdf']);
+      await expect(paths('')).resolves.toEqual(['uploads/root.pdf']);
+      expect(mockAttachmentsRepository.findByPathPrefix).not.toHaveBeenCalled();
+    });
+
+    it('should list everything below a folder in path order when recursive', async () => {
+      await loadEverything();
+      cache.set('uploads/docs/2024/b.pdf', cached('uploads/docs/2024/b.pdf', null));
+      cache.set('uploads/docs-old/c.pdf', cached('uploads/docs-old/c.pdf', null));
+      cache.set('uploads/docs/a.pdf', cached('uploads/docs/a.pdf', null));
+      cache.set('uploads/root.pdf', cached('uploads/root.pdf', null));
+
+      const below = await indexedService.listByFolder('docs', true);
+      expect(below.map(r => r.path)).toEqual(['uploads/docs/2024/b.pdf', 'uploads/docs/a.pdf']);
+      await expect(indexedService.listByFolder('', true)).resolves.toHaveLength(4);
+    });
+
+    it('should list a folder from the repository until everything was loaded', async () => {
+      mockAttachmentsRepository.findByPathPrefix.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/docs/2024/b.pdf' },
+        { ...mockAttachment, path: 'uploads/docs/a.pdf' },
+      ]);
+      cache.set('uploads/docs/c.pdf', cached('uploads/docs/c.pdf', null));
+
+      const result = await indexedService.listByFolder('docs');
+
+      expect(mockAttachmentsRepository.findByPathPrefix).toHaveBeenCalledWith('uploads/docs/');
+      expect(result.map(r => r.path)).toEqual(['uploads/docs/a.pdf']);
+      expect(cache.has('uploads/docs/2024/b.pdf')).toBe(true);
+    });
+
+    it('should list folders from the repository once a cached entry expired', async () => {
+      const now = Date.now();
+      await loadEverything();
+      cache.set('uploads/docs/a.pdf', cached('uploads/docs/a.pdf', null), { ttl: 1000 });
+      cache.set('uploads/docs/b.pdf', cached('uploads/docs/b.pdf', null));
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+      cache.purgeExpired();
+      clock.mockRestore();
+      mockAttachmentsRepository.findByPathPrefix.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/docs/a.pdf' },
+        { ...mockAttachment, path: 'uploads/docs/b.pdf' },
+      ]);
+
+      const files = await indexedService.listByFolder('docs');
+      const contents = await indexedService.listFolderContents('docs');
+
+      expect(files.map(r => r.path)).toEqual(['uploads/docs/a.pdf', 'uploads/docs/b.pdf']);
+      expect(contents.map(node => node.name)).toEqual(['a.pdf', 'b.pdf']);
+      expect(mockAttachmentsRepository.findByPathPrefix).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not answer a folder listing from the cache right after an entry expired', async () => {
+      jest.useFakeTimers();
+      await loadEverything();
+      cache.set('uploads/docs/a.pdf', cached('uploads/docs/a.pdf', null));
+      cache.set('uploads/docs/b.pdf', cached('uploads/docs/b.pdf', null), { ttl: 1000 });
+      mockAttachmentsRepository.findByPathPrefix.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/docs/a.pdf' },
+        { ...mockAttachment, path: 'uploads/docs/b.pdf' },
+      ]);
+      jest.advanceTimersByTime(2000);
+
+      const files = await indexedService.listByFolder('docs');
+
+      expect(files.map(r => r.path)).toEqual(['uploads/docs/a.pdf', 'uploads/docs/b.pdf']);
+      expect(mockAttachmentsRepository.findByPathPrefix).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not answer folder contents from the cache right after an entry expired', async () => {
+      jest.useFakeTimers();
+      await loadEverything();
+      cache.set('uploads/docs/a.pdf', cached('uploads/docs/a.pdf', null));
+      cache.set('uploads/docs/2024/b.pdf', cached('uploads/docs/2024/b.pdf', null), { ttl: 1000 });
+      mockAttachmentsRepository.findByPathPrefix.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/docs/2024/b.pdf' },
+        { ...mockAttachment, path: 'uploads/docs/a.pdf' },
+      ]);
+      jest.advanceTimersByTime(2000);
+
+      const contents = await indexedService.listFolderContents('docs');
+
+      expect(contents.map(node => node.name)).toEqual(['2024', 'a.pdf']);
+      expect(mockAttachmentsRepository.findByPathPrefix).toHaveBeenCalledTimes(1);
+    });
+
+    it('should list folders from the repository once an entry was deleted', async () => {
+      await loadEverything();
+      cache.set('uploads/docs/a.pdf', cached('uploads/docs/a.pdf', 'product-123'));
+      cache.delete('uploads/docs/a.pdf');
+      mockAttachmentsRepository.findByPathPrefix.mockResolvedValue([]);
+
+      await expect(indexedService.listByFolder('docs')).resolves.toEqual([]);
+      expect(mockAttachmentsRepository.findByPathPrefix).toHaveBeenCalledTimes(1);
+    });
+
+    it('should list folder contents from cached paths without reading the filesystem', async () => {
+      await loadEverything();
+      for (const filePath of [
+        'uploads/docs/contracts/2024/a.pdf',
+        'uploads/docs/contracts/b.pdf',
+        'uploads/docs/notes.txt',
+        'uploads/docs/images/c.png',
+      ]) {
+        cache.set(filePath, cached(filePath, null));
+      }
+
+      await expect(indexedService.listFolderContents('/docs/')).resolves.toEqual([
+        { name: 'contracts', path: '/test/project/uploads/docs/contracts', type: 'folder' },
+        { name: 'images', path: '/test/project/uploads/docs/images', type: 'folder' },
+        { name: 'notes.txt', path: '/test/project/uploads/docs/notes.txt', type: 'file' },
+      ]);
+      await expect(indexedService.listFolderContents(null)).resolves.toEqual([
+        { name: 'docs', path: '/test/project/uploads/docs', type: 'folder' },
+      ]);
+      await expect(indexedService.listFolderContents('missing')).resolves.toEqual([]);
+      expect(fs.promises.readdir).not.toHaveBeenCalled();
+      expect(mockAttachmentsRepository.findByPathPrefix).not.toHaveBeenCalled();
+    });
+
+    it('should export a point-in-time view of the cache in path order', async () => {
+      await loadEverything();
+      cache.set('uploads/b.pdf', cached('uploads/b.pdf', null));
+      cache.set('uploads/a.pdf', cached('uploads/a.pdf', null));
+
+      const exported = indexedService.exportAttachments();
+      cache.set('uploads/c.pdf', cached('uploads/c.pdf', null));
+
+      expect((await exported).map(r => r.path)).toEqual(['uploads/a.pdf', 'uploads/b.pdf']);
+      await expect(indexedService.exportAttachments()).resolves.toHaveLength(3);
+      expect(mockAttachmentsRepository.findAllActive).toHaveBeenCalledTimes(1);
+    });
+
+    it('should export from the repository until everything was loaded', async () => {
+      cache.set('uploads/b.pdf', cached('uploads/b.pdf', null));
+      mockAttachmentsRepository.findAllActive.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/b.pdf' },
+        { ...mockAttachment, path: 'uploads/a.pdf' },
+      ]);
+
+      const exported = await indexedService.exportAttachments();
+
+      expect(exported.map(r => r.path)).toEqual(['uploads/a.pdf', 'uploads/b.pdf']);
+    });
+
+    it('should leave expired entries out and fall back to the repository', async () => {
+      const now = Date.now();
+      await loadEverything();
+      cache.set('uploads/a.pdf', cached('uploads/a.pdf', null), { ttl: 1000 });
+      cache.set('uploads/b.pdf', cached('uploads/b.pdf', null));
+      mockAttachmentsRepository.findAllActive.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/b.pdf' },
+      ]);
+
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+      const tree = await indexedService.buildCachedDirectoryTree();
+      clock.mockRestore();
+
+      expect(tree.children).toEqual([
+        { name: 'b.pdf', path: '/test/project/uploads/b.pdf', type: 'file' },
+      ]);
+      expect(mockAttachmentsRepository.findAllActive).toHaveBeenCalledTimes(2);
+    });
+
+    it('should build the directory tree from cached paths', async () => {
+      await loadEverything();
+      cache.set('uploads/docs/2024/a.pdf', cached('uploads/docs/2024/a.pdf', null));
+      cache.set('uploads/root.pdf', cached('uploads/root.pdf', null));
+      cache.set('uploads/docs/b.pdf', cached('uploads/docs/b.pdf', null));
+      cache.set('elsewhere/c.pdf', cached('elsewhere/c.pdf', null));
+
+      await expect(indexedService.buildCachedDirectoryTree()).resolves.toEqual({
+        name: 'uploads',
+        path: '/test/project/uploads',
+        type: 'folder',
+        children: [
+          {
+            name: 'docs',
+            path: '/test/project/uploads/docs',
+            type: 'folder',
+            children: [
+              {
+                name: '2024',
+                path: '/test/project/uploads/docs/2024',
+                type: 'folder',
+                children: [
+                  { name: 'a.pdf', path: '/test/project/uploads/docs/2024/a.pdf', type: 'file' },
+                ],
+              },
+              { name: 'b.pdf', path: '/test/project/uploads/docs/b.pdf', type: 'file' },
+            ],
+          },
+          { name: 'root.pdf', path: '/test/project/uploads/root.pdf', type: 'file' },
+        ],
+      });
+      expect(fs.promises.readdir).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cache invalidation', () => {
+    let writer: AttachmentsService;
+    let reader: AttachmentsService;
+    let readerCache: CustomHashmap<string, AttachmentHashValue>;
+    const newFile = { ...mockFile, path: '/test/project/uploads/new.jpg' };
+
+    // Two services sharing a bus stand in for two worker processes
+    beforeEach(() => {
+      jest.spyOn(process, 'cwd').mockReturnValue('/test/project');
+      const bus = new ProcessInvalidationBus({ on: jest.fn(), off: jest.fn() });
+      readerCache = new CustomHashmap<string, AttachmentHashValue>();
+      writer = new AttachmentsService(
+        mockAttachmentsRepository as unknown as AttachmentsRepository,
+        new CustomHashmap<string, AttachmentHashValue>(),
+        mockHashmapSnapshots as unknown as HashmapSnapshotService,
+        bus,
+      );
+      reader = new AttachmentsService(
+        mockAttachmentsRepository as unknown as AttachmentsRepository,
+        readerCache,
+        mockHashmapSnapshots as unknown as HashmapSnapshotService,
+        bus,
+      );
+      mockAttachmentsRepository.create.mockImplementation(data =>
+        Promise.resolve({ ...mockAttachment, ...data }),
+      );
+    });
+
+    it('should drop a stale entry in other processes when a path is registered', async () => {
+      readerCache.set('uploads/new.jpg', {
+        ...mockAttachment,
+        path: 'uploads/new.jpg',
+        size: 1,
+        createdAt: mockAttachment.createdAt.toISOString(),
+      });
+
+      const result = await writer.registerFile(newFile);
+
+      expect(result.path).toBe('uploads/new.jpg');
+      expect(readerCache.has('uploads/new.jpg')).toBe(false);
+    });
+
+    it('should forget a cached miss once another process registers the path', async () => {
+      mockAttachmentsRepository.findByPath.mockResolvedValueOnce(null);
+      await expect(reader.getByPath('uploads/new.jpg')).rejects.toThrow(NotFoundException);
+
+      await writer.registerFile(newFile);
+      mockAttachmentsRepository.findByPath.mockResolvedValueOnce({
+        ...mockAttachment,
+        path: 'uploads/new.jpg',
+      });
+
+      await expect(reader.getByPath('uploads/new.jpg')).resolves.toMatchObject({
+        path: 'uploads/new.jpg',
+      });
+      expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the entry cached in the process that registered it', async () => {
+      const result = await writer.registerFile(newFile);
+
+      await expect(writer.getByPath(result.path)).resolves.toBe(result);
+      expect(mockAttachmentsRepository.findByPath).not.toHaveBeenCalled();
+    });
+
+    it('should drop a deleted attachment in every process', async () => {
+      const stored = await writer.registerFile(newFile);
+      readerCache.set(stored.path, stored);
+      mockAttachmentsRepository.findById.mockResolvedValue({
+        ...mockAttachment,
+        path: stored.path,
+      });
+      mockAttachmentsRepository.softDelete.mockResolvedValue(true);
+      mockAttachmentsRepository.findByPath.mockResolvedValue(null);
+
+      await writer.deleteAttachment(mockAttachment.id);
+
+      expect(mockAttachmentsRepository.softDelete).toHaveBeenCalledWith(mockAttachment.id);
+      expect(readerCache.has(stored.path)).toBe(false);
+      await expect(writer.getByPath(stored.path)).rejects.toThrow(NotFoundException);
+      expect(mockAttachmentsRepository.findByPath).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not load a deleted attachment back into any cache', async () => {
+      const stored = await writer.registerFile(newFile);
+      const deleted = { ...mockAttachment, path: stored.path, isDeleted: true };
+      mockAttachmentsRepository.findById.mockResolvedValue({ ...deleted, isDeleted: false });
+      mockAttachmentsRepository.softDelete.mockResolvedValue(true);
+      mockAttachmentsRepository.findByPath.mockResolvedValue(deleted);
+
+      await writer.deleteAttachment(mockAttachment.id);
+
+      await expect(writer.getByPath(stored.path)).rejects.toThrow(NotFoundException);
+      await expect(reader.getByPath(stored.path)).rejects.toThrow(NotFoundException);
+      expect(readerCache.has(stored.path)).toBe(false);
+    });
+
+    it('should report attachments that are missing or already deleted', async () => {
+      mockAttachmentsRepository.findById
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...mockAttachment, isDeleted: true });
+
+      await expect(writer.deleteAttachment('missing')).rejects.toThrow(NotFoundException);
+      await expect(writer.deleteAttachment(mockAttachment.id)).rejects.toThrow(NotFoundException);
+      expect(mockAttachmentsRepository.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('should make other processes reload product listings that changed', async () => {
+      mockAttachmentsRepository.findByProductId.mockResolvedValue([mockAttachment]);
+      await reader.listByProduct('product-123');
+
+      await writer.registerFile(newFile, 'product-123');
+      mockAttachmentsRepository.findByProductId.mockResolvedValue([
+        mockAttachment,
+        { ...mockAttachment, path: 'uploads/new.jpg' },
+      ]);
+
+      await expect(reader.listByProduct('product-123')).resolves.toHaveLength(2);
+      expect(mockAttachmentsRepository.findByProductId).toHaveBeenCalledTimes(2);
+    });
+
+    it('should make other processes list folders from the repository after a change', async () => {
+      mockAttachmentsRepository.findAllActive.mockResolvedValue([]);
+      await reader.bootstrapHashmap();
+
+      await writer.registerFile(newFile);
+      mockAttachmentsRepository.findByPathPrefix.mockResolvedValue([
+        { ...mockAttachment, path: 'uploads/new.jpg' },
+      ]);
+
+      const files = await reader.listByFolder('');
+      expect(files.map(r => r.path)).toEqual(['uploads/new.jpg']);
+    });
+  });
+
   describe('buildDirectoryTree', () => {
     beforeEach(() => {
       // Mock the uploads root path
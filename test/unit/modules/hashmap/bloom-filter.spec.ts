@@ -0,0 +1,106 @@
+import { ScalableBloomFilter } from '../../../../src/modules/hashmap/bloom-filter';
+import { SerializedBloomFilter } from '../../../../src/modules/hashmap/types';
+
+describe('ScalableBloomFilter', () => {
+  const keys = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, i) => `${prefix}/${i}.pdf`);
+
+  it('should report every added key', () => {
+    const filter = new ScalableBloomFilter({ expectedItems: 100 });
+    const added = keys('uploads', 100);
+
+    added.forEach(key => filter.add(key));
+
+    expect(added.every(key => filter.mightContain(key))).toBe(true);
+    expect(filter.size).toBeLessThanOrEqual(100);
+  });
+
+  it('should reject keys that were never added', () => {
+    const filter = new ScalableBloomFilter();
+
+    expect(filter.mightContain('uploads/missing.pdf')).toBe(false);
+  });
+
+  it('should keep false positives near the configured rate as it grows', () => {
+    const filter = new ScalableBloomFilter({ expectedItems: 100, falsePositiveRate: 0.01 });
+    keys('uploads', 2000).forEach(key => filter.add(key));
+
+    const falsePositives = keys('missing', 10000).filter(key => filter.mightContain(key)).length;
+
+    expect(filter.sliceCount).toBeGreaterThan(1);
+    expect(keys('uploads', 2000).every(key => filter.mightContain(key))).toBe(true);
+    expect(falsePositives / 10000).toBeLessThan(0.02);
+  });
+
+  it('should rebuild from the keys that still exist', () => {
+    const filter = new ScalableBloomFilter({ seed: [1, 2] });
+    filter.add('uploads/deleted.pdf');
+
+    filter.rebuild(['uploads/kept.pdf']);
+
+    expect(filter.mightContain('uploads/kept.pdf')).toBe(true);
+    expect(filter.mightContain('uploads/deleted.pdf')).toBe(false);
+  });
+
+  it('should round-trip through JSON', () => {
+    const filter = new ScalableBloomFilter({ expectedItems: 10, falsePositiveRate: 0.05 });
+    const added = keys('uploads', 50);
+    added.forEach(key => filter.add(key));
+
+    const restored = ScalableBloomFilter.fromJSON(
+      JSON.parse(JSON.stringify(filter)) as SerializedBloomFilter,
+    );
+
+    expect(restored.sliceCount).toBe(filter.sliceCount);
+    expect(restored.size).toBe(filter.size);
+    expect(restored.falsePositiveRate).toBe(0.05);
+    expect(added.every(key => restored.mightContain(key))).toBe(true);
+    expect(keys('missing', 100).map(key => restored.mightContain(key))).toEqual(
+      keys('missing', 100).map(key => filter.mightContain(key)),
+    );
+  });
+
+  it('should round-trip an empty filter', () => {
+    const filter = new ScalableBloomFilter({ expectedItems: 10, falsePositiveRate: 0.05 });
+
+    const restored = ScalableBloomFilter.fromJSON(
+      JSON.parse(JSON.stringify(filter)) as SerializedBloomFilter,
+    );
+    restored.add('uploads/a.pdf');
+
+    expect(restored.mightContain('uploads/a.pdf')).toBe(true);
+    expect(restored.toJSON()).toMatchObject({
+      expectedItems: 10,
+      falsePositiveRate: 0.05,
+      slices: [{ capacity: 10 }],
+    });
+  });
+
+  it('should reject unknown or damaged serialized data', () => {
+    const data = new ScalableBloomFilter({ expectedItems: 10 });
+    data.add('a');
+    const json = data.toJSON();
+
+    expect(() => ScalableBloomFilter.fromJSON({ ...json, format: 'other' })).toThrow(
+      'Unsupported Bloom filter format',
+    );
+    expect(() =>
+      ScalableBloomFilter.fromJSON({ ...json, slices: [{ ...json.slices[0], bits: '' }] }),
+    ).toThrow('Bloom filter bit array does not match its size');
+  });
+
+  it('should validate options', () => {
+    expect(() => new ScalableBloomFilter({ falsePositiveRate: 0 })).toThrow(
+      'falsePositiveRate must be between 0 and 1',
+    );
+    expect(() => new ScalableBloomFilter({ expectedItems: 0 })).toThrow(
+      'expectedItems must be a positive integer',
+    );
+    expect(() => new ScalableBloomFilter({ tighteningRatio: 1 })).toThrow(
+      'tighteningRatio must be between 0 and 1',
+    );
+    expect(() => new ScalableBloomFilter({ growthFactor: 0.5 })).toThrow(
+      'growthFactor must be at least 1',
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { CacheInvalidator } from '../../../../src/modules/hashmap/cache-invalidator';
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { ProcessInvalidationBus } from '../../../../src/modules/hashmap/invalidation-bus';
+import { InvalidationMessage } from '../../../../src/modules/hashmap/types';
+
+describe('CacheInvalidator', () => {
+  let bus: ProcessInvalidationBus;
+  let local: CustomHashmap<string, number>;
+  let peer: CustomHashmap<string, number>;
+  let localInvalidator: CacheInvalidator<string, number>;
+  let peerInvalidator: CacheInvalidator<string, number>;
+
+  // Two caches in one process stand in for two workers sharing a bus
+  beforeEach(() => {
+    bus = new ProcessInvalidationBus({ on: jest.fn(), off: jest.fn() });
+    local = new CustomHashmap<string, number>();
+    peer = new CustomHashmap<string, number>();
+    localInvalidator = new CacheInvalidator(local, bus, { channel: 'files' });
+    peerInvalidator = new CacheInvalidator(peer, bus, { channel: 'files' });
+    local.set('a', 1);
+    peer.set('a', 1);
+    peer.set('b', 2);
+  });
+
+  it('should drop the key locally and on peers', async () => {
+    await localInvalidator.invalidate('a');
+
+    expect(local.has('a')).toBe(false);
+    expect(peer.has('a')).toBe(false);
+    expect(peer.get('b')).toBe(2);
+  });
+
+  it('should keep the local entry when only publishing', async () => {
+    local.set('a', 10);
+    await localInvalidator.publish('a');
+
+    expect(local.get('a')).toBe(10);
+    expect(peer.has('a')).toBe(false);
+  });
+
+  it('should clear peers on invalidateAll', async () => {
+    await localInvalidator.invalidateAll();
+
+    expect(local.size).toBe(0);
+    expect(peer.size).toBe(0);
+  });
+
+  it('should notify listeners of peer invalidations only', async () => {
+    const localSeen = jest.fn();
+    const peerSeen = jest.fn();
+    localInvalidator.onInvalidate(localSeen);
+    const stop = peerInvalidator.onInvalidate(peerSeen);
+
+    await localInvalidator.invalidate('a');
+    await localInvalidator.invalidateAll();
+    stop();
+    await localInvalidator.invalidate('b');
+
+    expect(localSeen).not.toHaveBeenCalled();
+    expect(peerSeen.mock.calls).toEqual([['a'], [undefined]]);
+  });
+
+  it('should ignore other channels and stop after close', async () => {
+    const other = new CacheInvalidator(new CustomHashmap<string, number>(), bus, {
+      channel: 'other',
+    });
+    await other.invalidate('a');
+    expect(peer.has('a')).toBe(true);
+
+    peerInvalidator.close();
+    await localInvalidator.invalidate('a');
+    expect(peer.has('a')).toBe(true);
+  });
+
+  it('should encode keys with the configured codec', async () => {
+    const messages: InvalidationMessage[] = [];
+    bus.subscribe(message => messages.push(message));
+    const objects = new CustomHashmap<{ id: number }, string>({ keyEquality: 'structural' });
+    objects.set({ id: 1 }, 'one');
+    const sender = new CacheInvalidator<{ id: number }, string>(new CustomHashmap(), bus);
+    new CacheInvalidator(objects, bus);
+
+    await sender.publish({ id: 1 });
+
+    expect(messages).toEqual([
+      { origin: sender.id, channel: 'default', type: 'invalidate', key: '{"id":1}' },
+    ]);
+    expect(objects.size).toBe(0);
+  });
+});
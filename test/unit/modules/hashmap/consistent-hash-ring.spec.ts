@@ -0,0 +1,81 @@
+import { ConsistentHashRing } from '../../../../src/modules/hashmap/consistent-hash-ring';
+
+describe('ConsistentHashRing', () => {
+  const keys = Array.from({ length: 5000 }, (_, i) => `uploads/documents/${i}.pdf`);
+
+  const placement = (ring: ConsistentHashRing) => new Map(keys.map(key => [key, ring.locate(key)]));
+
+  it('should place keys deterministically, independent of insertion order', () => {
+    const first = new ConsistentHashRing();
+    ['a', 'b', 'c'].forEach(node => first.addNode(node));
+    const second = new ConsistentHashRing();
+    ['c', 'a', 'b'].forEach(node => second.addNode(node));
+
+    expect(placement(first)).toEqual(placement(second));
+  });
+
+  it('should spread keys evenly across nodes', () => {
+    const ring = new ConsistentHashRing();
+    ['a', 'b', 'c', 'd'].forEach(node => ring.addNode(node));
+    const counts: Record<string, number> = {};
+    keys.forEach(key => (counts[ring.locate(key)] = (counts[ring.locate(key)] ?? 0) + 1));
+
+    for (const count of Object.values(counts)) {
+      expect(count / keys.length).toBeGreaterThan(0.15);
+      expect(count / keys.length).toBeLessThan(0.35);
+    }
+  });
+
+  it('should only move keys onto a newly added node', () => {
+    const ring = new ConsistentHashRing();
+    ['a', 'b', 'c'].forEach(node => ring.addNode(node));
+    const before = placement(ring);
+
+    ring.addNode('d');
+    const after = placement(ring);
+    const moved = keys.filter(key => before.get(key) !== after.get(key));
+
+    expect(moved.every(key => after.get(key) === 'd')).toBe(true);
+    expect(moved.length / keys.length).toBeGreaterThan(0.15);
+    expect(moved.length / keys.length).toBeLessThan(0.35);
+  });
+
+  it('should only move the keys of a removed node', () => {
+    const ring = new ConsistentHashRing();
+    ['a', 'b', 'c'].forEach(node => ring.addNode(node));
+    const before = placement(ring);
+
+    expect(ring.removeNode('b')).toBe(true);
+    const after = placement(ring);
+
+    expect(keys.filter(key => before.get(key) !== after.get(key))).toEqual(
+      keys.filter(key => before.get(key) === 'b'),
+    );
+    expect(ring.removeNode('b')).toBe(false);
+  });
+
+  it('should give heavier nodes a larger share of the ring', () => {
+    const ring = new ConsistentHashRing();
+    ring.addNode('small');
+    ring.addNode('large', 3);
+    const ownership = ring.ownership();
+
+    expect(ownership.small + ownership.large).toBeCloseTo(1, 10);
+    expect(ownership.large).toBeGreaterThan(0.65);
+  });
+
+  it('should validate nodes and fail to locate keys on an empty ring', () => {
+    const ring = new ConsistentHashRing();
+
+    expect(() => ring.locate('key')).toThrow('Hash ring has no nodes');
+    expect(() => ring.addNode('')).toThrow('Ring node name cannot be empty');
+    ring.addNode('a');
+    expect(() => ring.addNode('a')).toThrow('Duplicate ring node: a');
+    expect(() => ring.addNode('b', 0)).toThrow('Node weight must be a positive integer');
+    expect(() => new ConsistentHashRing({ virtualNodes: 0 })).toThrow(
+      'virtualNodes must be a positive integer',
+    );
+    expect(ring.nodes).toEqual(['a']);
+    expect(ring.size).toBe(1);
+  });
+});
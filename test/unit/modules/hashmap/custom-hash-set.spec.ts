@@ -0,0 +1,96 @@
+import { CustomHashSet } from '../../../../src/modules/hashmap/custom-hash-set';
+
+describe('CustomHashSet', () => {
+  describe('Basic Operations', () => {
+    it('should add, find and delete values without duplicates', () => {
+      const set = new CustomHashSet<string>();
+
+      set.add('a').add('b').add('a');
+
+      expect(set.size).toBe(2);
+      expect(set.has('a')).toBe(true);
+      expect(set.delete('a')).toBe(true);
+      expect(set.delete('a')).toBe(false);
+      expect(set.has('a')).toBe(false);
+    });
+
+    it('should be created from an iterable and iterate in insertion order', () => {
+      const set = new CustomHashSet(['c', 'a', 'c', 'b']);
+
+      expect([...set]).toEqual(['c', 'a', 'b']);
+      expect([...set.values()]).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should use SameValueZero like the built-in Set', () => {
+      const set = new CustomHashSet<unknown>([NaN, 0, { id: 1 }]);
+
+      expect(set.has(NaN)).toBe(true);
+      expect(set.has(-0)).toBe(true);
+      expect(set.has({ id: 1 })).toBe(false);
+    });
+
+    it('should support structural values', () => {
+      const set = new CustomHashSet([{ productId: 'p1', folder: 'docs' }], {
+        keyEquality: 'structural',
+      });
+
+      expect(set.has({ folder: 'docs', productId: 'p1' })).toBe(true);
+    });
+
+    it('should clear every value', () => {
+      const set = new CustomHashSet([1, 2, 3]);
+      set.clear();
+
+      expect(set.size).toBe(0);
+      expect(set.has(1)).toBe(false);
+    });
+  });
+
+  describe('Set Operations', () => {
+    const left = new CustomHashSet([1, 2, 3]);
+    const right = new CustomHashSet([2, 3, 4]);
+
+    it('should compute the union', () => {
+      expect([...left.union(right)]).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should compute the intersection', () => {
+      expect([...left.intersection(right)]).toEqual([2, 3]);
+    });
+
+    it('should compute the difference', () => {
+      expect([...left.difference(right)]).toEqual([1]);
+      expect([...right.difference(left)]).toEqual([4]);
+    });
+
+    it('should leave both operands unchanged', () => {
+      left.union(right);
+      left.intersection(right);
+      left.difference(right);
+
+      expect([...left]).toEqual([1, 2, 3]);
+      expect([...right]).toEqual([2, 3, 4]);
+    });
+
+    it('should accept built-in sets and arrays', () => {
+      expect([...left.union([5])]).toEqual([1, 2, 3, 5]);
+      expect([...left.intersection(new Set([3, 9]))]).toEqual([3]);
+    });
+
+    it('should keep the options of the receiver', () => {
+      const keys = new CustomHashSet([{ id: 1 }], { keyEquality: 'structural' });
+
+      expect(keys.union([{ id: 2 }]).has({ id: 2 })).toBe(true);
+    });
+
+    it('should check subsets and supersets', () => {
+      const small = new CustomHashSet([2, 3]);
+
+      expect(small.isSubsetOf(left)).toBe(true);
+      expect(left.isSubsetOf(small)).toBe(false);
+      expect(left.isSupersetOf(small)).toBe(true);
+      expect(new CustomHashSet<number>().isSubsetOf(small)).toBe(true);
+      expect(small.isSubsetOf(small)).toBe(true);
+    });
+  });
+});
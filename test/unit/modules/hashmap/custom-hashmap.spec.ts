@@ -1,5 +1,8 @@
 import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
-import { HASHMAP_CONSTANTS } from '../../../../src/modules/hashmap/types';
+import { estimateSize } from '../../../../src/modules/hashmap/size-estimator';
+import { HashUtils } from '../../../../src/modules/hashmap/hash-utils';
+import { EvictionPolicyName, HASHMAP_CONSTANTS } from '../../../../src/modules/hashmap/types';
+import { ConcurrentModificationError } from '../../../../src/modules/hashmap/errors';
 
 describe('CustomHashmap', () => {
   let hashmap: CustomHashmap<string, number>;
@@ -72,7 +75,7 @@ describe('CustomHashmap', () => {
     });
 
     it('should return all keys', () => {
-      const keys = hashmap.keys();
+      const keys = [...hashmap.keys()];
       expect(keys).toHaveLength(3);
       expect(keys).toContain('a');
       expect(keys).toContain('b');
@@ -80,7 +83,7 @@ describe('CustomHashmap', () => {
     });
 
     it('should return all values', () => {
-      const values = hashmap.values();
+      const values = [...hashmap.values()];
       expect(values).toHaveLength(3);
       expect(values).toContain(1);
       expect(values).toContain(2);
@@ -88,13 +91,88 @@ describe('CustomHashmap', () => {
     });
 
     it('should return all entries', () => {
-      const entries = hashmap.entries();
+      const entries = [...hashmap.entries()];
       expect(entries).toHaveLength(3);
       expect(entries).toContainEqual(['a', 1]);
       expect(entries).toContainEqual(['b', 2]);
       expect(entries).toContainEqual(['c', 3]);
     });
 
+    it('should iterate in insertion order', () => {
+      expect([...hashmap.keys()]).toEqual(['a', 'b', 'c']);
+      expect([...hashmap.values()]).toEqual([1, 2, 3]);
+    });
+
+    it('should support for...of and spread through Symbol.iterator', () => {
+      const seen: Array<[string, number]> = [];
+
+      for (const entry of hashmap) {
+        seen.push(entry);
+      }
+
+      expect(seen).toEqual([
+        ['a', 1],
+        ['b', 2],
+        ['c', 3],
+      ]);
+      expect(new Map(hashmap)).toEqual(
+        new Map([
+          ['a', 1],
+          ['b', 2],
+          ['c', 3],
+        ]),
+      );
+    });
+
+    it('should iterate lazily', () => {
+      const iterator = hashmap.keys();
+
+      expect(iterator.next()).toEqual({ value: 'a', done: false });
+      expect(iterator.next()).toEqual({ value: 'b', done: false });
+      expect(iterator.next()).toEqual({ value: 'c', done: false });
+      expect(iterator.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it('should keep insertion order across resizes and deletes', () => {
+      const ordered = new CustomHashmap<string, number>({ initialCapacity: 2 });
+
+      for (let i = 0; i < 20; i++) {
+        ordered.set(`key${i}`, i);
+      }
+      ordered.delete('key3');
+      ordered.set('key0', 100);
+      ordered.set('key3', 3);
+
+      const expectedKeys = Array.from({ length: 20 }, (_, i) => `key${i}`).filter(
+        key => key !== 'key3',
+      );
+      expect([...ordered.keys()]).toEqual([...expectedKeys, 'key3']);
+      expect(ordered.get('key0')).toBe(100);
+    });
+
+    it('should fail fast when the map is modified during iteration', () => {
+      const iterator = hashmap.entries();
+      iterator.next();
+
+      hashmap.set('d', 4);
+
+      expect(() => iterator.next()).toThrow(ConcurrentModificationError);
+    });
+
+    it('should fail fast when deleting inside forEach', () => {
+      expect(() => hashmap.forEach((_value, key) => hashmap.delete(key))).toThrow(
+        'Hashmap was modified during iteration',
+      );
+    });
+
+    it('should allow value updates during iteration', () => {
+      for (const [key, value] of hashmap) {
+        hashmap.set(key, value * 10);
+      }
+
+      expect([...hashmap.values()]).toEqual([10, 20, 30]);
+    });
+
     it('should iterate with forEach', () => {
       const mockCallback = jest.fn();
 
@@ -173,6 +251,7 @@ describe('CustomHashmap', () => {
       );
       
       const customHashmap = new CustomHashmap<string, number>({
+        hashFunction: key => HashUtils.defaultHash(key.toLowerCase()),
         equalsFunction: customEquals,
       });
 
@@ -180,6 +259,16 @@ describe('CustomHashmap', () => {
       expect(customHashmap.get('TEST')).toBe(100);
       expect(customEquals).toHaveBeenCalled();
     });
+
+    it('should support DJB2 string hashing', () => {
+      const djb2Hashmap = new CustomHashmap<string, number>({ hashAlgorithm: 'djb2' });
+      const keys = Array.from({ length: 50 }, (_, i) => `key${i}`);
+
+      keys.forEach((key, i) => djb2Hashmap.set(key, i));
+
+      expect(djb2Hashmap.size).toBe(50);
+      keys.forEach((key, i) => expect(djb2Hashmap.get(key)).toBe(i));
+    });
   });
 
   describe('Edge Cases', () => {
@@ -239,4 +328,783 @@ describe('CustomHashmap', () => {
       expect(smallHashmap.size).toBe(4);
     });
   });
+
+  describe('Expiration', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should expire entries after their TTL', () => {
+      hashmap.set('short', 1, { ttl: 1000 });
+      hashmap.set('long', 2, { ttl: 5000 });
+
+      jest.advanceTimersByTime(999);
+      expect(hashmap.get('short')).toBe(1);
+
+      jest.advanceTimersByTime(1);
+      expect(hashmap.get('short')).toBeUndefined();
+      expect(hashmap.has('short')).toBe(false);
+      expect(hashmap.get('long')).toBe(2);
+    });
+
+    it('should apply the default TTL from options', () => {
+      const expiringHashmap = new CustomHashmap<string, number>({ defaultTtl: 500 });
+      expiringHashmap.set('a', 1);
+      expiringHashmap.set('b', 2, { ttl: Infinity });
+
+      jest.advanceTimersByTime(500);
+
+      expect(expiringHashmap.has('a')).toBe(false);
+      expect(expiringHashmap.get('b')).toBe(2);
+    });
+
+    it('should reset the TTL when an entry is overwritten', () => {
+      hashmap.set('key', 1, { ttl: 1000 });
+      jest.advanceTimersByTime(800);
+      hashmap.set('key', 2, { ttl: 1000 });
+      jest.advanceTimersByTime(800);
+
+      expect(hashmap.get('key')).toBe(2);
+      expect(hashmap.getRemainingTtl('key')).toBe(200);
+    });
+
+    it('should make an entry permanent when overwritten without TTL', () => {
+      hashmap.set('key', 1, { ttl: 1000 });
+      hashmap.set('key', 2);
+      jest.advanceTimersByTime(5000);
+
+      expect(hashmap.get('key')).toBe(2);
+      expect(hashmap.getRemainingTtl('key')).toBe(Infinity);
+    });
+
+    it('should exclude expired entries from size, keys, values and entries', () => {
+      hashmap.set('a', 1, { ttl: 100 });
+      hashmap.set('b', 2, { ttl: 200 });
+      hashmap.set('c', 3);
+
+      jest.advanceTimersByTime(150);
+
+      expect(hashmap.size).toBe(2);
+      expect([...hashmap.keys()].sort()).toEqual(['b', 'c']);
+      expect([...hashmap.values()].sort()).toEqual([2, 3]);
+      expect([...hashmap.entries()]).not.toContainEqual(['a', 1]);
+    });
+
+    it('should keep expiry tracking intact across resizes', () => {
+      const smallHashmap = new CustomHashmap<string, number>({ initialCapacity: 2 });
+
+      for (let i = 0; i < 50; i++) {
+        smallHashmap.set(`key${i}`, i, { ttl: i % 2 === 0 ? 100 : 10000 });
+      }
+
+      jest.advanceTimersByTime(100);
+
+      expect(smallHashmap.purgeExpired()).toBe(25);
+      expect(smallHashmap.size).toBe(25);
+      expect(smallHashmap.get('key1')).toBe(1);
+      expect(smallHashmap.get('key2')).toBeUndefined();
+    });
+
+    it('should remove expired entries on the sweeper interval', () => {
+      const sweptHashmap = new CustomHashmap<string, number>({ sweepInterval: 1000 });
+      const purgeSpy = jest.spyOn(sweptHashmap, 'purgeExpired');
+      sweptHashmap.set('key', 1, { ttl: 500 });
+
+      jest.advanceTimersByTime(1000);
+
+      expect(purgeSpy).toHaveBeenCalledTimes(1);
+      expect(purgeSpy).toHaveReturnedWith(1);
+      sweptHashmap.stopSweeper();
+    });
+
+    it('should stop sweeping once stopped', () => {
+      const sweptHashmap = new CustomHashmap<string, number>({ sweepInterval: 1000 });
+      const purgeSpy = jest.spyOn(sweptHashmap, 'purgeExpired');
+
+      sweptHashmap.stopSweeper();
+      jest.advanceTimersByTime(5000);
+
+      expect(purgeSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid TTL values', () => {
+      expect(() => hashmap.set('key', 1, { ttl: 0 })).toThrow('TTL must be a positive number');
+      expect(() => hashmap.set('key', 1, { ttl: -5 })).toThrow('TTL must be a positive number');
+      expect(() => new CustomHashmap({ defaultTtl: NaN })).toThrow('TTL must be a positive number');
+      expect(hashmap.has('key')).toBe(false);
+    });
+
+    it('should not report remaining TTL for missing keys', () => {
+      expect(hashmap.getRemainingTtl('missing')).toBeUndefined();
+    });
+  });
+
+  describe('Eviction', () => {
+    it('should evict the least recently used entry with the LRU policy', () => {
+      const onEvict = jest.fn();
+      const lru = new CustomHashmap<string, number>({ maxEntries: 3, onEvict });
+
+      lru.set('a', 1);
+      lru.set('b', 2);
+      lru.set('c', 3);
+      lru.get('a');
+      lru.set('d', 4);
+
+      expect(lru.size).toBe(3);
+      expect(lru.has('b')).toBe(false);
+      expect([...lru.keys()].sort()).toEqual(['a', 'c', 'd']);
+      expect(onEvict).toHaveBeenCalledWith('b', 2);
+    });
+
+    it('should treat overwrites as access with the LRU policy', () => {
+      const lru = new CustomHashmap<string, number>({ maxEntries: 2, evictionPolicy: 'lru' });
+
+      lru.set('a', 1);
+      lru.set('b', 2);
+      lru.set('a', 10);
+      lru.set('c', 3);
+
+      expect(lru.get('a')).toBe(10);
+      expect(lru.has('b')).toBe(false);
+    });
+
+    it('should evict the least frequently used entry with the LFU policy', () => {
+      const lfu = new CustomHashmap<string, number>({ maxEntries: 3, evictionPolicy: 'lfu' });
+
+      lfu.set('a', 1);
+      lfu.set('b', 2);
+      lfu.set('c', 3);
+      lfu.get('a');
+      lfu.get('a');
+      lfu.get('b');
+      lfu.get('c');
+      lfu.set('d', 4);
+
+      expect(lfu.has('b')).toBe(false);
+      expect([...lfu.keys()].sort()).toEqual(['a', 'c', 'd']);
+    });
+
+    it('should never evict the entry being inserted with the LFU policy', () => {
+      const lfu = new CustomHashmap<string, number>({ maxEntries: 2, evictionPolicy: 'lfu' });
+
+      lfu.set('a', 1);
+      lfu.set('b', 2);
+      lfu.get('a');
+      lfu.get('b');
+      lfu.set('c', 3);
+      lfu.set('d', 4);
+
+      expect(lfu.has('d')).toBe(true);
+      expect(lfu.has('c')).toBe(false);
+      expect(lfu.size).toBe(2);
+    });
+
+    it('should evict in insertion order with the FIFO policy', () => {
+      const onEvict = jest.fn();
+      const fifo = new CustomHashmap<string, number>({
+        maxEntries: 2,
+        evictionPolicy: 'fifo',
+        onEvict,
+      });
+
+      fifo.set('a', 1);
+      fifo.set('b', 2);
+      fifo.get('a');
+      fifo.set('a', 11);
+      fifo.set('c', 3);
+
+      expect(fifo.has('a')).toBe(false);
+      expect([...fifo.keys()].sort()).toEqual(['b', 'c']);
+      expect(onEvict).toHaveBeenCalledWith('a', 11);
+    });
+
+    it('should accept a custom eviction policy', () => {
+      const victims: string[] = [];
+      const policy = {
+        recordInsert: jest.fn(),
+        recordAccess: jest.fn(),
+        recordRemoval: jest.fn(),
+        selectVictim: jest.fn(() => null),
+        clear: jest.fn(),
+      };
+      const custom = new CustomHashmap<string, number>({
+        maxEntries: 1,
+        evictionPolicy: policy,
+        onEvict: key => victims.push(key),
+      });
+
+      custom.set('a', 1);
+      custom.set('b', 2);
+
+      expect(policy.recordInsert).toHaveBeenCalledTimes(2);
+      expect(policy.selectVictim).toHaveBeenCalled();
+      expect(victims).toEqual([]);
+    });
+
+    it('should evict by estimated size when maxBytes is set', () => {
+      const onEvict = jest.fn();
+      const bounded = new CustomHashmap<string, string>({
+        maxBytes: 10,
+        sizeEstimator: (_key, value) => value.length,
+        onEvict,
+      });
+
+      bounded.set('a', 'xxxx');
+      bounded.set('b', 'xxxx');
+      bounded.set('c', 'xxxx');
+
+      expect(bounded.totalBytes).toBe(8);
+      expect(bounded.has('a')).toBe(false);
+      expect(onEvict).toHaveBeenCalledWith('a', 'xxxx');
+
+      bounded.set('b', 'x');
+      expect(bounded.totalBytes).toBe(5);
+    });
+
+    it('should measure entries with the default estimator', () => {
+      const bounded = new CustomHashmap<string, { name: string }>({ maxBytes: 200 });
+
+      bounded.set('a', { name: 'first' });
+      const oneEntry = bounded.totalBytes;
+      bounded.set('b', { name: 'second' });
+
+      expect(oneEntry).toBe(estimateSize('a') + estimateSize({ name: 'first' }));
+      expect(bounded.stats()).toMatchObject({ bytes: bounded.totalBytes, maxBytes: 200 });
+
+      for (let i = 0; i < 10; i++) {
+        bounded.set(`key-${i}`, { name: 'filler' });
+      }
+      expect(bounded.totalBytes).toBeLessThanOrEqual(200);
+      expect(bounded.has('a')).toBe(false);
+    });
+
+    it('should reject entries larger than maxBytes', () => {
+      const onEvict = jest.fn();
+      const bounded = new CustomHashmap<string, string>({
+        maxBytes: 4,
+        sizeEstimator: (_key, value) => value.length,
+        onEvict,
+      });
+
+      bounded.set('small', 'xx');
+      bounded.set('large', 'xxxxxx');
+      bounded.set('small', 'xxxxxx');
+
+      expect(bounded.size).toBe(0);
+      expect(bounded.totalBytes).toBe(0);
+      expect(onEvict).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the eviction order consistent after deletes and clear', () => {
+      const lru = new CustomHashmap<string, number>({ maxEntries: 2 });
+
+      lru.set('a', 1);
+      lru.set('b', 2);
+      lru.delete('a');
+      lru.set('c', 3);
+      lru.set('d', 4);
+
+      expect([...lru.keys()].sort()).toEqual(['c', 'd']);
+
+      lru.clear();
+      lru.set('e', 5);
+      lru.set('f', 6);
+      lru.set('g', 7);
+
+      expect([...lru.keys()].sort()).toEqual(['f', 'g']);
+    });
+
+    it('should drop expired entries before evicting live ones', () => {
+      jest.useFakeTimers();
+      const onEvict = jest.fn();
+      const lru = new CustomHashmap<string, number>({ maxEntries: 2, onEvict });
+
+      lru.set('a', 1);
+      lru.set('b', 2, { ttl: 100 });
+      jest.advanceTimersByTime(100);
+      lru.set('c', 3);
+
+      expect([...lru.keys()].sort()).toEqual(['a', 'c']);
+      expect(onEvict).not.toHaveBeenCalled();
+      jest.useRealTimers();
+    });
+
+    it('should validate eviction options', () => {
+      expect(() => new CustomHashmap({ maxEntries: 0 })).toThrow(
+        'maxEntries must be a positive integer',
+      );
+      expect(() => new CustomHashmap({ maxBytes: 0 })).toThrow(
+        'maxBytes must be a positive number',
+      );
+      expect(
+        () =>
+          new CustomHashmap({
+            maxEntries: 1,
+            evictionPolicy: 'random' as unknown as EvictionPolicyName,
+          }),
+      ).toThrow('Unknown eviction policy: random');
+    });
+  });
+
+  describe('Shrinking', () => {
+    const fill = (map: CustomHashmap<string, number>, count: number) => {
+      for (let i = 0; i < count; i++) {
+        map.set(`key${i}`, i);
+      }
+    };
+
+    it('should halve capacity when the load drops below minLoadFactor', () => {
+      const shrinking = new CustomHashmap<string, number>({
+        initialCapacity: 4,
+        minLoadFactor: 0.25,
+      });
+      fill(shrinking, 100);
+      const grownCapacity = shrinking.capacity;
+
+      for (let i = 0; i < 90; i++) {
+        shrinking.delete(`key${i}`);
+      }
+
+      expect(shrinking.capacity).toBeLessThan(grownCapacity);
+      expect(shrinking.size / shrinking.capacity).toBeGreaterThanOrEqual(0.25);
+      expect(shrinking.size).toBe(10);
+    });
+
+    it('should never shrink below the initial capacity', () => {
+      const shrinking = new CustomHashmap<string, number>({ initialCapacity: 16 });
+      fill(shrinking, 200);
+
+      for (let i = 0; i < 200; i++) {
+        shrinking.delete(`key${i}`);
+      }
+
+      expect(shrinking.capacity).toBe(16);
+      expect(shrinking.size).toBe(0);
+    });
+
+    it('should not shrink when minLoadFactor is 0', () => {
+      const fixed = new CustomHashmap<string, number>({ initialCapacity: 4, minLoadFactor: 0 });
+      fill(fixed, 100);
+      const grownCapacity = fixed.capacity;
+
+      for (let i = 0; i < 100; i++) {
+        fixed.delete(`key${i}`);
+      }
+
+      expect(fixed.capacity).toBe(grownCapacity);
+    });
+
+    it('should keep size, lookups and iteration order correct across shrink cycles', () => {
+      const cycling = new CustomHashmap<string, number>({ initialCapacity: 2 });
+      const reference = new Map<string, number>();
+
+      for (let cycle = 0; cycle < 5; cycle++) {
+        for (let i = 0; i < 300; i++) {
+          cycling.set(`c${cycle}-k${i}`, i);
+          reference.set(`c${cycle}-k${i}`, i);
+        }
+        for (let i = 0; i < 300; i++) {
+          if (i % 10 !== 0) {
+            cycling.delete(`c${cycle}-k${i}`);
+            reference.delete(`c${cycle}-k${i}`);
+          }
+        }
+
+        expect(cycling.size).toBe(reference.size);
+        expect([...cycling.entries()]).toEqual([...reference.entries()]);
+      }
+
+      for (const [key, value] of reference) {
+        expect(cycling.get(key)).toBe(value);
+      }
+    });
+
+    it('should trim capacity to the smallest size that respects the load factor', () => {
+      const trimmed = new CustomHashmap<string, number>({ minLoadFactor: 0 });
+      fill(trimmed, 1000);
+      for (let i = 0; i < 970; i++) {
+        trimmed.delete(`key${i}`);
+      }
+
+      trimmed.trimToSize();
+
+      expect(trimmed.capacity).toBe(Math.ceil(30 / 0.75));
+      expect([...trimmed.keys()]).toEqual(Array.from({ length: 30 }, (_, i) => `key${i + 970}`));
+    });
+
+    it('should purge expired entries before trimming on compact', () => {
+      jest.useFakeTimers();
+      const compacted = new CustomHashmap<string, number>({ minLoadFactor: 0 });
+      for (let i = 0; i < 100; i++) {
+        compacted.set(`key${i}`, i, { ttl: i < 90 ? 100 : 10000 });
+      }
+      jest.advanceTimersByTime(100);
+
+      compacted.compact();
+
+      expect(compacted.size).toBe(10);
+      expect(compacted.capacity).toBe(Math.ceil(10 / 0.75));
+      jest.useRealTimers();
+    });
+
+    it('should reset capacity on clear', () => {
+      const cleared = new CustomHashmap<string, number>({ initialCapacity: 8 });
+      fill(cleared, 100);
+
+      cleared.clear();
+
+      expect(cleared.capacity).toBe(8);
+      cleared.set('again', 1);
+      expect(cleared.get('again')).toBe(1);
+    });
+
+    it('should reject a minLoadFactor that would cause resize thrashing', () => {
+      expect(() => new CustomHashmap({ loadFactor: 0.75, minLoadFactor: 0.4 })).toThrow(
+        'minLoadFactor must be non-negative and below half of loadFactor',
+      );
+      expect(() => new CustomHashmap({ loadFactor: 0.3 })).not.toThrow();
+    });
+  });
+
+  describe('Treeified Buckets', () => {
+    const constantHash = () => 42;
+
+    it('should keep all operations correct when every key collides', () => {
+      const colliding = new CustomHashmap<string, number>({ hashFunction: constantHash });
+
+      for (let i = 0; i < 500; i++) {
+        colliding.set(`key${i}`, i);
+      }
+      for (let i = 0; i < 500; i += 2) {
+        expect(colliding.delete(`key${i}`)).toBe(true);
+      }
+
+      expect(colliding.size).toBe(250);
+      expect(colliding.get('key1')).toBe(1);
+      expect(colliding.get('key499')).toBe(499);
+      expect(colliding.has('key0')).toBe(false);
+      expect([...colliding.keys()]).toEqual(
+        Array.from({ length: 250 }, (_, i) => `key${i * 2 + 1}`),
+      );
+    });
+
+    it('should convert long chains into trees and look up in logarithmic time', () => {
+      const equalsFunction = jest.fn((a: string, b: string) => a === b);
+      const colliding = new CustomHashmap<string, number>({
+        hashFunction: constantHash,
+        equalsFunction,
+        compareFunction: (a, b) => a.localeCompare(b),
+      });
+
+      for (let i = 0; i < 1000; i++) {
+        colliding.set(`key${i}`, i);
+      }
+      equalsFunction.mockClear();
+
+      expect(colliding.get('key500')).toBe(500);
+      expect(equalsFunction.mock.calls.length).toBeLessThanOrEqual(2);
+      expect(colliding.capacity).toBeGreaterThanOrEqual(HASHMAP_CONSTANTS.MIN_TREEIFY_CAPACITY);
+    });
+
+    it('should convert trees back into chains when they shrink', () => {
+      const equalsFunction = jest.fn((a: string, b: string) => a === b);
+      const colliding = new CustomHashmap<string, number>({
+        hashFunction: constantHash,
+        equalsFunction,
+        compareFunction: (a, b) => a.localeCompare(b),
+        initialCapacity: 64,
+      });
+      // A tree compares at most a couple of keys per lookup, a chain walks
+      // up to the key: 1 + 2 + ... + n comparisons for n lookups
+      const comparisonsToFindAll = () => {
+        equalsFunction.mockClear();
+        for (const key of [...colliding.keys()]) {
+          expect(colliding.get(key)).toBeDefined();
+        }
+        return equalsFunction.mock.calls.length;
+      };
+
+      for (let i = 0; i < HASHMAP_CONSTANTS.TREEIFY_THRESHOLD; i++) {
+        colliding.set(`key${i}`, i);
+      }
+      expect(comparisonsToFindAll()).toBeLessThanOrEqual(2 * HASHMAP_CONSTANTS.TREEIFY_THRESHOLD);
+
+      colliding.delete('key0');
+      colliding.delete('key1');
+      const remaining = HASHMAP_CONSTANTS.TREEIFY_THRESHOLD - 2;
+      expect(comparisonsToFindAll()).toBe((remaining * (remaining + 1)) / 2);
+      expect(colliding.size).toBe(remaining);
+      expect(colliding.get('key7')).toBe(7);
+    });
+
+    it('should resize small tables instead of treeifying them', () => {
+      const colliding = new CustomHashmap<string, number>({
+        hashFunction: constantHash,
+        initialCapacity: 4,
+        loadFactor: 100,
+        minLoadFactor: 0,
+      });
+
+      for (let i = 0; i < HASHMAP_CONSTANTS.TREEIFY_THRESHOLD; i++) {
+        colliding.set(`key${i}`, i);
+      }
+
+      expect(colliding.capacity).toBe(8);
+    });
+
+    it('should fall back to equality within trees for custom equality without a comparator', () => {
+      const caseInsensitive = new CustomHashmap<string, number>({
+        hashFunction: key => key.toLowerCase().length,
+        equalsFunction: (a, b) => a.toLowerCase() === b.toLowerCase(),
+        initialCapacity: 64,
+      });
+
+      for (let i = 0; i < 20; i++) {
+        caseInsensitive.set(`Key${String.fromCharCode(65 + i)}`, i);
+      }
+
+      expect(caseInsensitive.get('keyc')).toBe(2);
+      expect(caseInsensitive.delete('KEYD')).toBe(true);
+      expect(caseInsensitive.size).toBe(19);
+    });
+
+    it('should keep trees intact across resizes', () => {
+      const colliding = new CustomHashmap<number, number>({
+        hashFunction: key => (key < 100 ? 0 : key),
+      });
+
+      for (let i = 0; i < 300; i++) {
+        colliding.set(i, i * 2);
+      }
+
+      for (let i = 0; i < 300; i++) {
+        expect(colliding.get(i)).toBe(i * 2);
+      }
+      expect(colliding.size).toBe(300);
+    });
+  });
+
+  describe('Structural Keys', () => {
+    interface FolderKey {
+      productId: string;
+      folder: string;
+    }
+
+    it('should find composite keys built in a different property order', () => {
+      const structural = new CustomHashmap<FolderKey, number>({ keyEquality: 'structural' });
+
+      structural.set({ productId: 'p1', folder: 'docs' }, 3);
+
+      expect(structural.get({ folder: 'docs', productId: 'p1' })).toBe(3);
+      expect(structural.has({ productId: 'p1', folder: 'images' })).toBe(false);
+    });
+
+    it('should overwrite and delete equal composite keys', () => {
+      const structural = new CustomHashmap<FolderKey, number>({ keyEquality: 'structural' });
+
+      structural.set({ productId: 'p1', folder: 'docs' }, 1);
+      structural.set({ folder: 'docs', productId: 'p1' }, 2);
+
+      expect(structural.size).toBe(1);
+      expect(structural.get({ productId: 'p1', folder: 'docs' })).toBe(2);
+      expect(structural.delete({ folder: 'docs', productId: 'p1' })).toBe(true);
+      expect(structural.size).toBe(0);
+    });
+
+    it('should keep identity semantics by default', () => {
+      const identity = new CustomHashmap<FolderKey, number>();
+      const key = { productId: 'p1', folder: 'docs' };
+      identity.set(key, 1);
+
+      expect(identity.get(key)).toBe(1);
+      expect(identity.get({ productId: 'p1', folder: 'docs' })).toBeUndefined();
+    });
+
+    it('should accept cyclic keys', () => {
+      const structural = new CustomHashmap<object, string>({ keyEquality: 'structural' });
+      const first: Record<string, unknown> = { id: 1 };
+      first.parent = first;
+      const second: Record<string, unknown> = { id: 1 };
+      second.parent = second;
+
+      structural.set(first, 'cyclic');
+
+      expect(structural.get(second)).toBe('cyclic');
+    });
+
+    it('should stay consistent across resizes and treeified buckets', () => {
+      const structural = new CustomHashmap<FolderKey, number>({
+        keyEquality: 'structural',
+        initialCapacity: 2,
+      });
+
+      for (let i = 0; i < 500; i++) {
+        structural.set({ productId: `p${i % 50}`, folder: `f${i}` }, i);
+      }
+
+      expect(structural.size).toBe(500);
+      for (let i = 0; i < 500; i++) {
+        expect(structural.get({ folder: `f${i}`, productId: `p${i % 50}` })).toBe(i);
+      }
+    });
+  });
+
+  describe('Incremental Rehashing', () => {
+    const occupiedBuckets = (map: CustomHashmap<unknown, unknown>) =>
+      map.capacity - (map.stats().bucketOccupancy[0] ?? 0);
+    // Every operation moves at most REHASH_BUCKETS_PER_STEP buckets, so draining
+    // the old table takes at least occupied / REHASH_BUCKETS_PER_STEP of them
+    const operationsUntilRehashed = (
+      map: CustomHashmap<unknown, unknown>,
+      operation: () => void,
+    ) => {
+      let operations = 0;
+      while (map.rehashing) {
+        operation();
+        operations++;
+      }
+      return operations;
+    };
+
+    it('should migrate buckets gradually after growing', () => {
+      const growing = new CustomHashmap<string, number>({ initialCapacity: 64 });
+      for (let i = 0; i < 48; i++) {
+        growing.set(`key${i}`, i);
+      }
+      expect(growing.rehashing).toBe(false);
+      const occupied = occupiedBuckets(growing);
+
+      growing.set('key48', 48);
+
+      expect(growing.capacity).toBe(128);
+      expect(growing.rehashing).toBe(true);
+      growing.get('key0');
+      expect(growing.rehashing).toBe(true);
+      const operations = operationsUntilRehashed(growing, () => growing.get('key0')) + 1;
+      expect(operations).toBeGreaterThanOrEqual(
+        Math.ceil(occupied / HASHMAP_CONSTANTS.REHASH_BUCKETS_PER_STEP),
+      );
+    });
+
+    it('should find, update and delete keys in either table while rehashing', () => {
+      const growing = new CustomHashmap<string, number>({ initialCapacity: 64 });
+      for (let i = 0; i < 49; i++) {
+        growing.set(`key${i}`, i);
+      }
+      expect(growing.rehashing).toBe(true);
+
+      for (let i = 0; i < 49; i++) {
+        growing.set(`key${i}`, i * 10);
+      }
+      growing.set('fresh', -1);
+
+      expect(growing.size).toBe(50);
+      expect(growing.delete('key3')).toBe(true);
+      expect(growing.delete('key3')).toBe(false);
+      expect(growing.has('fresh')).toBe(true);
+      for (let i = 0; i < 49; i++) {
+        expect(growing.get(`key${i}`)).toBe(i === 3 ? undefined : i * 10);
+      }
+      expect(growing.size).toBe(49);
+    });
+
+    it('should report bucket stats for the current table only while rehashing', () => {
+      const growing = new CustomHashmap<string, number>({ initialCapacity: 64 });
+      for (let i = 0; i < 49; i++) {
+        growing.set(`key${i}`, i);
+      }
+      expect(growing.rehashing).toBe(true);
+
+      const { bucketOccupancy, capacity, size } = growing.stats();
+      const buckets = Object.values(bucketOccupancy).reduce((total, count) => total + count, 0);
+      const entries = Object.entries(bucketOccupancy).reduce(
+        (total, [length, count]) => total + Number(length) * count,
+        0,
+      );
+
+      expect(growing.rehashing).toBe(true);
+      expect(buckets).toBe(capacity);
+      expect(entries).toBe(size);
+    });
+
+    it('should finish migrating after enough operations', () => {
+      const growing = new CustomHashmap<number, number>();
+
+      for (let i = 0; i < 5000; i++) {
+        growing.set(i, i);
+      }
+      for (let i = 0; i < 5000 && growing.rehashing; i++) {
+        growing.get(i);
+      }
+
+      expect(growing.rehashing).toBe(false);
+      expect(growing.size).toBe(5000);
+      expect([...growing.keys()]).toEqual(Array.from({ length: 5000 }, (_, i) => i));
+    });
+
+    it('should bound the number of buckets moved by a single operation', () => {
+      const growing = new CustomHashmap<number, number>({ initialCapacity: 1024 });
+      for (let i = 0; i < 768; i++) {
+        growing.set(i, i);
+      }
+      const occupied = occupiedBuckets(growing);
+      growing.set(768, 768);
+      expect(growing.rehashing).toBe(true);
+
+      expect(operationsUntilRehashed(growing, () => growing.has(0))).toBeGreaterThanOrEqual(
+        Math.ceil(occupied / HASHMAP_CONSTANTS.REHASH_BUCKETS_PER_STEP),
+      );
+      expect(growing.size).toBe(769);
+    });
+
+    it('should shrink incrementally as well', () => {
+      const shrinking = new CustomHashmap<number, number>({ initialCapacity: 16 });
+      for (let i = 0; i < 200; i++) {
+        shrinking.set(i, i);
+      }
+      const grownCapacity = shrinking.capacity;
+
+      for (let i = 0; i < 190; i++) {
+        shrinking.delete(i);
+      }
+
+      expect(shrinking.capacity).toBeLessThan(grownCapacity);
+      for (let i = 190; i < 200; i++) {
+        expect(shrinking.get(i)).toBe(i);
+      }
+      expect(shrinking.size).toBe(10);
+    });
+
+    it('should complete a pending rehash before starting another resize', () => {
+      const growing = new CustomHashmap<string, number>({ initialCapacity: 64 });
+      for (let i = 0; i < 49; i++) {
+        growing.set(`key${i}`, i);
+      }
+      expect(growing.rehashing).toBe(true);
+
+      growing.trimToSize();
+
+      expect(growing.capacity).toBe(Math.ceil(49 / 0.75));
+      for (let i = 0; i < 49; i++) {
+        expect(growing.get(`key${i}`)).toBe(i);
+      }
+    });
+
+    it('should drop the old table on clear', () => {
+      const growing = new CustomHashmap<string, number>({ initialCapacity: 64 });
+      for (let i = 0; i < 49; i++) {
+        growing.set(`key${i}`, i);
+      }
+
+      growing.clear();
+
+      expect(growing.rehashing).toBe(false);
+      expect(growing.get('key1')).toBeUndefined();
+      expect(growing.size).toBe(0);
+    });
+  });
 });
\ No newline at end of file
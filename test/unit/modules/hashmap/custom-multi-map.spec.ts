@@ -0,0 +1,101 @@
+import { CustomMultiMap } from '../../../../src/modules/hashmap/custom-multi-map';
+
+describe('CustomMultiMap', () => {
+  let multiMap: CustomMultiMap<string, string>;
+
+  beforeEach(() => {
+    multiMap = new CustomMultiMap<string, string>();
+  });
+
+  it('should map one key to many distinct values', () => {
+    expect(multiMap.put('p1', 'a.pdf')).toBe(true);
+    expect(multiMap.put('p1', 'b.pdf')).toBe(true);
+    expect(multiMap.put('p1', 'a.pdf')).toBe(false);
+    multiMap.put('p2', 'c.pdf');
+
+    expect(multiMap.get('p1')).toEqual(['a.pdf', 'b.pdf']);
+    expect(multiMap.size).toBe(3);
+    expect(multiMap.keyCount).toBe(2);
+    expect(multiMap.valueCount('p1')).toBe(2);
+  });
+
+  it('should return an empty array for unknown keys', () => {
+    expect(multiMap.get('missing')).toEqual([]);
+    expect(multiMap.valueCount('missing')).toBe(0);
+  });
+
+  it('should not expose the stored value set', () => {
+    multiMap.put('p1', 'a.pdf');
+    multiMap.get('p1').push('b.pdf');
+
+    expect(multiMap.get('p1')).toEqual(['a.pdf']);
+  });
+
+  it('should check keys and key-value pairs', () => {
+    multiMap.put('p1', 'a.pdf');
+
+    expect(multiMap.has('p1')).toBe(true);
+    expect(multiMap.hasEntry('p1', 'a.pdf')).toBe(true);
+    expect(multiMap.hasEntry('p1', 'b.pdf')).toBe(false);
+    expect(multiMap.hasEntry('p2', 'a.pdf')).toBe(false);
+  });
+
+  it('should add several values at once', () => {
+    expect(multiMap.putAll('p1', ['a.pdf', 'b.pdf', 'a.pdf'])).toBe(2);
+    expect(multiMap.size).toBe(2);
+  });
+
+  it('should drop a key once its last value is deleted', () => {
+    multiMap.putAll('p1', ['a.pdf', 'b.pdf']);
+
+    expect(multiMap.delete('p1', 'a.pdf')).toBe(true);
+    expect(multiMap.delete('p1', 'a.pdf')).toBe(false);
+    expect(multiMap.has('p1')).toBe(true);
+    expect(multiMap.delete('p1', 'b.pdf')).toBe(true);
+
+    expect(multiMap.has('p1')).toBe(false);
+    expect(multiMap.size).toBe(0);
+    expect(multiMap.delete('missing', 'a.pdf')).toBe(false);
+  });
+
+  it('should delete every value of a key', () => {
+    multiMap.putAll('p1', ['a.pdf', 'b.pdf']);
+    multiMap.put('p2', 'c.pdf');
+
+    expect(multiMap.deleteAll('p1')).toEqual(['a.pdf', 'b.pdf']);
+    expect(multiMap.deleteAll('p1')).toEqual([]);
+    expect(multiMap.size).toBe(1);
+  });
+
+  it('should iterate keys and key-value pairs in insertion order', () => {
+    multiMap.put('p2', 'c.pdf');
+    multiMap.putAll('p1', ['a.pdf', 'b.pdf']);
+
+    expect([...multiMap.keys()]).toEqual(['p2', 'p1']);
+    expect([...multiMap]).toEqual([
+      ['p2', 'c.pdf'],
+      ['p1', 'a.pdf'],
+      ['p1', 'b.pdf'],
+    ]);
+  });
+
+  it('should clear every key', () => {
+    multiMap.putAll('p1', ['a.pdf', 'b.pdf']);
+    multiMap.clear();
+
+    expect(multiMap.size).toBe(0);
+    expect(multiMap.keyCount).toBe(0);
+  });
+
+  it('should apply separate options to keys and values', () => {
+    const byFolder = new CustomMultiMap<{ folder: string }, { id: number }>({
+      keys: { keyEquality: 'structural' },
+      values: { keyEquality: 'structural' },
+    });
+
+    byFolder.put({ folder: 'docs' }, { id: 1 });
+
+    expect(byFolder.put({ folder: 'docs' }, { id: 1 })).toBe(false);
+    expect(byFolder.hasEntry({ folder: 'docs' }, { id: 1 })).toBe(true);
+  });
+});
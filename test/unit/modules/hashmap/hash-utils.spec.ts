@@ -161,6 +161,10 @@ describe('HashUtils', () => {
   });
 
   describe('Hash Distribution', () => {
+    // A fixed seed keeps bucket placement of the small sample reproducible
+    beforeAll(() => HashUtils.setSeed(1, 31));
+    afterAll(() => HashUtils.resetSeed());
+
     it('should provide reasonable distribution for string keys', () => {
       const capacity = 16;
       const keys = [
@@ -200,4 +204,214 @@ describe('HashUtils', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Seeded hashing', () => {
+    afterEach(() => HashUtils.resetSeed());
+
+    // 'ab' and 'bA' share a DJB2 hash, so every concatenation of them does too
+    const djb2CollidingKeys = (blocks: number): string[] =>
+      Array.from({ length: 2 ** blocks }, (_, mask) =>
+        Array.from({ length: blocks }, (_, bit) => ((mask >> bit) & 1 ? 'bA' : 'ab')).join(''),
+      );
+
+    it('should use SipHash for strings by default', () => {
+      expect(HashUtils.defaultHash('hello')).toBe(HashUtils.sipHash('hello'));
+      expect(HashUtils.defaultHash('hello', 'djb2')).toBe(HashUtils.djb2('hello'));
+    });
+
+    it('should keep the classic DJB2 values', () => {
+      expect(HashUtils.djb2('')).toBe(5381);
+      expect(HashUtils.djb2('a')).toBe(5381 * 33 + 97);
+      expect(HashUtils.hash('abc', undefined, 'djb2')).toBe(HashUtils.djb2('abc'));
+    });
+
+    it('should be deterministic for a given seed', () => {
+      HashUtils.setSeed(0x01234567, 0x89abcdef);
+      const first = HashUtils.defaultHash('product-1/folder/file.pdf');
+      HashUtils.setSeed(0x01234567, 0x89abcdef);
+
+      expect(HashUtils.defaultHash('product-1/folder/file.pdf')).toBe(first);
+    });
+
+    it('should change string hashes when the seed changes', () => {
+      const keys = Array.from({ length: 20 }, (_, i) => `key${i}`);
+      HashUtils.setSeed(1, 2);
+      const before = keys.map(key => HashUtils.defaultHash(key));
+      HashUtils.setSeed(3, 4);
+      const after = keys.map(key => HashUtils.defaultHash(key));
+
+      expect(after).not.toEqual(before);
+    });
+
+    it('should distinguish strings that differ only in length or trailing characters', () => {
+      expect(HashUtils.sipHash('')).not.toBe(HashUtils.sipHash('\u0000'));
+      expect(HashUtils.sipHash('ab')).not.toBe(HashUtils.sipHash('ab\u0000'));
+      expect(HashUtils.sipHash('abc')).not.toBe(HashUtils.sipHash('abd'));
+    });
+
+    it('should spread keys that all collide under DJB2', () => {
+      const keys = djb2CollidingKeys(8);
+
+      expect(new Set(keys.map(key => HashUtils.djb2(key))).size).toBe(1);
+      expect(new Set(keys.map(key => HashUtils.sipHash(key))).size).toBeGreaterThan(250);
+    });
+  });
+
+  describe('Primitive and special keys', () => {
+    it('should give distinct hashes to fractional and large numbers', () => {
+      const numbers = [1, 1.1, 1.9, 2 ** 32, 2 ** 32 + 1, 2 ** 53, -1.5, Number.MAX_VALUE];
+      const hashes = numbers.map(num => HashUtils.defaultHash(num));
+
+      expect(new Set(hashes).size).toBe(numbers.length);
+    });
+
+    it('should hash -0 like 0 and NaN consistently', () => {
+      expect(HashUtils.defaultHash(-0)).toBe(HashUtils.defaultHash(0));
+      expect(HashUtils.defaultHash(NaN)).toBe(HashUtils.defaultHash(0 / 0));
+      expect(HashUtils.defaultHash(Infinity)).not.toBe(HashUtils.defaultHash(-Infinity));
+    });
+
+    it('should hash bigints without throwing', () => {
+      const hashes = [0n, 1n, -1n, 2n ** 64n, 2n ** 64n + 1n].map(num =>
+        HashUtils.defaultHash(num),
+      );
+
+      expect(new Set(hashes).size).toBe(5);
+      expect(HashUtils.defaultHash(2n ** 100n)).toBe(HashUtils.defaultHash(2n ** 100n));
+    });
+
+    it('should hash dates by their timestamp', () => {
+      const date = new Date('2024-01-01T00:00:00.000Z');
+
+      expect(HashUtils.defaultHash(new Date(date.getTime()))).toBe(HashUtils.defaultHash(date));
+      expect(HashUtils.defaultHash(new Date(date.getTime() + 1))).not.toBe(
+        HashUtils.defaultHash(date),
+      );
+    });
+
+    it('should hash symbols by description and registry key', () => {
+      expect(HashUtils.defaultHash(Symbol('a'))).toBe(HashUtils.defaultHash(Symbol('a')));
+      expect(HashUtils.defaultHash(Symbol('a'))).not.toBe(HashUtils.defaultHash(Symbol('b')));
+      expect(HashUtils.defaultHash(Symbol.for('a'))).not.toBe(HashUtils.defaultHash(Symbol('a')));
+    });
+  });
+
+  describe('sameValueZero', () => {
+    it('should follow Map key equality', () => {
+      const symbol = Symbol('s');
+
+      expect(HashUtils.sameValueZero(NaN, NaN)).toBe(true);
+      expect(HashUtils.sameValueZero(0, -0)).toBe(true);
+      expect(HashUtils.sameValueZero(1n, 1n)).toBe(true);
+      expect(HashUtils.sameValueZero(symbol, symbol)).toBe(true);
+      expect(HashUtils.sameValueZero<unknown>(1, '1')).toBe(false);
+      expect(HashUtils.sameValueZero<unknown>(1, 1n)).toBe(false);
+      expect(HashUtils.sameValueZero({}, {})).toBe(false);
+    });
+  });
+
+  describe('structuralHash', () => {
+    it('should ignore property order', () => {
+      expect(HashUtils.structuralHash({ a: 1, b: 2 })).toBe(
+        HashUtils.structuralHash({ b: 2, a: 1 }),
+      );
+      expect(HashUtils.structuralHash({ a: 1, b: 2 })).not.toBe(
+        HashUtils.structuralHash({ a: 2, b: 1 }),
+      );
+    });
+
+    it('should respect array order but not Map or Set order', () => {
+      expect(HashUtils.structuralHash([1, 2])).not.toBe(HashUtils.structuralHash([2, 1]));
+      expect(
+        HashUtils.structuralHash(
+          new Map([
+            ['a', 1],
+            ['b', 2],
+          ]),
+        ),
+      ).toBe(
+        HashUtils.structuralHash(
+          new Map([
+            ['b', 2],
+            ['a', 1],
+          ]),
+        ),
+      );
+      expect(HashUtils.structuralHash(new Set([1, 2]))).toBe(
+        HashUtils.structuralHash(new Set([2, 1])),
+      );
+    });
+
+    it('should hash nested structures by content', () => {
+      const first = { productId: 'p1', folder: { path: ['docs', 'specs'] } };
+      const second = { folder: { path: ['docs', 'specs'] }, productId: 'p1' };
+
+      expect(HashUtils.structuralHash(first)).toBe(HashUtils.structuralHash(second));
+      expect(HashUtils.structuralHash({ list: [] })).not.toBe(
+        HashUtils.structuralHash({ list: {} }),
+      );
+    });
+
+    it('should terminate on cyclic structures', () => {
+      const first: Record<string, unknown> = { name: 'node' };
+      first.self = first;
+      const second: Record<string, unknown> = { self: null, name: 'node' };
+      second.self = second;
+
+      expect(HashUtils.structuralHash(first)).toBe(HashUtils.structuralHash(second));
+      expect(HashUtils.structuralHash(first)).not.toBe(
+        HashUtils.structuralHash({ name: 'node', self: {} }),
+      );
+    });
+  });
+
+  describe('deepEquals', () => {
+    it('should compare primitives with SameValueZero', () => {
+      expect(HashUtils.deepEquals(NaN, NaN)).toBe(true);
+      expect(HashUtils.deepEquals(0, -0)).toBe(true);
+      expect(HashUtils.deepEquals<unknown>(1, '1')).toBe(false);
+    });
+
+    it('should compare objects regardless of property order', () => {
+      expect(HashUtils.deepEquals({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 })).toBe(
+        true,
+      );
+      expect(HashUtils.deepEquals<object>({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+      expect(HashUtils.deepEquals<unknown>([1, 2], { 0: 1, 1: 2 })).toBe(false);
+    });
+
+    it('should compare dates, maps and sets by content', () => {
+      expect(HashUtils.deepEquals(new Date(5), new Date(5))).toBe(true);
+      expect(HashUtils.deepEquals(new Date(5), new Date(6))).toBe(false);
+      expect(HashUtils.deepEquals(new Map([['a', { x: 1 }]]), new Map([['a', { x: 1 }]]))).toBe(
+        true,
+      );
+      expect(HashUtils.deepEquals(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+      expect(HashUtils.deepEquals(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+    });
+
+    it('should require matching prototypes', () => {
+      class Point {
+        constructor(
+          readonly x: number,
+          readonly y: number,
+        ) {}
+      }
+
+      expect(HashUtils.deepEquals(new Point(1, 2), new Point(1, 2))).toBe(true);
+      expect(HashUtils.deepEquals<object>(new Point(1, 2), { x: 1, y: 2 })).toBe(false);
+    });
+
+    it('should compare cyclic structures by shape', () => {
+      const first: Record<string, unknown> = { name: 'node' };
+      first.self = first;
+      const second: Record<string, unknown> = { name: 'node' };
+      second.self = second;
+      const unrolled: Record<string, unknown> = { name: 'node', self: second };
+
+      expect(HashUtils.deepEquals(first, second)).toBe(true);
+      expect(HashUtils.deepEquals(first, first)).toBe(true);
+      expect(HashUtils.deepEquals(first, unrolled)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { HashmapBatch } from '../../../../src/modules/hashmap/hashmap-batch';
+import { LoadingHashmap } from '../../../../src/modules/hashmap/loading-hashmap';
+
+describe('HashmapBatch', () => {
+  let hashmap: CustomHashmap<string, number>;
+
+  beforeEach(() => {
+    hashmap = new CustomHashmap<string, number>();
+    hashmap.set('existing', 0);
+  });
+
+  it('should not touch the map until commit', () => {
+    const batch = hashmap.batch().set('a', 1).delete('existing');
+
+    expect(batch.size).toBe(2);
+    expect(hashmap.has('a')).toBe(false);
+    expect(hashmap.get('existing')).toBe(0);
+  });
+
+  it('should apply staged operations in order on commit', () => {
+    const batch = hashmap.batch();
+    batch.set('a', 1).set('b', 2).delete('a').set('b', 3).delete('existing');
+
+    batch.commit();
+
+    expect([...hashmap.entries()]).toEqual([['b', 3]]);
+    expect(batch.state).toBe('committed');
+    expect(batch.size).toBe(0);
+  });
+
+  it('should forward TTL options', () => {
+    jest.useFakeTimers();
+    try {
+      hashmap.batch().set('short', 1, { ttl: 100 }).commit();
+      jest.advanceTimersByTime(100);
+
+      expect(hashmap.has('short')).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should discard staged operations on rollback', () => {
+    const batch = hashmap.batch().set('a', 1).delete('existing');
+
+    batch.rollback();
+
+    expect(batch.state).toBe('rolledBack');
+    expect(hashmap.has('a')).toBe(false);
+    expect(hashmap.get('existing')).toBe(0);
+  });
+
+  it('should put back what it wrote when an operation throws partway through', () => {
+    jest.useFakeTimers();
+    try {
+      hashmap.set('short', 5, { ttl: 1000 });
+      hashmap.subscribe(event => {
+        if (event.type === 'set' && event.key === 'c') {
+          throw new Error('listener failed');
+        }
+      });
+      const batch = hashmap
+        .batch()
+        .set('a', 1)
+        .delete('existing')
+        .set('short', 6)
+        .set('a', 2)
+        .set('c', 3)
+        .set('d', 4);
+
+      expect(() => batch.commit()).toThrow('listener failed');
+
+      expect(batch.state).toBe('rolledBack');
+      expect(hashmap.has('a')).toBe(false);
+      expect(hashmap.has('c')).toBe(false);
+      expect(hashmap.has('d')).toBe(false);
+      expect(hashmap.get('existing')).toBe(0);
+      expect(hashmap.get('short')).toBe(5);
+      jest.advanceTimersByTime(1000);
+      expect(hashmap.has('short')).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject use after it has completed', () => {
+    const committed = hashmap.batch();
+    committed.commit();
+    const rolledBack = hashmap.batch();
+    rolledBack.rollback();
+
+    expect(() => committed.set('a', 1)).toThrow('Batch is already committed');
+    expect(() => committed.rollback()).toThrow('Batch is already committed');
+    expect(() => rolledBack.commit()).toThrow('Batch is already rolled back');
+  });
+
+  it('should validate operations when they are staged', () => {
+    const batch = hashmap.batch();
+
+    expect(() => batch.set(undefined, 1)).toThrow('Key cannot be undefined');
+    expect(() => batch.set('a', 1, { ttl: 0 })).toThrow('TTL must be a positive number');
+    expect(batch.size).toBe(0);
+  });
+
+  it('should apply to any target with set and delete', () => {
+    const target = new Map<string, number>();
+
+    new HashmapBatch(target).set('a', 1).commit();
+
+    expect(target.get('a')).toBe(1);
+  });
+
+  it('should clear cached misses when committed through a loading cache', async () => {
+    const cache = new LoadingHashmap(hashmap);
+    await cache.getOrLoad('a', () => Promise.resolve(undefined));
+
+    cache.batch().set('a', 1).commit();
+    hashmap.delete('a');
+
+    await expect(cache.getOrLoad('a', () => Promise.resolve(2))).resolves.toBe(2);
+  });
+});
@@ -0,0 +1,653 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHashmap } from '../../../../src/modules/hashmap/hashmap-factory';
+import { ConcurrentModificationError } from '../../../../src/modules/hashmap/errors';
+import {
+  Hashmap,
+  HashmapEvent,
+  HashmapImplementation,
+  HashmapOptions,
+} from '../../../../src/modules/hashmap/types';
+
+const implementations: HashmapImplementation[] = ['chaining', 'robin-hood'];
+
+describe.each(implementations)('Hashmap conformance: %s', implementation => {
+  const create = <K, V>(options?: HashmapOptions<K, V>) =>
+    createHashmap<K, V>(implementation, options);
+
+  describe('Basic Operations', () => {
+    it('should set, get, update and delete entries', () => {
+      const hashmap = create<string, number>();
+
+      hashmap.set('a', 1);
+      hashmap.set('b', 2);
+      hashmap.set('a', 3);
+
+      expect(hashmap.size).toBe(2);
+      expect(hashmap.get('a')).toBe(3);
+      expect(hashmap.has('b')).toBe(true);
+      expect(hashmap.delete('b')).toBe(true);
+      expect(hashmap.delete('b')).toBe(false);
+      expect(hashmap.get('b')).toBeUndefined();
+      expect(hashmap.size).toBe(1);
+    });
+
+    it('should reject undefined keys', () => {
+      expect(() => create<string, number>().set(undefined, 1)).toThrow('Key cannot be undefined');
+    });
+
+    it('should reset on clear', () => {
+      const hashmap = create<number, number>({ initialCapacity: 4 });
+      for (let i = 0; i < 100; i++) {
+        hashmap.set(i, i);
+      }
+
+      hashmap.clear();
+
+      expect(hashmap.size).toBe(0);
+      expect(hashmap.capacity).toBe(4);
+      expect(hashmap.get(1)).toBeUndefined();
+    });
+
+    it('should follow SameValueZero key equality', () => {
+      const hashmap = create<unknown, string>();
+      const objectKey = { id: 1 };
+
+      hashmap.set(NaN, 'nan');
+      hashmap.set(-0, 'zero');
+      hashmap.set(1n, 'bigint');
+      hashmap.set(objectKey, 'object');
+
+      expect(hashmap.get(NaN)).toBe('nan');
+      expect(hashmap.get(0)).toBe('zero');
+      expect(hashmap.get(1)).toBeUndefined();
+      expect(hashmap.get(1n)).toBe('bigint');
+      expect(hashmap.get(objectKey)).toBe('object');
+      expect(hashmap.get({ id: 1 })).toBeUndefined();
+    });
+
+    it('should support structural keys', () => {
+      const hashmap = create<{ productId: string; folder: string }, number>({
+        keyEquality: 'structural',
+      });
+
+      hashmap.set({ productId: 'p1', folder: 'docs' }, 1);
+
+      expect(hashmap.get({ folder: 'docs', productId: 'p1' })).toBe(1);
+    });
+  });
+
+  describe('Iteration', () => {
+    it('should iterate in insertion order', () => {
+      const hashmap = create<string, number>();
+      ['c', 'a', 'b'].forEach((key, i) => hashmap.set(key, i));
+      hashmap.delete('a');
+      hashmap.set('a', 9);
+
+      expect([...hashmap.keys()]).toEqual(['c', 'b', 'a']);
+      expect([...hashmap.values()]).toEqual([0, 2, 9]);
+      expect([...hashmap]).toEqual([
+        ['c', 0],
+        ['b', 2],
+        ['a', 9],
+      ]);
+    });
+
+    it('should fail fast on structural modification', () => {
+      const hashmap = create<string, number>();
+      hashmap.set('a', 1);
+      hashmap.set('b', 2);
+
+      expect(() => {
+        for (const key of hashmap.keys()) {
+          hashmap.delete(key);
+        }
+      }).toThrow(ConcurrentModificationError);
+    });
+  });
+
+  describe('Resizing', () => {
+    it('should grow, shrink and trim while keeping every entry', () => {
+      const hashmap = create<number, number>({ initialCapacity: 4 });
+      for (let i = 0; i < 1000; i++) {
+        hashmap.set(i, i * 2);
+      }
+      const grownCapacity = hashmap.capacity;
+      expect(grownCapacity).toBeGreaterThanOrEqual(1000 / 0.75);
+
+      for (let i = 0; i < 990; i++) {
+        hashmap.delete(i);
+      }
+      hashmap.trimToSize();
+
+      expect(hashmap.capacity).toBeLessThan(grownCapacity);
+      for (let i = 990; i < 1000; i++) {
+        expect(hashmap.get(i)).toBe(i * 2);
+      }
+    });
+
+    it('should handle keys that all share one hash', () => {
+      const hashmap = create<string, number>({ hashFunction: () => 7 });
+      for (let i = 0; i < 200; i++) {
+        hashmap.set(`key${i}`, i);
+      }
+      for (let i = 0; i < 200; i += 3) {
+        hashmap.delete(`key${i}`);
+      }
+
+      for (let i = 0; i < 200; i++) {
+        expect(hashmap.get(`key${i}`)).toBe(i % 3 === 0 ? undefined : i);
+      }
+    });
+
+    it('should agree with Map under a random workload', () => {
+      const hashmap = create<number, number>({ initialCapacity: 2 });
+      const reference = new Map<number, number>();
+      let seed = 42;
+      const random = () => {
+        seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+        return seed;
+      };
+
+      for (let step = 0; step < 5000; step++) {
+        const key = random() % 500;
+        switch (random() % 3) {
+          case 0:
+            hashmap.set(key, step);
+            reference.set(key, step);
+            break;
+          case 1:
+            expect(hashmap.delete(key)).toBe(reference.delete(key));
+            break;
+          default:
+            expect(hashmap.get(key)).toBe(reference.get(key));
+        }
+      }
+
+      expect(hashmap.size).toBe(reference.size);
+      expect([...hashmap.entries()]).toEqual([...reference.entries()]);
+    });
+  });
+
+  describe('Expiration and Eviction', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should expire entries after their TTL', () => {
+      const hashmap = create<string, number>({ defaultTtl: 1000 });
+      hashmap.set('short', 1);
+      hashmap.set('forever', 2, { ttl: Infinity });
+
+      jest.advanceTimersByTime(1000);
+
+      expect(hashmap.get('short')).toBeUndefined();
+      expect(hashmap.get('forever')).toBe(2);
+      expect(hashmap.size).toBe(1);
+    });
+
+    it('should evict the least recently used entry when full', () => {
+      const onEvict = jest.fn();
+      const hashmap = create<string, number>({ maxEntries: 2, onEvict });
+      hashmap.set('a', 1);
+      hashmap.set('b', 2);
+      hashmap.get('a');
+
+      hashmap.set('c', 3);
+
+      expect(onEvict).toHaveBeenCalledWith('b', 2);
+      expect([...hashmap.keys()]).toEqual(['a', 'c']);
+    });
+
+    it('should keep iterating when a read removes an expired entry', () => {
+      const hashmap = create<string, number>();
+      hashmap.set('a', 1);
+      hashmap.set('short', 2, { ttl: 1000 });
+      hashmap.set('b', 3);
+      hashmap.set('c', 4, { ttl: 1000 });
+      jest.advanceTimersByTime(1000);
+
+      const seen: string[] = [];
+      for (const key of hashmap.keys()) {
+        seen.push(key);
+        expect(hashmap.get('short')).toBeUndefined();
+        expect(hashmap.has('c')).toBe(false);
+        expect(hashmap.size).toBe(2);
+      }
+
+      expect(seen).toEqual(['a', 'b']);
+    });
+
+    it('should keep iterating when the entry just visited expires and is read', () => {
+      const hashmap = create<string, number>();
+      hashmap.set('a', 1, { ttl: 1000 });
+      hashmap.set('b', 2);
+
+      const seen: string[] = [];
+      for (const [key] of hashmap) {
+        seen.push(key);
+        jest.advanceTimersByTime(1000);
+        hashmap.get(key);
+      }
+
+      expect(seen).toEqual(['a', 'b']);
+      expect(hashmap.size).toBe(1);
+    });
+
+    it('should account for estimated bytes', () => {
+      const hashmap = create<string, string>({
+        maxBytes: 10,
+        sizeEstimator: (_key, value) => value.length,
+      });
+      hashmap.set('a', 'xxxx');
+      hashmap.set('b', 'yyyy');
+      hashmap.set('c', 'zzzz');
+
+      expect(hashmap.totalBytes).toBe(8);
+      expect(hashmap.has('a')).toBe(false);
+    });
+  });
+
+  describe('Statistics', () => {
+    it('should report size, capacity and load', () => {
+      const hashmap = create<number, number>({ initialCapacity: 16 });
+      for (let i = 0; i < 8; i++) {
+        hashmap.set(i, i);
+      }
+
+      const stats = hashmap.stats();
+
+      expect(stats).toMatchObject({ size: 8, capacity: 16, loadFactor: 0.5, maxLoadFactor: 0.75 });
+      expect(Object.values(stats.bucketOccupancy).reduce((sum, count) => sum + count, 0)).toBe(16);
+      expect(stats.longestChain).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should expose collisions through the occupancy histogram', () => {
+      const hashmap = create<string, number>({ initialCapacity: 64, hashFunction: () => 3 });
+      ['a', 'b', 'c', 'd'].forEach((key, i) => hashmap.set(key, i));
+
+      const stats = hashmap.stats();
+
+      expect(stats.longestChain).toBe(4);
+      expect(stats.bucketOccupancy[4]).toBe(1);
+      expect(stats.bucketOccupancy[0]).toBeGreaterThanOrEqual(60);
+    });
+
+    it('should count resizes, hits and misses', () => {
+      const hashmap = create<number, number>({ initialCapacity: 4 });
+      for (let i = 0; i < 20; i++) {
+        hashmap.set(i, i);
+      }
+      hashmap.get(1);
+      hashmap.get(2);
+      hashmap.get(3);
+      hashmap.get(100);
+
+      const stats = hashmap.stats();
+
+      expect(stats.resizeCount).toBe(3);
+      expect(stats.hits).toBe(3);
+      expect(stats.misses).toBe(1);
+      expect(stats.hitRate).toBe(0.75);
+    });
+
+    it('should report a zero hit rate before any lookups', () => {
+      expect(create<string, number>().stats().hitRate).toBe(0);
+    });
+  });
+
+  describe('Compute Operations', () => {
+    let hashmap: Hashmap<string, number>;
+
+    beforeEach(() => {
+      hashmap = create<string, number>();
+      hashmap.set('a', 1);
+      hashmap.set('nothing', undefined);
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    describe('getOrDefault', () => {
+      it('should return the default only for missing keys', () => {
+        expect(hashmap.getOrDefault('a', 0)).toBe(1);
+        expect(hashmap.getOrDefault('missing', 0)).toBe(0);
+        expect(hashmap.getOrDefault('nothing', 0)).toBeUndefined();
+      });
+
+      it('should count hits and misses', () => {
+        hashmap.getOrDefault('a', 0);
+        hashmap.getOrDefault('missing', 0);
+
+        expect(hashmap.stats()).toMatchObject({ hits: 1, misses: 1 });
+      });
+    });
+
+    describe('putIfAbsent', () => {
+      it('should insert missing keys and return undefined', () => {
+        expect(hashmap.putIfAbsent('b', 2)).toBeUndefined();
+        expect(hashmap.get('b')).toBe(2);
+      });
+
+      it('should keep and return an existing value', () => {
+        expect(hashmap.putIfAbsent('a', 5)).toBe(1);
+        expect(hashmap.get('a')).toBe(1);
+      });
+
+      it('should replace a value of undefined', () => {
+        expect(hashmap.putIfAbsent('nothing', 5)).toBeUndefined();
+        expect(hashmap.get('nothing')).toBe(5);
+      });
+    });
+
+    describe('replace', () => {
+      it('should replace only when the current value matches', () => {
+        expect(hashmap.replace('a', 2, 3)).toBe(false);
+        expect(hashmap.get('a')).toBe(1);
+        expect(hashmap.replace('a', 1, 3)).toBe(true);
+        expect(hashmap.get('a')).toBe(3);
+      });
+
+      it('should not insert missing keys', () => {
+        expect(hashmap.replace('missing', undefined, 3)).toBe(false);
+        expect(hashmap.has('missing')).toBe(false);
+      });
+
+      it('should compare values with SameValueZero', () => {
+        hashmap.set('nan', NaN);
+
+        expect(hashmap.replace('nan', NaN, 1)).toBe(true);
+        expect(hashmap.replace('nothing', undefined, 2)).toBe(true);
+        expect(hashmap.get('nothing')).toBe(2);
+      });
+    });
+
+    describe('computeIfAbsent', () => {
+      it('should compute and store values for missing keys', () => {
+        const mapping = jest.fn((key: string) => key.length);
+
+        expect(hashmap.computeIfAbsent('abc', mapping)).toBe(3);
+        expect(mapping).toHaveBeenCalledWith('abc');
+        expect(hashmap.get('abc')).toBe(3);
+      });
+
+      it('should not call the function for present keys', () => {
+        const mapping = jest.fn(() => 5);
+
+        expect(hashmap.computeIfAbsent('a', mapping)).toBe(1);
+        expect(mapping).not.toHaveBeenCalled();
+      });
+
+      it('should treat a value of undefined as absent', () => {
+        expect(hashmap.computeIfAbsent('nothing', () => 5)).toBe(5);
+        expect(hashmap.get('nothing')).toBe(5);
+      });
+
+      it('should record nothing when the function returns undefined', () => {
+        expect(hashmap.computeIfAbsent('b', () => undefined)).toBeUndefined();
+        expect(hashmap.computeIfAbsent('nothing', () => undefined)).toBeUndefined();
+
+        expect(hashmap.has('b')).toBe(false);
+        expect(hashmap.has('nothing')).toBe(true);
+      });
+
+      it('should treat expired entries as absent', () => {
+        jest.useFakeTimers();
+        hashmap.set('short', 1, { ttl: 100 });
+        jest.advanceTimersByTime(100);
+
+        expect(hashmap.computeIfAbsent('short', () => 2)).toBe(2);
+        expect(hashmap.getRemainingTtl('short')).toBe(Infinity);
+      });
+    });
+
+    describe('computeIfPresent', () => {
+      it('should remap present values', () => {
+        expect(hashmap.computeIfPresent('a', (key, value) => value + key.length)).toBe(2);
+        expect(hashmap.get('a')).toBe(2);
+      });
+
+      it('should not call the function for missing keys or undefined values', () => {
+        const remapping = jest.fn(() => 5);
+
+        expect(hashmap.computeIfPresent('missing', remapping)).toBeUndefined();
+        expect(hashmap.computeIfPresent('nothing', remapping)).toBeUndefined();
+        expect(remapping).not.toHaveBeenCalled();
+        expect(hashmap.has('missing')).toBe(false);
+      });
+
+      it('should remove the entry when the function returns undefined', () => {
+        expect(hashmap.computeIfPresent('a', () => undefined)).toBeUndefined();
+        expect(hashmap.has('a')).toBe(false);
+      });
+    });
+
+    describe('compute', () => {
+      it('should pass undefined for missing keys and store the result', () => {
+        const remapping = jest.fn((_key: string, value: number | undefined) => (value ?? 0) + 1);
+
+        expect(hashmap.compute('b', remapping)).toBe(1);
+        expect(hashmap.compute('b', remapping)).toBe(2);
+        expect(remapping).toHaveBeenNthCalledWith(1, 'b', undefined);
+        expect(remapping).toHaveBeenNthCalledWith(2, 'b', 1);
+      });
+
+      it('should remove existing entries when the function returns undefined', () => {
+        expect(hashmap.compute('a', () => undefined)).toBeUndefined();
+        expect(hashmap.compute('nothing', () => undefined)).toBeUndefined();
+
+        expect(hashmap.has('a')).toBe(false);
+        expect(hashmap.has('nothing')).toBe(false);
+      });
+
+      it('should do nothing for a missing key mapped to undefined', () => {
+        expect(hashmap.compute('missing', () => undefined)).toBeUndefined();
+        expect(hashmap.size).toBe(2);
+      });
+    });
+
+    describe('merge', () => {
+      const sum = (oldValue: number, value: number) => oldValue + value;
+
+      it('should store the value for missing keys without calling the function', () => {
+        const remapping = jest.fn(sum);
+
+        expect(hashmap.merge('b', 5, remapping)).toBe(5);
+        expect(hashmap.merge('nothing', 5, remapping)).toBe(5);
+        expect(remapping).not.toHaveBeenCalled();
+      });
+
+      it('should combine with the existing value', () => {
+        expect(hashmap.merge('a', 5, sum)).toBe(6);
+        expect(hashmap.get('a')).toBe(6);
+      });
+
+      it('should remove the entry when the function returns undefined', () => {
+        expect(hashmap.merge('a', 5, () => undefined)).toBeUndefined();
+        expect(hashmap.has('a')).toBe(false);
+      });
+
+      it('should reject undefined values', () => {
+        expect(() => hashmap.merge('a', undefined, sum)).toThrow('Merge value cannot be undefined');
+      });
+    });
+
+    describe('Edge Cases', () => {
+      it('should reject undefined keys', () => {
+        expect(() => hashmap.putIfAbsent(undefined, 1)).toThrow('Key cannot be undefined');
+        expect(() => hashmap.compute(undefined, () => 1)).toThrow('Key cannot be undefined');
+        expect(() => hashmap.merge(undefined, 1, () => 1)).toThrow('Key cannot be undefined');
+      });
+
+      it('should leave the map unchanged when the function throws', () => {
+        expect(() =>
+          hashmap.compute('a', () => {
+            throw new Error('boom');
+          }),
+        ).toThrow('boom');
+        expect(hashmap.get('a')).toBe(1);
+      });
+
+      it('should fail when the function modifies the map structurally', () => {
+        expect(() =>
+          hashmap.computeIfAbsent('b', () => {
+            hashmap.set('c', 3);
+            return 2;
+          }),
+        ).toThrow(ConcurrentModificationError);
+        expect(() =>
+          hashmap.compute('a', () => {
+            hashmap.delete('a');
+            return 2;
+          }),
+        ).toThrow(ConcurrentModificationError);
+        expect(hashmap.has('b')).toBe(false);
+      });
+
+      it('should allow the function to update other values in place', () => {
+        hashmap.set('other', 1);
+
+        expect(
+          hashmap.compute('a', (_key, value) => {
+            hashmap.set('other', 2);
+            return value + 1;
+          }),
+        ).toBe(2);
+        expect(hashmap.get('other')).toBe(2);
+      });
+
+      it('should emit the same events as set and delete', () => {
+        const events: Array<HashmapEvent<string, number>> = [];
+        hashmap.subscribe(event => events.push(event));
+
+        hashmap.computeIfAbsent('b', () => 2);
+        hashmap.merge('b', 3, (oldValue, value) => oldValue + value);
+        hashmap.computeIfPresent('b', () => undefined);
+
+        expect(events).toEqual([
+          { type: 'set', key: 'b', newValue: 2 },
+          { type: 'update', key: 'b', oldValue: 2, newValue: 5 },
+          { type: 'delete', key: 'b', oldValue: 5 },
+        ]);
+      });
+
+      it('should keep working across resizes', () => {
+        const counts = create<number, number>({ initialCapacity: 2 });
+        for (let i = 0; i < 500; i++) {
+          counts.merge(i % 100, 1, (oldValue, value) => oldValue + value);
+        }
+
+        expect(counts.size).toBe(100);
+        expect([...counts.values()].every(count => count === 5)).toBe(true);
+      });
+    });
+  });
+
+  describe('Change Events', () => {
+    const record = <K, V>(hashmap: Hashmap<K, V>) => {
+      const events: Array<HashmapEvent<K, V>> = [];
+      const unsubscribe = hashmap.subscribe(event => events.push(event));
+      return { events, unsubscribe };
+    };
+
+    afterEach(() => jest.useRealTimers());
+
+    it('should report sets, updates, deletes and clears with old and new values', () => {
+      const hashmap = create<string, number>();
+      const { events } = record(hashmap);
+
+      hashmap.set('a', 1);
+      hashmap.set('a', 2);
+      hashmap.delete('a');
+      hashmap.delete('a');
+      hashmap.clear();
+
+      expect(events).toEqual([
+        { type: 'set', key: 'a', newValue: 1 },
+        { type: 'update', key: 'a', oldValue: 1, newValue: 2 },
+        { type: 'delete', key: 'a', oldValue: 2 },
+        { type: 'clear' },
+      ]);
+    });
+
+    it('should report evictions instead of deletes', () => {
+      const hashmap = create<string, number>({ maxEntries: 1 });
+      const { events } = record(hashmap);
+
+      hashmap.set('a', 1);
+      hashmap.set('b', 2);
+
+      expect(events).toEqual([
+        { type: 'set', key: 'a', newValue: 1 },
+        { type: 'set', key: 'b', newValue: 2 },
+        { type: 'evict', key: 'a', oldValue: 1 },
+      ]);
+    });
+
+    it('should report values too large to store as evicted', () => {
+      const hashmap = create<string, string>({
+        maxBytes: 4,
+        sizeEstimator: (_key, value) => value.length,
+      });
+      hashmap.set('a', 'xx');
+      const { events } = record(hashmap);
+
+      hashmap.set('a', 'xxxxxx');
+
+      expect(events).toEqual([{ type: 'evict', key: 'a', oldValue: 'xxxxxx' }]);
+      expect(hashmap.has('a')).toBe(false);
+    });
+
+    it('should report expired entries whether purged or read', () => {
+      jest.useFakeTimers();
+      const hashmap = create<string, number>({ defaultTtl: 1000 });
+      hashmap.set('read', 1);
+      hashmap.set('purged', 2);
+      const { events } = record(hashmap);
+
+      jest.advanceTimersByTime(1000);
+      hashmap.get('read');
+      hashmap.purgeExpired();
+
+      expect(events).toEqual([
+        { type: 'expire', key: 'read', oldValue: 1 },
+        { type: 'expire', key: 'purged', oldValue: 2 },
+      ]);
+    });
+
+    it('should stop notifying after unsubscribe', () => {
+      const hashmap = create<string, number>();
+      const { events, unsubscribe } = record(hashmap);
+
+      hashmap.set('a', 1);
+      unsubscribe();
+      hashmap.set('b', 2);
+
+      expect(events).toHaveLength(1);
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should round-trip through a snapshot file', async () => {
+      const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hashmap-conformance-'));
+      const filePath = path.join(tempDir, 'map.snapshot');
+      const source = create<string, { id: number }>();
+      source.set('first', { id: 1 });
+      source.set('second', { id: 2 });
+
+      await source.saveSnapshot(filePath);
+      const target = create<string, { id: number }>();
+      await expect(target.loadSnapshot(filePath)).resolves.toBe(2);
+
+      expect([...target.entries()]).toEqual([...source.entries()]);
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+  });
+});
+
+describe('createHashmap', () => {
+  it('should reject unknown implementations', () => {
+    expect(() => createHashmap('cuckoo' as HashmapImplementation)).toThrow(
+      'Unknown hashmap implementation: cuckoo',
+    );
+  });
+});
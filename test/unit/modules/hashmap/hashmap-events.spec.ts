@@ -0,0 +1,61 @@
+import { filter, lastValueFrom, map, take, tap, toArray } from 'rxjs';
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { observeHashmap } from '../../../../src/modules/hashmap/hashmap-events';
+import { HashmapEvent } from '../../../../src/modules/hashmap/types';
+
+describe('observeHashmap', () => {
+  it('should emit change events to subscribers', () => {
+    const hashmap = new CustomHashmap<string, number>();
+    const events: Array<HashmapEvent<string, number>> = [];
+
+    const subscription = observeHashmap(hashmap).subscribe(event => events.push(event));
+    hashmap.set('a', 1);
+    hashmap.delete('a');
+    subscription.unsubscribe();
+    hashmap.set('b', 2);
+
+    expect(events).toEqual([
+      { type: 'set', key: 'a', newValue: 1 },
+      { type: 'delete', key: 'a', oldValue: 1 },
+    ]);
+  });
+
+  it('should compose with RxJS operators and detach when complete', async () => {
+    const hashmap = new CustomHashmap<string, number>();
+    const seen = jest.fn<void, [HashmapEvent<string, number>]>();
+
+    const updatedKeys = lastValueFrom(
+      observeHashmap(hashmap).pipe(
+        tap(seen),
+        filter(event => event.type === 'update'),
+        map(event => event.key),
+        take(2),
+        toArray(),
+      ),
+    );
+
+    hashmap.set('a', 1);
+    hashmap.set('a', 2);
+    hashmap.set('b', 1);
+    hashmap.set('b', 2);
+
+    await expect(updatedKeys).resolves.toEqual(['a', 'b']);
+    seen.mockClear();
+    hashmap.set('c', 1);
+    expect(seen).not.toHaveBeenCalled();
+  });
+
+  it('should register a separate listener for every subscriber', () => {
+    const hashmap = new CustomHashmap<string, number>();
+    const first = jest.fn();
+    const second = jest.fn();
+    const events = observeHashmap(hashmap);
+
+    events.subscribe(first);
+    events.subscribe(second);
+    hashmap.clear();
+
+    expect(first).toHaveBeenCalledWith({ type: 'clear' });
+    expect(second).toHaveBeenCalledWith({ type: 'clear' });
+  });
+});
@@ -0,0 +1,211 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { SnapshotCorruptedError } from '../../../../src/modules/hashmap/errors';
+import { parseSnapshot, serializeSnapshot } from '../../../../src/modules/hashmap/hashmap-snapshot';
+import { HashmapSnapshotService } from '../../../../src/modules/hashmap/hashmap-snapshot.service';
+
+describe('Hashmap snapshots', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hashmap-snapshot-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('format', () => {
+    it('should round-trip entries through serialize and parse', () => {
+      const content = serializeSnapshot([
+        { key: 'a', value: { id: 1 } },
+        { key: 'b', value: { id: 2 }, expiresAt: 1234 },
+      ]);
+
+      expect(parseSnapshot(content)).toEqual([
+        { key: 'a', value: { id: 1 }, expiresAt: undefined },
+        { key: 'b', value: { id: 2 }, expiresAt: 1234 },
+      ]);
+    });
+
+    it('should round-trip an empty snapshot', () => {
+      expect(parseSnapshot(serializeSnapshot([]))).toEqual([]);
+    });
+
+    it('should use the provided codecs', () => {
+      const valueCodec = {
+        encode: (value: Date) => value.toISOString(),
+        decode: (encoded: string) => new Date(encoded),
+      };
+      const date = new Date('2024-01-01T00:00:00.000Z');
+
+      const content = serializeSnapshot([{ key: 'created', value: date }], undefined, valueCodec);
+      const [entry] = parseSnapshot(content, undefined, valueCodec);
+
+      expect(entry.value).toBeInstanceOf(Date);
+      expect(entry.value.getTime()).toBe(date.getTime());
+    });
+
+    it('should reject snapshots with a tampered body', () => {
+      const content = serializeSnapshot([{ key: 'a', value: 1 }]);
+
+      expect(() => parseSnapshot(content.replace('1', '2'))).toThrow(SnapshotCorruptedError);
+    });
+
+    it('should reject truncated snapshots', () => {
+      const content = serializeSnapshot([
+        { key: 'a', value: 1 },
+        { key: 'b', value: 2 },
+      ]);
+
+      expect(() => parseSnapshot(content.slice(0, content.lastIndexOf('\n')))).toThrow(
+        'Snapshot checksum mismatch',
+      );
+    });
+
+    it('should reject unknown formats and versions', () => {
+      const content = serializeSnapshot([{ key: 'a', value: 1 }]);
+      const [headerLine, body] = content.split('\n');
+      const header = JSON.parse(headerLine) as Record<string, unknown>;
+
+      expect(() => parseSnapshot('not a snapshot')).toThrow('Snapshot header is not valid JSON');
+      expect(() => parseSnapshot(`${JSON.stringify({ ...header, format: 'x' })}\n${body}`)).toThrow(
+        'File is not a hashmap snapshot',
+      );
+      expect(() => parseSnapshot(`${JSON.stringify({ ...header, version: 99 })}\n${body}`)).toThrow(
+        'Unsupported snapshot version: 99',
+      );
+    });
+  });
+
+  describe('CustomHashmap', () => {
+    it('should save and load its contents', async () => {
+      const filePath = path.join(tempDir, 'map.snapshot');
+      const source = new CustomHashmap<string, { id: number }>();
+      source.set('first', { id: 1 });
+      source.set('second', { id: 2 });
+
+      await source.saveSnapshot(filePath);
+
+      const target = new CustomHashmap<string, { id: number }>();
+      target.set('stale', { id: 0 });
+
+      await expect(target.loadSnapshot(filePath)).resolves.toBe(2);
+      expect([...target.entries()]).toEqual([
+        ['first', { id: 1 }],
+        ['second', { id: 2 }],
+      ]);
+    });
+
+    it('should preserve remaining TTLs and drop entries that expired meanwhile', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const filePath = path.join(tempDir, 'ttl.snapshot');
+      const source = new CustomHashmap<string, number>();
+      source.set('short', 1, { ttl: 1000 });
+      source.set('long', 2, { ttl: 5000 });
+      source.set('forever', 3);
+
+      await source.saveSnapshot(filePath);
+      jest.advanceTimersByTime(2000);
+
+      const target = new CustomHashmap<string, number>({ defaultTtl: 100 });
+      await target.loadSnapshot(filePath);
+
+      expect([...target.keys()]).toEqual(['long', 'forever']);
+      expect(target.getRemainingTtl('long')).toBe(3000);
+      expect(target.getRemainingTtl('forever')).toBe(Infinity);
+      jest.useRealTimers();
+    });
+
+    it('should leave the map untouched when the snapshot is corrupt', async () => {
+      const filePath = path.join(tempDir, 'corrupt.snapshot');
+      await fs.promises.writeFile(filePath, 'garbage');
+      const target = new CustomHashmap<string, number>();
+      target.set('kept', 1);
+
+      await expect(target.loadSnapshot(filePath)).rejects.toThrow(SnapshotCorruptedError);
+      expect(target.get('kept')).toBe(1);
+    });
+  });
+
+  describe('HashmapSnapshotService', () => {
+    const createService = (retain = 2) =>
+      new HashmapSnapshotService({
+        get: (name: string) =>
+          ({ HASHMAP_SNAPSHOT_DIR: tempDir, HASHMAP_SNAPSHOT_RETAIN: retain })[name],
+      } as unknown as ConfigService);
+
+    it('should report no restore when the directory is empty or missing', async () => {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+      const service = createService();
+
+      await expect(service.restoreLatest(new CustomHashmap())).resolves.toBe(false);
+      expect(service.restored).toBe(false);
+    });
+
+    it('should restore from the newest snapshot', async () => {
+      const older = new CustomHashmap<string, number>();
+      older.set('version', 1);
+      await older.saveSnapshot(path.join(tempDir, 'hashmap-1000.snapshot'));
+      const newer = new CustomHashmap<string, number>();
+      newer.set('version', 2);
+      await newer.saveSnapshot(path.join(tempDir, 'hashmap-2000.snapshot'));
+
+      const service = createService();
+      const target = new CustomHashmap<string, number>();
+
+      await expect(service.restoreLatest(target)).resolves.toBe(true);
+      expect(service.restored).toBe(true);
+      expect(target.get('version')).toBe(2);
+    });
+
+    it('should fall back to an older snapshot when the newest is corrupt', async () => {
+      const older = new CustomHashmap<string, number>();
+      older.set('version', 1);
+      await older.saveSnapshot(path.join(tempDir, 'hashmap-1000.snapshot'));
+      await fs.promises.writeFile(path.join(tempDir, 'hashmap-2000.snapshot'), 'corrupt');
+
+      const target = new CustomHashmap<string, number>();
+
+      await expect(createService().restoreLatest(target)).resolves.toBe(true);
+      expect(target.get('version')).toBe(1);
+    });
+
+    it('should report no restore when every entry in the snapshot has expired', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const source = new CustomHashmap<string, number>();
+      source.set('stale', 1, { ttl: 500 });
+      await source.saveSnapshot(path.join(tempDir, 'hashmap-1000.snapshot'));
+      nowSpy.mockReturnValue(2000);
+
+      const service = createService();
+      const target = new CustomHashmap<string, number>();
+
+      await expect(service.restoreLatest(target)).resolves.toBe(false);
+      nowSpy.mockRestore();
+      expect(service.restored).toBe(false);
+      expect(target.size).toBe(0);
+    });
+
+    it('should keep only the configured number of snapshots', async () => {
+      const service = createService(2);
+      const hashmap = new CustomHashmap<string, number>();
+      const nowSpy = jest.spyOn(Date, 'now');
+
+      for (let i = 1; i <= 4; i++) {
+        nowSpy.mockReturnValue(i * 1000);
+        hashmap.set(`key${i}`, i);
+        await service.save(hashmap);
+      }
+      nowSpy.mockRestore();
+
+      expect((await fs.promises.readdir(tempDir)).sort()).toEqual([
+        'hashmap-3000.snapshot',
+        'hashmap-4000.snapshot',
+      ]);
+    });
+  });
+});
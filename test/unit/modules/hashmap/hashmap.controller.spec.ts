@@ -0,0 +1,45 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { HashmapController } from '../../../../src/modules/hashmap/hashmap.controller';
+
+describe('HashmapController', () => {
+  let controller: HashmapController;
+  let hashmap: CustomHashmap<string, unknown>;
+
+  beforeEach(async () => {
+    hashmap = new CustomHashmap<string, unknown>({ initialCapacity: 8 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HashmapController],
+      providers: [{ provide: 'CUSTOM_HASHMAP', useValue: hashmap }],
+    }).compile();
+
+    controller = module.get<HashmapController>(HashmapController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('getStats', () => {
+    it('should return the statistics of the injected hashmap', () => {
+      hashmap.set('uploads/a.pdf', { id: 'a' });
+      hashmap.get('uploads/a.pdf');
+      hashmap.get('uploads/missing.pdf');
+
+      const stats = controller.getStats();
+
+      expect(stats).toMatchObject({
+        size: 1,
+        capacity: 8,
+        loadFactor: 0.125,
+        hits: 1,
+        misses: 1,
+        hitRate: 0.5,
+        maxBytes: null,
+      });
+      expect(stats.bytes).toBeGreaterThan(0);
+      expect(stats.bucketOccupancy).toEqual({ 0: 7, 1: 1 });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { RobinHoodHashmap } from '../../../../src/modules/hashmap/robin-hood-hashmap';
+import { HashmapModule } from '../../../../src/modules/hashmap/hashmap.module';
+import {
+  BLOOM_FILTER_OPTIONS_TOKEN,
+  getHashmapToken,
+  InjectHashmap,
+  INVALIDATION_BUS_TOKEN,
+} from '../../../../src/modules/hashmap/hashmap.decorators';
+import { ProcessInvalidationBus } from '../../../../src/modules/hashmap/invalidation-bus';
+import { Hashmap } from '../../../../src/modules/hashmap/types';
+
+@Injectable()
+class SessionStore {
+  constructor(
+    @InjectHashmap('sessions') readonly sessions: Hashmap<string, string>,
+    @InjectHashmap() readonly cache: Hashmap<string, string>,
+  ) {}
+}
+
+@Module({
+  imports: [
+    HashmapModule.forFeature([
+      { name: 'sessions', implementation: 'robin-hood', initialCapacity: 32, defaultTtl: 1000 },
+    ]),
+  ],
+  providers: [SessionStore],
+})
+class SessionModule {}
+
+describe('HashmapModule', () => {
+  let snapshotDir: string;
+  let module: TestingModule;
+
+  beforeEach(async () => {
+    snapshotDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hashmap-module-'));
+    process.env.HASHMAP_SNAPSHOT_DIR = snapshotDir;
+  });
+
+  afterEach(async () => {
+    await module?.close();
+    delete process.env.HASHMAP_SNAPSHOT_DIR;
+    await fs.promises.rm(snapshotDir, { recursive: true, force: true });
+  });
+
+  describe('forRoot', () => {
+    it('should register the default map under the CUSTOM_HASHMAP token', async () => {
+      module = await Test.createTestingModule({ imports: [HashmapModule.forRoot()] }).compile();
+
+      expect(module.get(getHashmapToken())).toBeInstanceOf(CustomHashmap);
+      expect(module.get('CUSTOM_HASHMAP')).toBe(module.get(getHashmapToken()));
+    });
+
+    it('should let options override the environment configuration', async () => {
+      module = await Test.createTestingModule({
+        imports: [HashmapModule.forRoot({ implementation: 'robin-hood', initialCapacity: 64 })],
+      }).compile();
+
+      const hashmap = module.get<Hashmap<string, unknown>>(getHashmapToken());
+
+      expect(hashmap).toBeInstanceOf(RobinHoodHashmap);
+      expect(hashmap.capacity).toBe(64);
+    });
+
+    it('should only provide an invalidation bus when one is selected', async () => {
+      module = await Test.createTestingModule({ imports: [HashmapModule.forRoot()] }).compile();
+      expect(module.get(INVALIDATION_BUS_TOKEN)).toBeNull();
+      await module.close();
+
+      module = await Test.createTestingModule({
+        imports: [HashmapModule.forRoot({ invalidationBus: 'process' })],
+      }).compile();
+      expect(module.get(INVALIDATION_BUS_TOKEN)).toBeInstanceOf(ProcessInvalidationBus);
+    });
+
+    it('should read Bloom filter sizing from the environment', async () => {
+      process.env.HASHMAP_BLOOM_EXPECTED_ITEMS = '5000';
+      process.env.HASHMAP_BLOOM_FALSE_POSITIVE_RATE = '0.001';
+      try {
+        module = await Test.createTestingModule({ imports: [HashmapModule.forRoot()] }).compile();
+      } finally {
+        delete process.env.HASHMAP_BLOOM_EXPECTED_ITEMS;
+        delete process.env.HASHMAP_BLOOM_FALSE_POSITIVE_RATE;
+      }
+
+      expect(module.get(BLOOM_FILTER_OPTIONS_TOKEN)).toEqual({
+        expectedItems: 5000,
+        falsePositiveRate: 0.001,
+      });
+    });
+
+    it('should require a data source for the postgres invalidation bus', async () => {
+      await expect(
+        Test.createTestingModule({
+          imports: [HashmapModule.forRoot({ invalidationBus: 'postgres' })],
+        }).compile(),
+      ).rejects.toThrow('The postgres invalidation bus needs a TypeORM data source');
+    });
+  });
+
+  describe('forFeature', () => {
+    it('should inject named maps with their own options and key space', async () => {
+      module = await Test.createTestingModule({
+        imports: [HashmapModule.forRoot(), SessionModule],
+      }).compile();
+
+      const store = module.get(SessionStore);
+      store.sessions.set('user-1', 'token');
+
+      expect(store.sessions).toBeInstanceOf(RobinHoodHashmap);
+      expect(store.sessions.capacity).toBe(32);
+      expect(store.sessions.getRemainingTtl('user-1')).toBeLessThanOrEqual(1000);
+      expect(store.cache).not.toBe(store.sessions);
+      expect(store.cache.has('user-1')).toBe(false);
+    });
+
+    it('should reject duplicate names', () => {
+      expect(() => HashmapModule.forFeature([{ name: 'sessions' }, { name: 'sessions' }])).toThrow(
+        'Duplicate hashmap name: sessions',
+      );
+    });
+
+    it('should reject empty names', () => {
+      expect(() => HashmapModule.forFeature([{ name: '' }])).toThrow(
+        'Hashmap name cannot be empty',
+      );
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { IndexedHashmap } from '../../../../src/modules/hashmap/indexed-hashmap';
+
+interface CachedFile {
+  productId: string | null;
+  mimeType: string;
+}
+
+describe('IndexedHashmap', () => {
+  let hashmap: CustomHashmap<string, CachedFile>;
+  let indexed: IndexedHashmap<string, CachedFile, 'productId' | 'mimeType'>;
+
+  const pdf = (productId: string | null): CachedFile => ({
+    productId,
+    mimeType: 'application/pdf',
+  });
+  const png = (productId: string | null): CachedFile => ({ productId, mimeType: 'image/png' });
+
+  const createIndexed = () =>
+    new IndexedHashmap(hashmap, {
+      productId: record => record.productId,
+      mimeType: record => record.mimeType,
+    });
+
+  beforeEach(() => {
+    hashmap = new CustomHashmap<string, CachedFile>();
+    indexed = createIndexed();
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should index entries as they are set', () => {
+    hashmap.set('a.pdf', pdf('p1'));
+    hashmap.set('b.png', png('p1'));
+    hashmap.set('c.pdf', pdf('p2'));
+
+    expect(indexed.findKeys('productId', 'p1')).toEqual(['a.pdf', 'b.png']);
+    expect(indexed.find('mimeType', 'application/pdf')).toEqual([pdf('p1'), pdf('p2')]);
+    expect(indexed.count('productId', 'p2')).toBe(1);
+    expect([...indexed.indexValues('productId')]).toEqual(['p1', 'p2']);
+  });
+
+  it('should index entries already in the map', () => {
+    hashmap.set('a.pdf', pdf('p1'));
+
+    expect(createIndexed().findKeys('productId', 'p1')).toEqual(['a.pdf']);
+  });
+
+  it('should move entries when their indexed values change', () => {
+    hashmap.set('a.pdf', pdf('p1'));
+    hashmap.set('a.pdf', png('p2'));
+
+    expect(indexed.findKeys('productId', 'p1')).toEqual([]);
+    expect(indexed.findKeys('productId', 'p2')).toEqual(['a.pdf']);
+    expect(indexed.count('mimeType', 'application/pdf')).toBe(0);
+  });
+
+  it('should leave out null and undefined index values', () => {
+    hashmap.set('orphan.pdf', pdf(null));
+
+    expect([...indexed.indexValues('productId')]).toEqual([]);
+    expect(indexed.findKeys('mimeType', 'application/pdf')).toEqual(['orphan.pdf']);
+  });
+
+  it('should unindex deleted, evicted and expired entries', () => {
+    jest.useFakeTimers();
+    hashmap = new CustomHashmap<string, CachedFile>({ maxEntries: 2 });
+    indexed = createIndexed();
+
+    hashmap.set('deleted.pdf', pdf('p1'));
+    hashmap.delete('deleted.pdf');
+    hashmap.set('evicted.pdf', pdf('p1'));
+    hashmap.set('expired.pdf', pdf('p1'), { ttl: 100 });
+    hashmap.set('kept.pdf', pdf('p1'));
+    jest.advanceTimersByTime(100);
+    hashmap.purgeExpired();
+
+    expect(indexed.findKeys('productId', 'p1')).toEqual(['kept.pdf']);
+  });
+
+  it('should unindex an entry replaced by a value too large to store', () => {
+    const bounded = new CustomHashmap<string, string>({
+      maxBytes: 4,
+      sizeEstimator: (_key, value) => value.length,
+    });
+    const byLength = new IndexedHashmap(bounded, { length: value => value.length });
+    bounded.set('a', 'xx');
+
+    bounded.set('a', 'xxxxxx');
+
+    expect(byLength.count('length', 2)).toBe(0);
+    expect(byLength.count('length', 6)).toBe(0);
+  });
+
+  it('should empty every index on clear', () => {
+    hashmap.set('a.pdf', pdf('p1'));
+    hashmap.clear();
+
+    expect(indexed.count('productId', 'p1')).toBe(0);
+    expect(indexed.count('mimeType', 'application/pdf')).toBe(0);
+  });
+
+  it('should skip entries that expired since they were indexed', () => {
+    jest.useFakeTimers();
+    hashmap.set('short.pdf', pdf('p1'), { ttl: 100 });
+    hashmap.set('long.pdf', pdf('p1'));
+    jest.advanceTimersByTime(100);
+
+    expect(indexed.find('productId', 'p1')).toEqual([pdf('p1')]);
+    expect(indexed.findKeys('productId', 'p1')).toEqual(['long.pdf']);
+  });
+
+  it('should stop following the map once closed', () => {
+    indexed.close();
+    hashmap.set('a.pdf', pdf('p1'));
+
+    expect(indexed.count('productId', 'p1')).toBe(0);
+  });
+
+  it('should reject unknown index names', () => {
+    expect(() => indexed.findKeys('folder' as 'productId', 'docs')).toThrow(
+      'Unknown index: folder',
+    );
+    expect(() => indexed.count('constructor' as 'productId', 'x')).toThrow(
+      'Unknown index: constructor',
+    );
+  });
+});
@@ -0,0 +1,276 @@
+import { Logger } from '@nestjs/common';
+import type { Cluster, Worker } from 'cluster';
+import { EventEmitter } from 'events';
+import {
+  NotificationClient,
+  PostgresInvalidationBus,
+  PostgresNotification,
+  ProcessInvalidationBus,
+  relayInvalidations,
+} from '../../../../src/modules/hashmap/invalidation-bus';
+import { InvalidationMessage } from '../../../../src/modules/hashmap/types';
+
+const message: InvalidationMessage = {
+  origin: 'worker-1',
+  channel: 'attachments',
+  type: 'invalidate',
+  key: '"uploads/a.pdf"',
+};
+
+// Loops NOTIFY back to LISTENing clients like the server would
+class FakePostgres {
+  readonly clients: FakeClient[] = [];
+
+  notify(channel: string, payload: string): void {
+    for (const client of this.clients) {
+      if (client.listening.has(channel)) {
+        client.emit('notification', { channel, payload });
+      }
+    }
+  }
+}
+
+class FakeClient extends EventEmitter implements NotificationClient {
+  readonly listening = new Set<string>();
+  readonly queries: string[] = [];
+
+  constructor(private readonly server: FakePostgres) {
+    super();
+    server.clients.push(this);
+  }
+
+  query(text: string, values?: unknown[]): Promise<unknown> {
+    this.queries.push(text);
+    const [command, channel] = text.split(' ');
+    if (command === 'LISTEN') {
+      this.listening.add(channel);
+    } else if (command === 'UNLISTEN') {
+      this.listening.delete(channel);
+    } else {
+      this.server.notify(values[0] as string, values[1] as string);
+    }
+    return Promise.resolve([]);
+  }
+}
+
+describe('ProcessInvalidationBus', () => {
+  let ipc: EventEmitter & { send: jest.Mock };
+  let bus: ProcessInvalidationBus;
+
+  beforeEach(() => {
+    ipc = Object.assign(new EventEmitter(), { send: jest.fn(() => true) });
+    bus = new ProcessInvalidationBus(ipc);
+  });
+
+  it('should deliver locally and send to the parent process', async () => {
+    const handler = jest.fn();
+    bus.subscribe(handler);
+
+    await bus.publish(message);
+
+    expect(handler).toHaveBeenCalledWith(message);
+    expect(ipc.send).toHaveBeenCalledWith({ 'hashmap:invalidation': message });
+  });
+
+  it('should deliver tagged IPC messages and ignore anything else', () => {
+    const handler = jest.fn();
+    bus.subscribe(handler);
+
+    ipc.emit('message', { 'hashmap:invalidation': message });
+    ipc.emit('message', { type: 'unrelated' });
+    ipc.emit('message', 'ping');
+
+    expect(handler.mock.calls).toEqual([[message]]);
+  });
+
+  it('should stop listening once closed', async () => {
+    const handler = jest.fn();
+    bus.subscribe(handler);
+
+    await bus.close();
+    ipc.emit('message', { 'hashmap:invalidation': message });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(ipc.listenerCount('message')).toBe(0);
+  });
+
+  it('should work without an IPC channel', async () => {
+    const standalone = new ProcessInvalidationBus({ on: jest.fn(), off: jest.fn() });
+    const handler = jest.fn();
+    standalone.subscribe(handler);
+
+    await standalone.publish(message);
+
+    expect(handler).toHaveBeenCalledWith(message);
+  });
+});
+
+describe('relayInvalidations', () => {
+  const worker = (connected = true) =>
+    ({ send: jest.fn(), isConnected: () => connected }) as unknown as Worker & {
+      send: jest.Mock;
+    };
+
+  it('should forward invalidations to every other connected worker', () => {
+    const [sender, peer, disconnected] = [worker(), worker(), worker(false)];
+    const cluster = Object.assign(new EventEmitter(), {
+      workers: { 1: sender, 2: peer, 3: disconnected },
+    }) as unknown as Cluster;
+    const stop = relayInvalidations(cluster);
+    const tagged = { 'hashmap:invalidation': message };
+
+    cluster.emit('message', sender, tagged);
+    cluster.emit('message', sender, { cmd: 'other' });
+    stop();
+    cluster.emit('message', sender, tagged);
+
+    expect(peer.send.mock.calls).toEqual([[tagged]]);
+    expect(sender.send).not.toHaveBeenCalled();
+    expect(disconnected.send).not.toHaveBeenCalled();
+  });
+});
+
+describe('PostgresInvalidationBus', () => {
+  let server: FakePostgres;
+  const release = jest.fn();
+
+  const connect = () => Promise.resolve({ client: new FakeClient(server), release });
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    server = new FakePostgres();
+    release.mockReset();
+  });
+
+  it('should broadcast through NOTIFY to every listening bus', async () => {
+    const first = new PostgresInvalidationBus(connect, 'cache_events');
+    const second = new PostgresInvalidationBus(connect, 'cache_events');
+    const received = jest.fn();
+    second.subscribe(received);
+    await flush();
+
+    await first.publish(message);
+
+    expect(received).toHaveBeenCalledWith(message);
+    expect(server.clients[0].queries).toEqual(['LISTEN cache_events']);
+    expect(server.clients[1].queries).toEqual(['LISTEN cache_events', 'SELECT pg_notify($1, $2)']);
+  });
+
+  it('should share one connection and release it on close', async () => {
+    const bus = new PostgresInvalidationBus(connect);
+    bus.subscribe(jest.fn());
+    await bus.publish(message);
+    await bus.publish(message);
+
+    await bus.close();
+
+    expect(server.clients).toHaveLength(1);
+    expect(server.clients[0].queries[0]).toBe('LISTEN hashmap_invalidation');
+    expect(server.clients[0].queries.at(-1)).toBe('UNLISTEN hashmap_invalidation');
+    expect(server.clients[0].listenerCount('notification')).toBe(0);
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore payloads that are not invalidations', async () => {
+    const bus = new PostgresInvalidationBus(connect);
+    const received = jest.fn();
+    bus.subscribe(received);
+    await flush();
+    const client = server.clients[0];
+
+    const notify = (notification: PostgresNotification) =>
+      client.emit('notification', notification);
+    notify({ channel: 'hashmap_invalidation', payload: 'not json' });
+    notify({ channel: 'hashmap_invalidation', payload: '{"type":"other"}' });
+    notify({ channel: 'hashmap_invalidation' });
+    notify({ channel: 'elsewhere', payload: JSON.stringify(message) });
+
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('should retry connecting after a failure', async () => {
+    const failing = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('connection refused'))
+      .mockImplementation(connect);
+    const bus = new PostgresInvalidationBus(failing);
+
+    await expect(bus.publish(message)).rejects.toThrow('connection refused');
+    await expect(bus.publish(message)).resolves.toBeUndefined();
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  describe('when the connection drops', () => {
+    let logged: jest.SpyInstance;
+
+    beforeEach(() => {
+      logged = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      logged.mockRestore();
+      jest.useRealTimers();
+    });
+
+    it('should log it and listen again on a new connection', async () => {
+      const bus = new PostgresInvalidationBus(connect);
+      const received = jest.fn();
+      bus.subscribe(received);
+      await flush();
+      const [lost] = server.clients;
+
+      lost.emit('error', new Error('terminating connection'));
+      await flush();
+      server.notify('hashmap_invalidation', JSON.stringify(message));
+
+      expect(server.clients).toHaveLength(2);
+      expect(server.clients[1].queries).toEqual(['LISTEN hashmap_invalidation']);
+      expect(received.mock.calls).toEqual([[message]]);
+      expect(lost.listenerCount('notification')).toBe(0);
+      expect(release).toHaveBeenCalledWith(expect.any(Error));
+      expect(logged).toHaveBeenCalledWith(expect.stringContaining('terminating connection'));
+      await bus.close();
+    });
+
+    it('should keep retrying while the database is unreachable', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const reconnect = jest
+        .fn()
+        .mockImplementationOnce(connect)
+        .mockRejectedValueOnce(new Error('connection refused'))
+        .mockImplementation(connect);
+      const bus = new PostgresInvalidationBus(reconnect);
+      bus.subscribe(jest.fn());
+      await flush();
+
+      server.clients[0].emit('end');
+      await flush();
+      expect(reconnect).toHaveBeenCalledTimes(2);
+      expect(logged).toHaveBeenCalledWith(expect.stringContaining('connection refused'));
+
+      jest.advanceTimersByTime(1000);
+      await flush();
+      expect(reconnect).toHaveBeenCalledTimes(3);
+      expect(server.clients[1].listening.has('hashmap_invalidation')).toBe(true);
+      await bus.close();
+    });
+
+    it('should not listen again without subscribers', async () => {
+      const bus = new PostgresInvalidationBus(connect);
+      await bus.publish(message);
+
+      server.clients[0].emit('end');
+      await flush();
+
+      expect(server.clients).toHaveLength(1);
+      await bus.publish(message);
+      expect(server.clients).toHaveLength(2);
+    });
+  });
+
+  it('should reject channel names that are not plain identifiers', () => {
+    expect(() => new PostgresInvalidationBus(connect, 'x; DROP')).toThrow(
+      'Invalid notification channel: x; DROP',
+    );
+  });
+});
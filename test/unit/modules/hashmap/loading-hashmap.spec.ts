@@ -0,0 +1,172 @@
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { LoadingHashmap } from '../../../../src/modules/hashmap/loading-hashmap';
+
+describe('LoadingHashmap', () => {
+  let hashmap: CustomHashmap<string, string>;
+  let cache: LoadingHashmap<string, string>;
+
+  const deferred = <T>() => {
+    let resolve: (value: T) => void;
+    let reject: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  beforeEach(() => {
+    hashmap = new CustomHashmap<string, string>();
+    cache = new LoadingHashmap(hashmap, { negativeTtl: 1000 });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should return cached values without calling the loader', async () => {
+    hashmap.set('a', 'cached');
+    const loader = jest.fn();
+
+    await expect(cache.getOrLoad('a', loader)).resolves.toBe('cached');
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it('should load, store and return missing values', async () => {
+    const loader = jest.fn().mockResolvedValue('loaded');
+
+    await expect(cache.getOrLoad('a', loader)).resolves.toBe('loaded');
+
+    expect(loader).toHaveBeenCalledWith('a');
+    expect(hashmap.get('a')).toBe('loaded');
+  });
+
+  it('should share one in-flight load between concurrent callers', async () => {
+    const pending = deferred<string>();
+    const loader = jest.fn().mockReturnValue(pending.promise);
+
+    const first = cache.getOrLoad('a', loader);
+    const second = cache.getOrLoad('a', loader);
+    expect(cache.loading).toBe(1);
+    pending.resolve('loaded');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['loaded', 'loaded']);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(cache.loading).toBe(0);
+  });
+
+  it('should load different keys independently', async () => {
+    const loader = jest.fn((key: string) => Promise.resolve(key.toUpperCase()));
+
+    await expect(
+      Promise.all([cache.getOrLoad('a', loader), cache.getOrLoad('b', loader)]),
+    ).resolves.toEqual(['A', 'B']);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject every waiter with the loader error and not cache it', async () => {
+    const pending = deferred<string>();
+    const failing = jest.fn().mockReturnValue(pending.promise);
+
+    const first = cache.getOrLoad('a', failing);
+    const second = cache.getOrLoad('a', failing);
+    pending.reject(new Error('database down'));
+
+    await expect(first).rejects.toThrow('database down');
+    await expect(second).rejects.toThrow('database down');
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(cache.loading).toBe(0);
+
+    await expect(cache.getOrLoad('a', () => Promise.resolve('recovered'))).resolves.toBe(
+      'recovered',
+    );
+  });
+
+  it('should turn a synchronous loader throw into a rejection', async () => {
+    const loader = () => {
+      throw new Error('bad key');
+    };
+
+    await expect(cache.getOrLoad('a', loader)).rejects.toThrow('bad key');
+    expect(cache.loading).toBe(0);
+  });
+
+  it('should cache misses for the negative TTL', async () => {
+    jest.useFakeTimers();
+    const loader = jest.fn().mockResolvedValue(null);
+
+    await expect(cache.getOrLoad('missing', loader)).resolves.toBeUndefined();
+    await expect(cache.getOrLoad('missing', loader)).resolves.toBeUndefined();
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    await cache.getOrLoad('missing', loader);
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(hashmap.has('missing')).toBe(false);
+  });
+
+  it('should not cache misses when the negative TTL is 0', async () => {
+    cache = new LoadingHashmap(hashmap, { negativeTtl: 0 });
+    const loader = jest.fn().mockResolvedValue(undefined);
+
+    await cache.getOrLoad('missing', loader);
+    await cache.getOrLoad('missing', loader);
+
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should forget a cached miss when the key is set', async () => {
+    await cache.getOrLoad('a', () => Promise.resolve(undefined));
+
+    cache.set('a', 'registered');
+    hashmap.delete('a');
+
+    await expect(cache.getOrLoad('a', () => Promise.resolve('reloaded'))).resolves.toBe('reloaded');
+  });
+
+  it('should invalidate stored values and cached misses', async () => {
+    hashmap.set('a', 'stale');
+    await cache.getOrLoad('b', () => Promise.resolve(undefined));
+
+    expect(cache.invalidate('a')).toBe(true);
+    cache.invalidate('b');
+
+    await expect(cache.getOrLoad('a', () => Promise.resolve('fresh'))).resolves.toBe('fresh');
+    await expect(cache.getOrLoad('b', () => Promise.resolve('found'))).resolves.toBe('found');
+  });
+
+  it('should not cache a load that finishes after a newer write', async () => {
+    const stale = deferred<string>();
+    const missing = deferred<string>();
+
+    const overwritten = cache.getOrLoad('a', () => stale.promise);
+    cache.set('a', 'written');
+    const deleted = cache.getOrLoad('b', () => missing.promise);
+    cache.invalidate('b');
+    stale.resolve('stale');
+    missing.resolve(undefined);
+
+    await expect(overwritten).resolves.toBe('stale');
+    await expect(deleted).resolves.toBeUndefined();
+    expect(hashmap.get('a')).toBe('written');
+    await expect(cache.getOrLoad('b', () => Promise.resolve('found'))).resolves.toBe('found');
+  });
+
+  it('should start a new load for callers arriving after an invalidation', async () => {
+    const stale = deferred<string>();
+    const first = cache.getOrLoad('a', () => stale.promise);
+    cache.invalidate('a');
+
+    const second = cache.getOrLoad('a', () => Promise.resolve('fresh'));
+    stale.resolve('stale');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['stale', 'fresh']);
+    expect(hashmap.get('a')).toBe('fresh');
+    expect(cache.loading).toBe(0);
+  });
+
+  it('should reject invalid negative TTLs', () => {
+    expect(() => new LoadingHashmap(hashmap, { negativeTtl: -1 })).toThrow(
+      'negativeTtl must be a non-negative number',
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+
+describe('CustomHashmap compatibility with Map', () => {
+  const sharedObject = { id: 1 };
+  const sharedDate = new Date('2024-01-01T00:00:00.000Z');
+  const sharedSymbol = Symbol('key');
+
+  // Every key is distinct under SameValueZero; lookups below also use
+  // equivalent-but-distinct probes to check both sides agree on misses.
+  const keys: unknown[] = [
+    0,
+    1,
+    1.1,
+    1.9,
+    -1.5,
+    2 ** 31,
+    2 ** 32,
+    2 ** 53,
+    Number.MAX_VALUE,
+    Number.MIN_VALUE,
+    Infinity,
+    -Infinity,
+    NaN,
+    0n,
+    1n,
+    -1n,
+    2n ** 64n,
+    2n ** 64n + 1n,
+    '',
+    '0',
+    '1',
+    'NaN',
+    'hello',
+    true,
+    false,
+    null,
+    sharedObject,
+    { id: 1 },
+    sharedDate,
+    new Date(sharedDate.getTime()),
+    new Date(NaN),
+    sharedSymbol,
+    Symbol('key'),
+    Symbol.for('key'),
+    [1, 2],
+  ];
+
+  const probes: unknown[] = [
+    ...keys,
+    -0,
+    Number.NaN,
+    0 / 0,
+    1.0,
+    1.10000001,
+    2n ** 64n - 1n,
+    { id: 1 },
+    new Date(sharedDate.getTime()),
+    Symbol('key'),
+    Symbol.for('key'),
+    'missing',
+    [1, 2],
+  ];
+
+  const populate = () => {
+    const map = new Map<unknown, number>();
+    const hashmap = new CustomHashmap<unknown, number>();
+    keys.forEach((key, i) => {
+      map.set(key, i);
+      hashmap.set(key, i);
+    });
+    return { map, hashmap };
+  };
+
+  it('should store every key separately', () => {
+    const { map, hashmap } = populate();
+
+    expect(hashmap.size).toBe(map.size);
+    expect([...hashmap.entries()]).toEqual([...map.entries()]);
+  });
+
+  it('should agree with Map on has and get for every probe', () => {
+    const { map, hashmap } = populate();
+
+    probes.forEach(probe => {
+      expect(hashmap.has(probe)).toBe(map.has(probe));
+      expect(hashmap.get(probe)).toBe(map.get(probe));
+    });
+  });
+
+  it('should treat -0 and 0 as the same key', () => {
+    const map = new Map<number, string>([[-0, 'negative']]);
+    const hashmap = new CustomHashmap<number, string>();
+    hashmap.set(-0, 'negative');
+
+    map.set(0, 'positive');
+    hashmap.set(0, 'positive');
+
+    expect(hashmap.size).toBe(map.size);
+    expect(hashmap.get(-0)).toBe(map.get(-0));
+  });
+
+  it('should find NaN keys again', () => {
+    const hashmap = new CustomHashmap<number, string>();
+    hashmap.set(NaN, 'first');
+    hashmap.set(Number('not a number'), 'second');
+
+    expect(hashmap.size).toBe(1);
+    expect(hashmap.get(NaN)).toBe('second');
+    expect(hashmap.delete(0 / 0)).toBe(true);
+    expect(hashmap.size).toBe(0);
+  });
+
+  it('should agree with Map after deleting and re-inserting', () => {
+    const { map, hashmap } = populate();
+
+    probes.forEach((probe, i) => {
+      if (i % 2 === 0) {
+        expect(hashmap.delete(probe)).toBe(map.delete(probe));
+      }
+    });
+    keys.forEach((key, i) => {
+      if (i % 3 === 0) {
+        map.set(key, -i);
+        hashmap.set(key, -i);
+      }
+    });
+
+    expect(hashmap.size).toBe(map.size);
+    expect([...hashmap.entries()]).toEqual([...map.entries()]);
+  });
+
+  it('should agree with Map across resizes and treeified buckets', () => {
+    const map = new Map<unknown, number>();
+    const hashmap = new CustomHashmap<unknown, number>({ initialCapacity: 2 });
+    const generated: unknown[] = [];
+    for (let i = 0; i < 300; i++) {
+      generated.push(i / 7, BigInt(i) * 2n ** 40n, new Date(i * 1000), Symbol(`s${i % 5}`));
+    }
+
+    generated.forEach((key, i) => {
+      map.set(key, i);
+      hashmap.set(key, i);
+    });
+    generated.forEach((key, i) => {
+      if (i % 4 === 0) {
+        expect(hashmap.delete(key)).toBe(map.delete(key));
+      }
+    });
+
+    expect(hashmap.size).toBe(map.size);
+    generated.forEach(key => expect(hashmap.get(key)).toBe(map.get(key)));
+  });
+});
@@ -0,0 +1,123 @@
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { PersistentHashmap } from '../../../../src/modules/hashmap/persistent-hashmap';
+
+describe('PersistentHashmap', () => {
+  let empty: PersistentHashmap<string, number>;
+
+  beforeEach(() => {
+    empty = new PersistentHashmap<string, number>();
+  });
+
+  it('should return new versions and leave earlier ones untouched', () => {
+    const one = empty.set('a', 1);
+    const two = one.set('b', 2);
+    const updated = two.set('a', 10);
+    const removed = updated.delete('b');
+
+    expect(empty.size).toBe(0);
+    expect(one.get('a')).toBe(1);
+    expect(one.has('b')).toBe(false);
+    expect(two.size).toBe(2);
+    expect(two.get('a')).toBe(1);
+    expect(updated.get('a')).toBe(10);
+    expect(removed.has('b')).toBe(false);
+    expect(removed.size).toBe(1);
+  });
+
+  it('should return the same version for no-op writes', () => {
+    const map = empty.set('a', 1);
+
+    expect(map.set('a', 1)).toBe(map);
+    expect(map.delete('missing')).toBe(map);
+    expect(empty.clear()).toBe(empty);
+  });
+
+  it('should hold many keys and remove them all again', () => {
+    const keys = Array.from({ length: 5000 }, (_, i) => `uploads/${i}.pdf`);
+    let map = empty;
+    keys.forEach((key, i) => (map = map.set(key, i)));
+
+    expect(map.size).toBe(5000);
+    expect(keys.every((key, i) => map.get(key) === i)).toBe(true);
+    expect(new Set(map.keys())).toEqual(new Set(keys));
+
+    keys.forEach(key => (map = map.delete(key)));
+
+    expect(map.size).toBe(0);
+    expect([...map]).toEqual([]);
+  });
+
+  it('should keep keys with colliding hashes apart', () => {
+    let map = new PersistentHashmap<string, number>({ hashFunction: key => key.length });
+    map = map.set('ab', 1).set('cd', 2).set('e', 3).set('ef', 4);
+    const withoutCd = map.delete('cd');
+
+    expect(map.get('ab')).toBe(1);
+    expect(map.get('cd')).toBe(2);
+    expect(map.get('ef')).toBe(4);
+    expect(map.size).toBe(4);
+    expect(withoutCd.has('cd')).toBe(false);
+    expect(withoutCd.get('ab')).toBe(1);
+    expect(withoutCd.delete('ab').delete('ef').size).toBe(1);
+    expect(withoutCd.delete('ab').delete('ef').get('e')).toBe(3);
+  });
+
+  it('should split keys whose hashes only differ in the last level', () => {
+    const hashes: Record<string, number> = { a: 0x40000000, b: 0x80000000, c: 0 };
+    let map = new PersistentHashmap<string, number>({ hashFunction: key => hashes[key] });
+    map = map.set('a', 1).set('b', 2).set('c', 3);
+
+    expect(map.get('a')).toBe(1);
+    expect(map.get('b')).toBe(2);
+    expect(map.delete('a').get('c')).toBe(3);
+  });
+
+  it('should support structural key equality', () => {
+    const map = new PersistentHashmap<{ id: number }, string>({ keyEquality: 'structural' }).set(
+      { id: 1 },
+      'one',
+    );
+
+    expect(map.get({ id: 1 })).toBe('one');
+    expect(map.set({ id: 1 }, 'uno').size).toBe(1);
+  });
+
+  it('should reject undefined keys', () => {
+    expect(() => empty.set(undefined, 1)).toThrow('Key cannot be undefined');
+  });
+
+  it('should convert to and from CustomHashmap', () => {
+    const hashmap = new CustomHashmap<string, number>();
+    hashmap.set('a', 1);
+    hashmap.set('b', 2);
+
+    const persistent = PersistentHashmap.fromHashmap(hashmap);
+    hashmap.set('c', 3);
+    const copy = persistent.toHashmap({ maxEntries: 10 });
+    copy.delete('a');
+
+    expect(persistent.size).toBe(2);
+    expect(persistent.has('c')).toBe(false);
+    expect(copy).toBeInstanceOf(CustomHashmap);
+    expect(copy.get('b')).toBe(2);
+    expect(persistent.get('a')).toBe(1);
+  });
+
+  it('should iterate entries, values and forEach consistently', () => {
+    const map = PersistentHashmap.from<string, number>([
+      ['a', 1],
+      ['b', 2],
+    ]);
+    const seen: Array<[string, number]> = [];
+    map.forEach((value, key) => seen.push([key, value]));
+
+    expect(new Map(map)).toEqual(
+      new Map([
+        ['a', 1],
+        ['b', 2],
+      ]),
+    );
+    expect([...map.values()].sort()).toEqual([1, 2]);
+    expect(seen).toEqual([...map.entries()]);
+  });
+});
@@ -0,0 +1,66 @@
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { PersistentMirror } from '../../../../src/modules/hashmap/persistent-mirror';
+
+describe('PersistentMirror', () => {
+  let hashmap: CustomHashmap<string, number>;
+  let mirror: PersistentMirror<string, number>;
+
+  beforeEach(() => {
+    hashmap = new CustomHashmap<string, number>();
+    mirror = new PersistentMirror(hashmap);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should start from the entries already in the map', () => {
+    hashmap.set('a', 1);
+
+    expect(new PersistentMirror(hashmap).snapshot().get('a')).toBe(1);
+  });
+
+  it('should keep snapshots stable while the map changes', () => {
+    hashmap.set('a', 1);
+    const before = mirror.snapshot();
+
+    hashmap.set('a', 2);
+    hashmap.set('b', 3);
+    hashmap.delete('a');
+
+    expect(before.get('a')).toBe(1);
+    expect(before.has('b')).toBe(false);
+    expect(mirror.snapshot().has('a')).toBe(false);
+    expect(mirror.snapshot().get('b')).toBe(3);
+  });
+
+  it('should return the same snapshot until the map changes', () => {
+    hashmap.set('a', 1);
+
+    expect(mirror.snapshot()).toBe(mirror.snapshot());
+  });
+
+  it('should follow evictions, expiry and clear', () => {
+    jest.useFakeTimers();
+    const bounded = new CustomHashmap<string, number>({ maxEntries: 1 });
+    const boundedMirror = new PersistentMirror(bounded);
+
+    bounded.set('a', 1, { ttl: 1000 });
+    bounded.set('b', 2);
+    expect([...boundedMirror.snapshot().keys()]).toEqual(['b']);
+
+    bounded.set('c', 3, { ttl: 1000 });
+    jest.advanceTimersByTime(1000);
+    bounded.purgeExpired();
+    expect(boundedMirror.snapshot().size).toBe(0);
+
+    bounded.set('d', 4);
+    bounded.clear();
+    expect(boundedMirror.snapshot().size).toBe(0);
+  });
+
+  it('should stop following the map once closed', () => {
+    mirror.close();
+    hashmap.set('a', 1);
+
+    expect(mirror.snapshot().size).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { RobinHoodHashmap } from '../../../../src/modules/hashmap/robin-hood-hashmap';
+
+describe('RobinHoodHashmap', () => {
+  // Slots per probe length (displacement + 1); 0 counts empty slots
+  const probeLengths = <K, V>(hashmap: RobinHoodHashmap<K, V>) => hashmap.stats().bucketOccupancy;
+
+  it('should reject load factors that would fill the table', () => {
+    expect(() => new RobinHoodHashmap({ loadFactor: 1 })).toThrow(
+      'loadFactor must be below 1 for open addressing',
+    );
+  });
+
+  it('should store entries inline without tombstones after deletes', () => {
+    const hashmap = new RobinHoodHashmap<number, number>({ initialCapacity: 16 });
+    for (let i = 0; i < 10; i++) {
+      hashmap.set(i, i);
+    }
+
+    for (let i = 0; i < 10; i += 2) {
+      hashmap.delete(i);
+    }
+
+    expect(hashmap.capacity - probeLengths(hashmap)[0]).toBe(5);
+    for (let i = 1; i < 10; i += 2) {
+      expect(hashmap.get(i)).toBe(i);
+    }
+  });
+
+  it('should close the gaps left by deletes by shifting runs back', () => {
+    const hashmap = new RobinHoodHashmap<string, number>({
+      initialCapacity: 32,
+      hashFunction: key => key.length,
+      minLoadFactor: 0,
+    });
+    const keys = ['a', 'b', 'c', 'dd', 'ee', 'fff', 'g', 'hh', 'iii', 'jjjj'];
+    keys.forEach((key, i) => hashmap.set(key, i));
+    hashmap.delete('b');
+    hashmap.delete('ee');
+
+    // Homes 1 to 4 hold a, c, g | dd, hh | fff, iii | jjjj packed into slots 1 to 8
+    expect(probeLengths(hashmap)).toEqual({ 0: 24, 1: 1, 2: 1, 3: 2, 4: 2, 5: 2 });
+    keys.forEach((key, i) => {
+      expect(hashmap.get(key)).toBe(key === 'b' || key === 'ee' ? undefined : i);
+    });
+  });
+
+  it('should shift entries back across the end of the table', () => {
+    const hashmap = new RobinHoodHashmap<string, number>({
+      initialCapacity: 8,
+      loadFactor: 0.9,
+      hashFunction: () => 7,
+    });
+    ['a', 'b', 'c', 'd'].forEach((key, i) => hashmap.set(key, i));
+
+    expect(probeLengths(hashmap)).toEqual({ 0: 4, 1: 1, 2: 1, 3: 1, 4: 1 });
+
+    hashmap.delete('a');
+
+    expect(probeLengths(hashmap)).toEqual({ 0: 5, 1: 1, 2: 1, 3: 1 });
+    expect(hashmap.get('d')).toBe(3);
+  });
+
+  it('should take the slot of entries closer to home', () => {
+    const hashmap = new RobinHoodHashmap<string, number>({
+      initialCapacity: 8,
+      hashFunction: key => (key.startsWith('x') ? 1 : 0),
+    });
+    hashmap.set('a', 0);
+    hashmap.set('x1', 1);
+    hashmap.set('b', 2);
+
+    // Linear probing would leave b three slots from home; here b and x1 share
+    // the displacement
+    expect(probeLengths(hashmap)).toEqual({ 0: 5, 1: 1, 2: 2 });
+    expect(hashmap.stats().longestChain).toBe(2);
+    expect(hashmap.get('x1')).toBe(1);
+  });
+
+  it('should double capacity once the load factor is exceeded', () => {
+    const hashmap = new RobinHoodHashmap<number, number>({ initialCapacity: 8 });
+    for (let i = 0; i < 6; i++) {
+      hashmap.set(i, i);
+    }
+    expect(hashmap.capacity).toBe(8);
+
+    hashmap.set(6, 6);
+
+    expect(hashmap.capacity).toBe(16);
+    for (let i = 0; i < 7; i++) {
+      expect(hashmap.get(i)).toBe(i);
+    }
+  });
+});
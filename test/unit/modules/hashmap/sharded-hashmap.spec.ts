@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HashUtils } from '../../../../src/modules/hashmap/hash-utils';
+import { RobinHoodHashmap } from '../../../../src/modules/hashmap/robin-hood-hashmap';
+import { ShardedHashmap } from '../../../../src/modules/hashmap/sharded-hashmap';
+import { HashmapEvent } from '../../../../src/modules/hashmap/types';
+
+describe('ShardedHashmap', () => {
+  let sharded: ShardedHashmap<string, number>;
+
+  const fill = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      sharded.set(`uploads/${i}.pdf`, i);
+    }
+  };
+
+  beforeEach(() => {
+    sharded = new ShardedHashmap<string, number>({ shards: ['a', 'b', 'c'] });
+  });
+
+  afterEach(() => {
+    sharded.stopSweeper();
+    jest.useRealTimers();
+  });
+
+  it('should route every key to the shard the ring assigns', () => {
+    fill(300);
+
+    expect(sharded.size).toBe(300);
+    expect(sharded.get('uploads/42.pdf')).toBe(42);
+    for (const name of sharded.shardNames) {
+      for (const key of sharded.shard(name).keys()) {
+        expect(sharded.shardOf(key)).toBe(name);
+      }
+    }
+  });
+
+  it('should report per-shard balance', () => {
+    fill(3000);
+    const balance = sharded.balance();
+
+    expect(balance.map(shard => shard.shard)).toEqual(['a', 'b', 'c']);
+    expect(balance.reduce((total, shard) => total + shard.size, 0)).toBe(3000);
+    for (const shard of balance) {
+      expect(shard.share).toBeGreaterThan(0.2);
+      expect(shard.share).toBeLessThan(0.45);
+      expect(shard.ownership).toBeGreaterThan(0.2);
+    }
+  });
+
+  it('should only move keys onto an added shard', () => {
+    fill(1000);
+    const before = new Map([...sharded.keys()].map(key => [key, sharded.shardOf(key)]));
+
+    const moved = sharded.addShard('d');
+
+    expect(moved).toBe(sharded.shard('d').size);
+    expect(moved).toBeGreaterThan(0);
+    expect(moved).toBeLessThan(500);
+    for (const [key, shard] of before) {
+      expect([shard, 'd']).toContain(sharded.shardOf(key));
+    }
+    expect(sharded.size).toBe(1000);
+    expect(sharded.get('uploads/7.pdf')).toBe(7);
+  });
+
+  it('should move the keys of a removed shard and keep their TTL', () => {
+    jest.useFakeTimers();
+    sharded.set('expiring', 1, { ttl: 1000 });
+    fill(100);
+    const owner = sharded.shardOf('expiring');
+
+    expect(sharded.removeShard(owner)).toBeGreaterThan(0);
+
+    expect(sharded.shardNames).not.toContain(owner);
+    expect(sharded.size).toBe(101);
+    expect(sharded.getRemainingTtl('expiring')).toBeLessThanOrEqual(1000);
+    jest.advanceTimersByTime(1000);
+    expect(sharded.get('expiring')).toBeUndefined();
+    expect(() => sharded.shard(owner)).toThrow(`Unknown shard: ${owner}`);
+  });
+
+  it('should refuse to remove the last shard', () => {
+    const single = new ShardedHashmap<string, number>({ shards: 1 });
+
+    expect(() => single.removeShard('shard-0')).toThrow('Cannot remove the last shard');
+  });
+
+  it('should forward shard events but not report migrations', () => {
+    const events: Array<HashmapEvent<string, number>> = [];
+    sharded.subscribe(event => events.push(event));
+
+    sharded.set('a', 1);
+    sharded.delete('a');
+    fill(50);
+    events.length = 0;
+    sharded.addShard('d');
+    sharded.clear();
+
+    expect(events).toEqual([{ type: 'clear' }]);
+  });
+
+  it('should report evictions caused by moving keys onto a full shard', () => {
+    const bounded = new ShardedHashmap<string, number>({
+      shards: ['a', 'b'],
+      shardOptions: { maxEntries: 1 },
+    });
+    const keys = Array.from({ length: 50 }, (_, i) => `key-${i}`);
+    const first = keys.find(key => bounded.shardOf(key) === 'a');
+    const second = keys.find(key => bounded.shardOf(key) === 'b');
+    bounded.set(first, 1);
+    bounded.set(second, 2);
+    const events: Array<HashmapEvent<string, number>> = [];
+    bounded.subscribe(event => events.push(event));
+
+    bounded.removeShard('a');
+
+    expect(events).toEqual([{ type: 'evict', key: second, oldValue: 2 }]);
+    expect(bounded.get(first)).toBe(1);
+  });
+
+  it('should route bigint keys', () => {
+    const big = new ShardedHashmap<bigint, string>({ shards: 4 });
+    big.set(2n ** 64n, 'large');
+    big.set(1n, 'small');
+
+    expect(big.get(2n ** 64n)).toBe('large');
+    expect(big.get(1n)).toBe('small');
+  });
+
+  it('should route structurally equal keys to the same shard', () => {
+    const structural = new ShardedHashmap<Record<string, number>, string>({
+      shards: 8,
+      shardOptions: { keyEquality: 'structural' },
+    });
+    for (let i = 0; i < 20; i++) {
+      structural.set({ a: i, b: i + 1 }, `value-${i}`);
+    }
+
+    for (let i = 0; i < 20; i++) {
+      expect(structural.shardOf({ b: i + 1, a: i })).toBe(structural.shardOf({ a: i, b: i + 1 }));
+      expect(structural.get({ b: i + 1, a: i })).toBe(`value-${i}`);
+    }
+  });
+
+  it('should route keys the same way whatever the per-process hash seed', () => {
+    const keys = ['uploads/a.pdf', 42, { id: 7 }];
+    const routes = (seed: number) => {
+      HashUtils.setSeed(seed, seed + 1);
+      const plain = new ShardedHashmap<unknown, number>({ shards: 16 });
+      const structural = new ShardedHashmap<unknown, number>({
+        shards: 16,
+        shardOptions: { keyEquality: 'structural' },
+      });
+      return keys.map(key => [plain.shardOf(key), structural.shardOf(key)]);
+    };
+
+    try {
+      expect(routes(1)).toEqual(routes(2));
+    } finally {
+      HashUtils.resetSeed();
+    }
+  });
+
+  it('should aggregate stats across shards', () => {
+    fill(100);
+    sharded.get('uploads/1.pdf');
+    sharded.get('missing');
+    const stats = sharded.stats();
+
+    expect(stats.size).toBe(100);
+    expect(stats.capacity).toBe(sharded.capacity);
+    expect(stats.hits).toBe(1);
+    expect(stats.misses).toBe(1);
+    expect(stats.longestChain).toBeGreaterThanOrEqual(1);
+    expect(stats.loadFactor).toBeCloseTo(100 / stats.capacity);
+    expect(stats.bytes).toBe(sharded.totalBytes);
+    expect(stats.maxBytes).toBeNull();
+    expect(stats.maxLoadFactor).toBe(0.75);
+  });
+
+  it('should add up the byte budgets of the shards', () => {
+    const bounded = new ShardedHashmap<string, number>({
+      shards: 2,
+      shardOptions: { maxBytes: 1000 },
+    });
+
+    expect(bounded.stats().maxBytes).toBe(2000);
+  });
+
+  it('should support compute operations and batches per key', () => {
+    sharded.merge('count', 1, (a, b) => a + b);
+    sharded.merge('count', 1, (a, b) => a + b);
+    sharded.batch().set('x', 1).delete('count').commit();
+
+    expect(sharded.get('count')).toBeUndefined();
+    expect(sharded.get('x')).toBe(1);
+  });
+
+  it('should create shards with the given implementation and options', () => {
+    const robinHood = new ShardedHashmap<string, number>({
+      shards: 2,
+      implementation: 'robin-hood',
+      shardOptions: { maxEntries: 1 },
+    });
+    robinHood.addShard('extra');
+
+    expect(robinHood.shard('shard-0')).toBeInstanceOf(RobinHoodHashmap);
+    expect(robinHood.shard('extra')).toBeInstanceOf(RobinHoodHashmap);
+    expect(() => new ShardedHashmap({ shards: [] })).toThrow(
+      'ShardedHashmap needs at least one shard',
+    );
+  });
+
+  it('should save and load snapshots regardless of the shard layout', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sharded-hashmap-'));
+    const file = path.join(dir, 'cache.snapshot');
+    try {
+      fill(20);
+      await sharded.saveSnapshot(file);
+
+      const other = new ShardedHashmap<string, number>({ shards: 5 });
+      await expect(other.loadSnapshot(file)).resolves.toBe(20);
+      expect(other.get('uploads/3.pdf')).toBe(3);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
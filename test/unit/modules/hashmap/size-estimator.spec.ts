@@ -0,0 +1,63 @@
+import {
+  defaultSizeEstimator,
+  estimateSize,
+  jsonSizeEstimator,
+} from '../../../../src/modules/hashmap/size-estimator';
+
+describe('estimateSize', () => {
+  it('should size primitives', () => {
+    expect(estimateSize('abcd')).toBe(8);
+    expect(estimateSize(42)).toBe(8);
+    expect(estimateSize(true)).toBe(4);
+    expect(estimateSize(null)).toBe(0);
+    expect(estimateSize(undefined)).toBe(0);
+    expect(estimateSize(2n ** 100n)).toBeGreaterThan(estimateSize(1n));
+  });
+
+  it('should add a header and one reference per slot for objects and arrays', () => {
+    // 16 header + (8 + 2 for "a") + (8 + 8 for 1)
+    expect(estimateSize({ a: 1 })).toBe(42);
+    // 16 header + 2 * (8 + 8)
+    expect(estimateSize([1, 2])).toBe(48);
+    expect(estimateSize(new Set([1, 2]))).toBe(48);
+    expect(estimateSize(new Map([['a', 1]]))).toBe(42);
+    expect(estimateSize(new Date())).toBe(24);
+    expect(estimateSize(Buffer.alloc(100))).toBe(116);
+  });
+
+  it('should grow with the content of plain JSON values', () => {
+    const attachment = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      path: 'uploads/docs/report.pdf',
+      size: 1024,
+      metadata: { width: 800 },
+    };
+
+    expect(estimateSize({ ...attachment, path: `${attachment.path}.bak` })).toBe(
+      estimateSize(attachment) + 8,
+    );
+    expect(estimateSize({ ...attachment, tags: ['a'] })).toBeGreaterThan(estimateSize(attachment));
+  });
+
+  it('should count shared and cyclic references once', () => {
+    const shared = { name: 'shared' };
+    const cyclic: Record<string, unknown> = { name: 'node' };
+    cyclic.self = cyclic;
+
+    expect(estimateSize([shared, shared])).toBe(estimateSize([shared]) + 8);
+    expect(estimateSize(cyclic)).toBe(estimateSize({ name: 'node', self: null }));
+  });
+});
+
+describe('size estimators', () => {
+  it('should include the key in the default estimate', () => {
+    expect(defaultSizeEstimator('key', 'value')).toBe(16);
+  });
+
+  it('should measure the UTF-8 length of the JSON encoding', () => {
+    expect(jsonSizeEstimator('key', { name: 'é' })).toBe(
+      '"key"'.length + '{"name":"é"}'.length + 1,
+    );
+    expect(jsonSizeEstimator('key', undefined)).toBe(5);
+  });
+});
@@ -0,0 +1,99 @@
+import { SkipList } from '../../../../src/modules/hashmap/skip-list';
+
+describe('SkipList', () => {
+  let list: SkipList<number>;
+
+  beforeEach(() => {
+    list = new SkipList<number>();
+  });
+
+  it('should keep values sorted regardless of insertion order', () => {
+    [5, 1, 4, 2, 3].forEach(value => list.add(value));
+
+    expect([...list]).toEqual([1, 2, 3, 4, 5]);
+    expect(list.size).toBe(5);
+    expect(list.first()).toBe(1);
+    expect(list.last()).toBe(5);
+  });
+
+  it('should ignore duplicates', () => {
+    expect(list.add(1)).toBe(true);
+    expect(list.add(1)).toBe(false);
+
+    expect(list.size).toBe(1);
+  });
+
+  it('should delete values', () => {
+    [1, 2, 3].forEach(value => list.add(value));
+
+    expect(list.delete(2)).toBe(true);
+    expect(list.delete(2)).toBe(false);
+    expect(list.has(2)).toBe(false);
+    expect(list.has(3)).toBe(true);
+    expect([...list]).toEqual([1, 3]);
+  });
+
+  it('should return undefined for first and last when empty', () => {
+    expect(list.first()).toBeUndefined();
+    expect(list.last()).toBeUndefined();
+
+    list.add(1);
+    list.delete(1);
+
+    expect(list.last()).toBeUndefined();
+    expect([...list]).toEqual([]);
+  });
+
+  it('should answer half-open ranges by default', () => {
+    [1, 2, 3, 4, 5].forEach(value => list.add(value));
+
+    expect([...list.range(2, 4)]).toEqual([2, 3]);
+    expect([...list.range(2, 4, { fromInclusive: false, toInclusive: true })]).toEqual([3, 4]);
+    expect([...list.range(undefined, 3)]).toEqual([1, 2]);
+    expect([...list.range(4)]).toEqual([4, 5]);
+    expect([...list.range(2.5, 3.5)]).toEqual([3]);
+    expect([...list.range(6)]).toEqual([]);
+  });
+
+  it('should scan from a value while the predicate holds', () => {
+    const strings = new SkipList<string>();
+    ['b', 'ab', 'abc', 'a', 'ac', 'abd'].forEach(value => strings.add(value));
+
+    expect([...strings.scanFrom('ab', value => value.startsWith('ab'))]).toEqual([
+      'ab',
+      'abc',
+      'abd',
+    ]);
+  });
+
+  it('should use a custom comparator', () => {
+    const descending = new SkipList<number>((a, b) => b - a);
+    [1, 3, 2].forEach(value => descending.add(value));
+
+    expect([...descending]).toEqual([3, 2, 1]);
+  });
+
+  it('should stay consistent across many random operations', () => {
+    const expected = new Set<number>();
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const seeded = new SkipList<number>(undefined, random);
+
+    for (let i = 0; i < 2000; i++) {
+      const value = Math.floor(random() * 500);
+      if (random() < 0.6) {
+        expect(seeded.add(value)).toBe(!expected.has(value));
+        expected.add(value);
+      } else {
+        expect(seeded.delete(value)).toBe(expected.has(value));
+        expected.delete(value);
+      }
+    }
+
+    expect([...seeded]).toEqual([...expected].sort((a, b) => a - b));
+    expect(seeded.size).toBe(expected.size);
+  });
+});
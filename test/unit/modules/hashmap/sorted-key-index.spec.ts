@@ -0,0 +1,93 @@
+import { CustomHashmap } from '../../../../src/modules/hashmap/custom-hashmap';
+import { SortedKeyIndex } from '../../../../src/modules/hashmap/sorted-key-index';
+
+describe('SortedKeyIndex', () => {
+  let hashmap: CustomHashmap<string, number>;
+  let index: SortedKeyIndex<number>;
+
+  beforeEach(() => {
+    hashmap = new CustomHashmap<string, number>();
+    index = new SortedKeyIndex(hashmap);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should iterate keys in sorted order', () => {
+    hashmap.set('uploads/b.pdf', 1);
+    hashmap.set('uploads/a.pdf', 2);
+    hashmap.set('images/c.png', 3);
+
+    expect([...index.keys()]).toEqual(['images/c.png', 'uploads/a.pdf', 'uploads/b.pdf']);
+    expect(index.first()).toBe('images/c.png');
+    expect(index.last()).toBe('uploads/b.pdf');
+    expect(index.size).toBe(3);
+  });
+
+  it('should index keys already in the map', () => {
+    hashmap.set('b', 1);
+    hashmap.set('a', 2);
+
+    expect([...new SortedKeyIndex(hashmap).keys()]).toEqual(['a', 'b']);
+  });
+
+  it('should scan keys and entries by prefix', () => {
+    hashmap.set('uploads/docs/2024/a.pdf', 1);
+    hashmap.set('uploads/docs-old/b.pdf', 2);
+    hashmap.set('uploads/docs/c.pdf', 3);
+    hashmap.set('uploads/images/d.png', 4);
+
+    expect([...index.keysWithPrefix('uploads/docs/')]).toEqual([
+      'uploads/docs/2024/a.pdf',
+      'uploads/docs/c.pdf',
+    ]);
+    expect([...index.entriesWithPrefix('uploads/images/')]).toEqual([['uploads/images/d.png', 4]]);
+    expect([...index.keysWithPrefix('missing/')]).toEqual([]);
+  });
+
+  it('should answer range queries', () => {
+    ['a', 'b', 'c', 'd'].forEach((key, i) => hashmap.set(key, i));
+
+    expect([...index.range('b', 'd')]).toEqual(['b', 'c']);
+    expect([...index.range('b', 'd', { toInclusive: true })]).toEqual(['b', 'c', 'd']);
+    expect([...index.entriesInRange(undefined, 'b')]).toEqual([['a', 0]]);
+  });
+
+  it('should not duplicate keys on update', () => {
+    hashmap.set('a', 1);
+    hashmap.set('a', 2);
+
+    expect([...index.entriesWithPrefix('a')]).toEqual([['a', 2]]);
+    expect(index.size).toBe(1);
+  });
+
+  it('should drop deleted, evicted and expired keys', () => {
+    jest.useFakeTimers();
+    const bounded = new CustomHashmap<string, number>({ maxEntries: 2 });
+    const boundedIndex = new SortedKeyIndex(bounded);
+
+    bounded.set('a', 1);
+    bounded.set('b', 2, { ttl: 1000 });
+    bounded.set('c', 3);
+    expect([...boundedIndex.keys()]).toEqual(['b', 'c']);
+
+    jest.advanceTimersByTime(1000);
+    bounded.purgeExpired();
+    bounded.delete('c');
+
+    expect([...boundedIndex.keys()]).toEqual([]);
+  });
+
+  it('should empty the index when the map is cleared', () => {
+    hashmap.set('a', 1);
+    hashmap.clear();
+
+    expect(index.size).toBe(0);
+  });
+
+  it('should stop following the map once closed', () => {
+    index.close();
+    hashmap.set('a', 1);
+
+    expect(index.size).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { TreeBin, defaultCompare } from '../../../../src/modules/hashmap/tree-bin';
+import { HashmapNode } from '../../../../src/modules/hashmap/types';
+
+describe('TreeBin', () => {
+  const createNode = (key: string, hash = 7): HashmapNode<string, number> => ({
+    key,
+    value: key.length,
+    hash,
+    next: null,
+  });
+
+  let bin: TreeBin<string, number>;
+
+  beforeEach(() => {
+    bin = new TreeBin<string, number>((a, b) => a === b, defaultCompare);
+  });
+
+  it('should find inserted nodes that share a hash', () => {
+    const keys = Array.from({ length: 100 }, (_, i) => `key${i}`);
+    keys.forEach(key => bin.insert(createNode(key)));
+
+    expect(bin.size).toBe(100);
+    keys.forEach(key => expect(bin.find(7, key)?.key).toBe(key));
+    expect(bin.find(7, 'missing')).toBeNull();
+    expect(bin.find(8, 'key1')).toBeNull();
+  });
+
+  it('should stay balanced for sorted insertions', () => {
+    for (let i = 0; i < 1024; i++) {
+      bin.insert(createNode(`key${String(i).padStart(4, '0')}`, i));
+    }
+
+    expect(bin.depth).toBeLessThanOrEqual(Math.ceil(1.45 * Math.log2(1024)));
+  });
+
+  it('should remove nodes and keep the rest reachable', () => {
+    const keys = Array.from({ length: 50 }, (_, i) => `key${i}`);
+    keys.forEach((key, i) => bin.insert(createNode(key, i % 5)));
+
+    keys.forEach((key, i) => {
+      if (i % 3 === 0) {
+        expect(bin.remove(i % 5, key)?.key).toBe(key);
+      }
+    });
+
+    expect(bin.size).toBe(33);
+    keys.forEach((key, i) => {
+      expect(bin.find(i % 5, key)?.key).toBe(i % 3 === 0 ? undefined : key);
+    });
+    expect(bin.remove(0, 'key0')).toBeNull();
+  });
+
+  it('should group keys the comparator cannot order and tell them apart by equality', () => {
+    const incomparable = new TreeBin<{ id: number }, number>(
+      (a, b) => a.id === b.id,
+      () => 0,
+    );
+    const nodes = [1, 2, 3].map(id => ({ key: { id }, value: id, hash: 1, next: null }));
+    nodes.forEach(node => incomparable.insert(node));
+
+    expect(incomparable.find(1, { id: 2 })).toBe(nodes[1]);
+    expect(incomparable.remove(1, { id: 1 })).toBe(nodes[0]);
+    expect([...incomparable.nodes()]).toEqual([nodes[1], nodes[2]]);
+  });
+
+  it('should list nodes in hash order', () => {
+    [5, 1, 4, 2, 3].forEach(hash => bin.insert(createNode(`key${hash}`, hash)));
+
+    expect([...bin.nodes()].map(node => node.hash)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  describe('defaultCompare', () => {
+    it('should order primitives of the same type and separate types', () => {
+      expect(defaultCompare('a', 'b')).toBeLessThan(0);
+      expect(defaultCompare(2, 1)).toBeGreaterThan(0);
+      expect(defaultCompare(1, 1)).toBe(0);
+      expect(defaultCompare<unknown>(1, 'a')).not.toBe(0);
+      expect(defaultCompare({ a: 1 }, { a: 2 })).toBe(0);
+    });
+  });
+});